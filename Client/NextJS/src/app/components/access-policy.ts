@@ -0,0 +1,264 @@
+import { blake2b160 } from '@multiformats/blake2/blake2b';
+import { VdicAccessControl } from './interfaces';
+
+export type AccessPolicyMode = 'any' | 'all';
+
+export interface AssetRequirement {
+  policyId?: string;
+  assetName?: string;
+  fingerprint?: string;
+  minQuantity?: string;
+}
+
+export interface AccessPolicy {
+  type: 'public' | 'token_gated';
+  mode: AccessPolicyMode;
+  assets: AssetRequirement[];
+}
+
+export interface AssetHolding {
+  policyId: string;
+  assetName: string;
+  quantity: bigint;
+}
+
+export interface AssetSource {
+  getHoldings(walletAddress: string): Promise<AssetHolding[]>;
+}
+
+export interface AssetFixture {
+  policyId: string;
+  assetName?: string;
+  quantity: string | number;
+}
+
+export interface PolicyEvaluationResult {
+  allowed: boolean;
+  satisfied: AssetRequirement[];
+  missing: AssetRequirement[];
+  error?: string;
+}
+
+export class FixtureAssetSource implements AssetSource {
+  private holdings = new Map<string, AssetHolding[]>();
+
+  constructor(fixtures: Record<string, AssetFixture[]> = {}) {
+    Object.entries(fixtures).forEach(([address, assets]) => this.setHoldings(address, assets));
+  }
+
+  setHoldings(walletAddress: string, assets: AssetFixture[]): void {
+    this.holdings.set(walletAddress, assets.map(asset => ({
+      policyId: asset.policyId.toLowerCase(),
+      assetName: (asset.assetName || '').toLowerCase(),
+      quantity: BigInt(asset.quantity)
+    })));
+  }
+
+  async getHoldings(walletAddress: string): Promise<AssetHolding[]> {
+    return this.holdings.get(walletAddress) || [];
+  }
+}
+
+export class AccessPolicyEngine {
+  private static readonly POLICY_ID_PATTERN = /^[0-9a-f]{56}$/;
+  private static readonly FINGERPRINT_PATTERN = /^asset1[02-9ac-hj-np-z]{38}$/;
+  private static readonly BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+  private static readonly WILDCARD = '*';
+
+  static createPolicy(assets: Array<string | AssetRequirement>, mode: AccessPolicyMode = 'any'): AccessPolicy {
+    if (assets.length === 0) {
+      return { type: 'public', mode, assets: [] };
+    }
+    return {
+      type: 'token_gated',
+      mode,
+      assets: assets.map(asset => typeof asset === 'string' ? this.parseRequirement(asset) : this.normalizeRequirement(asset))
+    };
+  }
+
+  static fromAccessControl(accessControl: VdicAccessControl, mode: AccessPolicyMode = 'any'): AccessPolicy {
+    if (accessControl.type !== 'token_gated') {
+      return { type: 'public', mode, assets: [] };
+    }
+    if (!accessControl.required_assets || accessControl.required_assets.length === 0) {
+      throw new Error('Token gated access control requires at least one required asset');
+    }
+    return this.createPolicy(accessControl.required_assets, accessControl.mode ?? mode);
+  }
+
+  static parseRequirement(asset: string): AssetRequirement {
+    const value = asset.trim().toLowerCase();
+
+    if (this.FINGERPRINT_PATTERN.test(value)) {
+      return { fingerprint: value, minQuantity: '1' };
+    }
+
+    const [policyId, assetName] = value.includes('.')
+      ? value.split('.', 2)
+      : [value.slice(0, 56), value.slice(56)];
+
+    return this.normalizeRequirement({
+      policyId,
+      assetName: assetName === '' ? this.WILDCARD : assetName,
+      minQuantity: '1'
+    });
+  }
+
+  static async getFingerprint(policyId: string, assetName: string): Promise<string> {
+    const digest = await blake2b160.digest(this.hexToBytes(policyId + assetName));
+    return this.bech32Encode('asset', digest.digest);
+  }
+
+  static async evaluate(policy: AccessPolicy, holdings: AssetHolding[]): Promise<PolicyEvaluationResult> {
+    if (policy.type === 'public') {
+      return { allowed: true, satisfied: [], missing: [] };
+    }
+
+    const fingerprints = new Map<AssetHolding, string>();
+    if (policy.assets.some(requirement => requirement.fingerprint)) {
+      for (const holding of holdings) {
+        fingerprints.set(holding, await this.getFingerprint(holding.policyId, holding.assetName));
+      }
+    }
+
+    const satisfied: AssetRequirement[] = [];
+    const missing: AssetRequirement[] = [];
+
+    for (const requirement of policy.assets) {
+      const held = holdings
+        .filter(holding => this.matches(requirement, holding, fingerprints.get(holding)))
+        .reduce((total, holding) => total + holding.quantity, BigInt(0));
+
+      if (held >= BigInt(requirement.minQuantity || '1')) {
+        satisfied.push(requirement);
+      } else {
+        missing.push(requirement);
+      }
+    }
+
+    const allowed = policy.mode === 'all' ? missing.length === 0 : satisfied.length > 0;
+    return { allowed, satisfied, missing };
+  }
+
+  static async evaluateForWallet(
+    policy: AccessPolicy,
+    walletAddress: string | undefined,
+    source: AssetSource | null
+  ): Promise<PolicyEvaluationResult> {
+    if (policy.type === 'public') {
+      return { allowed: true, satisfied: [], missing: [] };
+    }
+    if (!walletAddress) {
+      return { allowed: false, satisfied: [], missing: policy.assets, error: 'A wallet address is required for token gated content' };
+    }
+    if (!source) {
+      return { allowed: false, satisfied: [], missing: policy.assets, error: 'No asset source configured' };
+    }
+
+    try {
+      return await this.evaluate(policy, await source.getHoldings(walletAddress));
+    } catch (error) {
+      return {
+        allowed: false,
+        satisfied: [],
+        missing: policy.assets,
+        error: error instanceof Error ? error.message : 'Failed to load wallet assets'
+      };
+    }
+  }
+
+  static describeRequirement(requirement: AssetRequirement): string {
+    const quantity = requirement.minQuantity && requirement.minQuantity !== '1' ? ` (min ${requirement.minQuantity})` : '';
+    if (requirement.fingerprint) return `${requirement.fingerprint}${quantity}`;
+    return `${requirement.policyId}.${requirement.assetName || this.WILDCARD}${quantity}`;
+  }
+
+  private static matches(requirement: AssetRequirement, holding: AssetHolding, fingerprint?: string): boolean {
+    if (requirement.fingerprint) {
+      return requirement.fingerprint === fingerprint;
+    }
+    if (requirement.policyId !== holding.policyId) {
+      return false;
+    }
+    return !requirement.assetName || requirement.assetName === this.WILDCARD || requirement.assetName === holding.assetName;
+  }
+
+  private static normalizeRequirement(requirement: AssetRequirement): AssetRequirement {
+    const minQuantity = String(requirement.minQuantity ?? '1');
+    if (!/^\d+$/.test(minQuantity) || BigInt(minQuantity) < BigInt(1)) {
+      throw new Error(`Invalid minimum quantity: ${requirement.minQuantity}`);
+    }
+
+    if (requirement.fingerprint) {
+      const fingerprint = requirement.fingerprint.toLowerCase();
+      if (!this.FINGERPRINT_PATTERN.test(fingerprint)) {
+        throw new Error(`Invalid asset fingerprint: ${requirement.fingerprint}`);
+      }
+      return { fingerprint, minQuantity };
+    }
+
+    const policyId = (requirement.policyId || '').toLowerCase();
+    if (!this.POLICY_ID_PATTERN.test(policyId)) {
+      throw new Error(`Invalid policy ID: ${requirement.policyId}`);
+    }
+
+    const assetName = (requirement.assetName || this.WILDCARD).toLowerCase();
+    if (assetName !== this.WILDCARD && !/^([0-9a-f]{2}){1,32}$/.test(assetName)) {
+      throw new Error(`Invalid asset name (expected hex): ${requirement.assetName}`);
+    }
+
+    return { policyId, assetName, minQuantity };
+  }
+
+  private static hexToBytes(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+  }
+
+  private static bech32Encode(prefix: string, data: Uint8Array): string {
+    const words: number[] = [];
+    let accumulator = 0;
+    let bits = 0;
+    for (const byte of data) {
+      accumulator = (accumulator << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        bits -= 5;
+        words.push((accumulator >> bits) & 31);
+      }
+    }
+    if (bits > 0) {
+      words.push((accumulator << (5 - bits)) & 31);
+    }
+
+    const values = [...this.expandPrefix(prefix), ...words, 0, 0, 0, 0, 0, 0];
+    const polymod = this.bech32Polymod(values) ^ 1;
+    const checksum = Array.from({ length: 6 }, (_, i) => (polymod >> (5 * (5 - i))) & 31);
+
+    return `${prefix}1${[...words, ...checksum].map(word => this.BECH32_CHARSET[word]).join('')}`;
+  }
+
+  private static expandPrefix(prefix: string): number[] {
+    const high = Array.from(prefix, char => char.charCodeAt(0) >> 5);
+    const low = Array.from(prefix, char => char.charCodeAt(0) & 31);
+    return [...high, 0, ...low];
+  }
+
+  private static bech32Polymod(values: number[]): number {
+    const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+    let checksum = 1;
+    for (const value of values) {
+      const top = checksum >> 25;
+      checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+      for (let i = 0; i < 5; i++) {
+        if ((top >> i) & 1) {
+          checksum ^= generators[i];
+        }
+      }
+    }
+    return checksum;
+  }
+}
\ No newline at end of file
@@ -1,12 +1,23 @@
+import { CID } from 'multiformats/cid';
+import { varint } from 'multiformats';
+import * as dagCBOR from '@ipld/dag-cbor';
+import * as dagPB from '@ipld/dag-pb';
+import { UnixFS } from 'ipfs-unixfs';
 import { DatastoreItem } from './interfaces';
 import { IPFSManager } from './ipfs-manager';
+import { ShardingUtils } from './sharding-utils';
+import { HasherRegistry } from './hasher-registry';
+import { StreamUtils } from './stream-utils';
 import { Logger } from './logger';
 
+export type CARVersion = 1 | 2;
+
 export interface CARExportOptions {
   includePinned: boolean;
   includeUnverified: boolean;
   maxSize: number;
   compression: boolean;
+  version: CARVersion;
 }
 
 export interface CARImportResult {
@@ -14,115 +25,294 @@ export interface CARImportResult {
   importedItems: DatastoreItem[];
   errors: string[];
   warnings: string[];
+  roots: string[];
+  blockCount: number;
+}
+
+export interface CARHeader {
+  version: CARVersion;
+  roots: CID[];
+  dataOffset?: number;
+  dataSize?: number;
+  indexOffset?: number;
+}
+
+export interface CARBlock {
+  cid: CID;
+  bytes: Uint8Array;
+}
+
+export type CARSource = Uint8Array | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+type BlockGetter = (cid: CID) => Promise<Uint8Array>;
+
+interface CARWriteOptions {
+  version?: CARVersion;
+  traverse?: CID[];
 }
 
-export interface CARMetadata {
-  version: string;
-  created: number;
-  itemCount: number;
-  totalSize: number;
-  rootCIDs: string[];
-  checksum: string;
+interface IndexEntry {
+  digest: Uint8Array;
+  offset: number;
+}
+
+// Pulls exact byte counts out of a chunked source without buffering more than one chunk ahead
+class ByteReader {
+  private buffer = new Uint8Array(0);
+  private done = false;
+  position = 0;
+
+  constructor(private readonly source: AsyncIterator<Uint8Array>) {}
+
+  async atEnd(): Promise<boolean> {
+    await this.fill(1);
+    return this.buffer.length === 0;
+  }
+
+  async readVarint(): Promise<number> {
+    await this.fill(10);
+    if (this.buffer.length === 0) {
+      throw new Error('Unexpected end of CAR data');
+    }
+    const [value, length] = varint.decode(this.buffer);
+    this.consume(length);
+    return value;
+  }
+
+  async readExactly(length: number): Promise<Uint8Array> {
+    await this.fill(length);
+    if (this.buffer.length < length) {
+      throw new Error(`Unexpected end of CAR data: needed ${length} bytes, got ${this.buffer.length}`);
+    }
+    return this.consume(length);
+  }
+
+  async skip(length: number): Promise<void> {
+    while (length > 0) {
+      const step = Math.min(length, 1024 * 1024);
+      await this.readExactly(step);
+      length -= step;
+    }
+  }
+
+  private async fill(length: number): Promise<void> {
+    while (this.buffer.length < length && !this.done) {
+      const { value, done } = await this.source.next();
+      if (done) {
+        this.done = true;
+      } else if (value.length > 0) {
+        const merged = new Uint8Array(this.buffer.length + value.length);
+        merged.set(this.buffer, 0);
+        merged.set(value, this.buffer.length);
+        this.buffer = merged;
+      }
+    }
+  }
+
+  private consume(length: number): Uint8Array {
+    const bytes = this.buffer.slice(0, length);
+    this.buffer = this.buffer.subarray(length);
+    this.position += length;
+    return bytes;
+  }
 }
 
 export class CARHandler {
   private static logger = Logger.getInstance().createChildLogger('CAR');
+  private static readonly CODEC_RAW = 0x55;
+  private static readonly CODEC_DAG_PB = 0x70;
+  private static readonly CODEC_DAG_CBOR = 0x71;
+  private static readonly CODEC_IDENTITY = 0x00;
+  private static readonly INDEX_SORTED = 0x0400;
+  private static readonly V2_PRAGMA = new Uint8Array([0x0a, 0xa1, 0x67, 0x76, 0x65, 0x72, 0x73, 0x69, 0x6f, 0x6e, 0x02]);
+  private static readonly V2_HEADER_SIZE = 40;
 
   static async exportToCAR(
     items: DatastoreItem[],
     options: Partial<CARExportOptions> = {}
   ): Promise<{ success: boolean; data?: Uint8Array; error?: string }> {
+    try {
+      const data = await StreamUtils.collectAsyncIterable(StreamUtils.streamToAsyncIterable(await this.exportToCARStream(items, options)));
+      this.logger.info(`CAR export completed: ${data.length} bytes`);
+      return { success: true, data };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`CAR export failed: ${errorMessage}`);
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // Blocks are read from the blockstore as the stream is pulled, so archives larger than memory can be piped to disk
+  static async exportToCARStream(
+    items: DatastoreItem[],
+    options: Partial<CARExportOptions> = {}
+  ): Promise<ReadableStream<Uint8Array>> {
     const opts: CARExportOptions = {
       includePinned: true,
       includeUnverified: false,
       maxSize: 100 * 1024 * 1024,
       compression: false,
+      version: 1,
       ...options
     };
 
-    try {
-      this.logger.info(`Starting CAR export for ${items.length} items`);
-
-      const filteredItems = this.filterItemsForExport(items, opts);
-      this.logger.info(`Filtered to ${filteredItems.length} items for export`);
+    this.logger.info(`Starting CARv${opts.version} export for ${items.length} items`);
+    const filteredItems = this.filterItemsForExport(items, opts);
+    if (filteredItems.length === 0) {
+      throw new Error('No items to export');
+    }
+    if (!IPFSManager.getNode()) {
+      throw new Error('IPFS node not created. Call createNode() first.');
+    }
 
-      if (filteredItems.length === 0) {
-        return { success: false, error: 'No items to export' };
+    const roots = filteredItems.map(item => CID.parse(item.cid));
+    const traverse = [...roots];
+    for (const item of filteredItems) {
+      if (item.shardCount && item.shardCount > 1) {
+        const manifest = ShardingUtils.parseManifest(await StreamUtils.collectAsyncIterable(await IPFSManager.getFile(item.cid)));
+        if (manifest.shards.some(shard => !shard.cid)) {
+          throw new Error(`Shard manifest for ${item.name} is missing shard CIDs`);
+        }
+        traverse.push(...manifest.shards.map(shard => CID.parse(shard.cid!)));
       }
+    }
+
+    const chunks = this.limitSize(
+      this.writeCAR(roots, cid => IPFSManager.getBlock(cid), { version: opts.version, traverse }),
+      opts.maxSize
+    );
+    const stream = StreamUtils.asyncIterableToStream(chunks);
+    return opts.compression ? stream.pipeThrough(new CompressionStream('gzip') as unknown as TransformStream<Uint8Array, Uint8Array>) : stream;
+  }
 
-      const node = IPFSManager.getNode();
-      if (!node?.carService) {
-        return { success: false, error: 'CAR service not available' };
+  static async *writeCAR(roots: CID[], getBlock: BlockGetter, options: CARWriteOptions = {}): AsyncGenerator<Uint8Array> {
+    const traverse = options.traverse ?? roots;
+    const header = this.encodeHeader(roots);
+
+    if ((options.version ?? 1) === 1) {
+      yield header;
+      for await (const block of this.traverse(traverse, getBlock)) {
+        yield this.encodeSection(block);
       }
+      return;
+    }
+
+    // CARv2 puts the payload size before the payload, so a first pass sizes the sections and records index offsets
+    const entries: IndexEntry[] = [];
+    let dataSize = header.length;
+    for await (const block of this.traverse(traverse, getBlock)) {
+      entries.push({ digest: block.cid.multihash.digest, offset: dataSize });
+      dataSize += this.sectionLength(block);
+    }
 
-      const rootCIDs = filteredItems.map(item => item.cid);
-      const metadata = this.createCARMetadata(filteredItems);
+    const dataOffset = this.V2_PRAGMA.length + this.V2_HEADER_SIZE;
+    yield this.V2_PRAGMA;
+    yield this.encodeV2Header(dataOffset, dataSize, dataOffset + dataSize);
+    yield header;
 
-      this.logger.info('Creating CAR archive...');
-      const carData = await this.createCARArchive(node.carService, rootCIDs, metadata);
+    let written = header.length;
+    for await (const block of this.traverse(traverse, getBlock)) {
+      const section = this.encodeSection(block);
+      written += section.length;
+      yield section;
+    }
+    if (written !== dataSize) {
+      throw new Error('Blockstore changed while the CARv2 archive was being written');
+    }
+    yield this.encodeIndex(entries);
+  }
 
-      if (opts.compression) {
-        this.logger.info('Compressing CAR data...');
-        const compressed = await this.compressData(carData);
-        return { success: true, data: compressed };
+  // Depth-first from each root; blocks shared between roots are emitted once
+  static async *traverse(roots: CID[], getBlock: BlockGetter): AsyncGenerator<CARBlock> {
+    const seen = new Set<string>();
+    for (const root of roots) {
+      const stack: CID[] = [root];
+      while (stack.length > 0) {
+        const cid = stack.pop()!;
+        const key = cid.toString();
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const bytes = await getBlock(cid);
+        yield { cid, bytes };
+        stack.push(...this.getLinks(cid, bytes).reverse());
       }
+    }
+  }
 
-      this.logger.info(`CAR export completed: ${carData.length} bytes`);
-      return { success: true, data: carData };
+  static async readCAR(
+    source: CARSource,
+    onBlock: (block: CARBlock) => Promise<void> | void
+  ): Promise<CARHeader & { blockCount: number }> {
+    const reader = new ByteReader(this.toAsyncIterable(source)[Symbol.asyncIterator]());
+    let header = this.decodeHeader(await reader.readExactly(await reader.readVarint()));
+
+    if (header.version === 2) {
+      const v2 = await reader.readExactly(this.V2_HEADER_SIZE);
+      const view = new DataView(v2.buffer, v2.byteOffset, v2.byteLength);
+      const dataOffset = Number(view.getBigUint64(16, true));
+      const dataSize = Number(view.getBigUint64(24, true));
+      const indexOffset = Number(view.getBigUint64(32, true));
+
+      await reader.skip(dataOffset - reader.position);
+      const inner = this.decodeHeader(await reader.readExactly(await reader.readVarint()));
+      if (inner.version !== 1) {
+        throw new Error('CARv2 payload must be a CARv1 archive');
+      }
+      header = { version: 2, roots: inner.roots, dataOffset, dataSize, indexOffset };
+    }
 
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.logger.error(`CAR export failed: ${errorMessage}`);
-      return { success: false, error: errorMessage };
+    const end = header.version === 2 ? header.dataOffset! + header.dataSize! : Infinity;
+    let blockCount = 0;
+
+    while (reader.position < end && !(await reader.atEnd())) {
+      const section = await reader.readExactly(await reader.readVarint());
+      const cid = CID.decodeFirst(section)[0];
+      const bytes = section.subarray(cid.bytes.length);
+      if (!(await HasherRegistry.verify(cid, bytes))) {
+        throw new Error(`Block ${cid.toString()} does not match its CID`);
+      }
+      await onBlock({ cid, bytes });
+      blockCount++;
     }
+
+    if (reader.position > end) {
+      throw new Error('CARv2 payload overruns its declared data size');
+    }
+    return { ...header, blockCount };
   }
 
   static async importFromCAR(
-    carData: Uint8Array,
+    carData: CARSource,
     targetDatastore: DatastoreItem[]
   ): Promise<CARImportResult> {
     const result: CARImportResult = {
       success: false,
       importedItems: [],
       errors: [],
-      warnings: []
+      warnings: [],
+      roots: [],
+      blockCount: 0
     };
 
     try {
-      this.logger.info(`Starting CAR import: ${carData.length} bytes`);
-
-      let processedData = carData;
-
-      if (this.isCompressed(carData)) {
-        this.logger.info('Decompressing CAR data...');
-        processedData = await this.decompressData(carData);
-      }
-
-      const node = IPFSManager.getNode();
-      if (!node?.carService) {
-        result.errors.push('CAR service not available');
-        return result;
+      if (!IPFSManager.getNode()) {
+        throw new Error('IPFS node not created. Call createNode() first.');
       }
 
-      const parsedCAR = await this.parseCARArchive(node.carService, processedData);
-      const metadata = this.extractCARMetadata(parsedCAR);
+      this.logger.info('Starting CAR import');
+      const header = await this.readCAR(await this.decompressIfNeeded(carData), block => IPFSManager.putBlock(block.cid, block.bytes));
+      result.roots = header.roots.map(root => root.toString());
+      result.blockCount = header.blockCount;
+      this.logger.info(`Imported ${header.blockCount} verified blocks from CARv${header.version} with ${header.roots.length} roots`);
 
-      if (metadata) {
-        this.logger.info(`CAR metadata: ${metadata.itemCount} items, ${metadata.totalSize} bytes`);
-      }
-
-      const importedCIDs = this.extractCIDsFromCAR(parsedCAR);
-      this.logger.info(`Extracted ${importedCIDs.length} CIDs from CAR`);
-
-      for (const cid of importedCIDs) {
+      for (const cid of result.roots) {
         try {
           const item = await this.reconstructDatastoreItem(cid, targetDatastore);
-          if (item) {
-            if (this.isDuplicateItem(item, targetDatastore)) {
-              result.warnings.push(`Duplicate item skipped: ${item.name}`);
-            } else {
-              result.importedItems.push(item);
-            }
+          if (this.isDuplicateItem(item, targetDatastore)) {
+            result.warnings.push(`Duplicate item skipped: ${item.name}`);
+          } else {
+            result.importedItems.push(item);
           }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -142,293 +332,251 @@ export class CARHandler {
     return result;
   }
 
+  static async validateCARFile(carData: CARSource): Promise<{ valid: boolean; errors: string[]; header?: CARHeader & { blockCount: number } }> {
+    const errors: string[] = [];
+
+    try {
+      const header = await this.readCAR(await this.decompressIfNeeded(carData), () => {});
+      if (header.roots.length === 0) {
+        errors.push('CAR header has no roots');
+      }
+      if (header.blockCount === 0) {
+        errors.push('CAR file contains no blocks');
+      }
+      return { valid: errors.length === 0, errors, header };
+    } catch (error) {
+      errors.push(`CAR parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { valid: false, errors };
+    }
+  }
+
+  static createDownloadLink(carData: Uint8Array | Blob, filename: string = 'export.car'): void {
+    const blob = carData instanceof Blob ? carData : new Blob([carData as BlobPart], { type: 'application/vnd.ipld.car' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
   private static filterItemsForExport(items: DatastoreItem[], options: CARExportOptions): DatastoreItem[] {
     return items.filter(item => {
       if (!options.includeUnverified && !item.verified) {
         return false;
       }
+      if (!options.includePinned && item.pinned.length > 0) {
+        return false;
+      }
       return true;
     });
   }
 
-  private static createCARMetadata(items: DatastoreItem[]): CARMetadata {
-    const totalSize = items.reduce((sum, item) => sum + item.size, 0);
-    const rootCIDs = items.map(item => item.cid);
-
-    return {
-      version: '1.0.0',
-      created: Date.now(),
-      itemCount: items.length,
-      totalSize,
-      rootCIDs,
-      checksum: this.calculateChecksum(rootCIDs.join(''))
-    };
-  }
-
-  private static async createCARArchive(
-    carService: any,
-    rootCIDs: string[],
-    metadata: CARMetadata
-  ): Promise<Uint8Array> {
-    const metadataBlock = new TextEncoder().encode(JSON.stringify(metadata));
-    
-    const carBlocks = [];
-    carBlocks.push(metadataBlock);
-
-    for (const cidString of rootCIDs) {
-      try {
-        const cid = IPFSManager.parseCID(cidString);
-        const blockData = await carService.export(cid);
-        carBlocks.push(blockData);
-      } catch (error) {
-        this.logger.warn(`Failed to export block for CID: ${cidString}`);
-      }
+  static getLinks(cid: CID, bytes: Uint8Array): CID[] {
+    switch (cid.code) {
+      case this.CODEC_RAW:
+      case this.CODEC_IDENTITY:
+        return [];
+      case this.CODEC_DAG_PB:
+        return dagPB.decode(bytes).Links.map(link => link.Hash);
+      case this.CODEC_DAG_CBOR:
+        return this.collectCIDs(dagCBOR.decode(bytes));
+      default:
+        throw new Error(`Cannot traverse blocks with codec 0x${cid.code.toString(16)} (${cid.toString()})`);
     }
-
-    return this.combineBlocks(carBlocks);
   }
 
-  private static async parseCARArchive(carService: any, carData: Uint8Array): Promise<any> {
-    try {
-      return await carService.import(carData);
-    } catch (error) {
-      this.logger.error('Failed to parse CAR archive');
-      throw error;
+  private static collectCIDs(value: unknown, found: CID[] = []): CID[] {
+    const cid = CID.asCID(value);
+    if (cid) {
+      found.push(cid);
+    } else if (Array.isArray(value)) {
+      value.forEach(entry => this.collectCIDs(entry, found));
+    } else if (value && typeof value === 'object' && !(value instanceof Uint8Array)) {
+      Object.values(value).forEach(entry => this.collectCIDs(entry, found));
     }
+    return found;
   }
 
-  private static extractCARMetadata(parsedCAR: any): CARMetadata | null {
-    try {
-      if (parsedCAR && parsedCAR.metadata) {
-        return JSON.parse(new TextDecoder().decode(parsedCAR.metadata));
-      }
-      return null;
-    } catch (error) {
-      this.logger.warn('Failed to extract CAR metadata');
-      return null;
-    }
+  private static encodeHeader(roots: CID[]): Uint8Array {
+    const header = dagCBOR.encode({ roots, version: 1 });
+    return this.concat([varint.encodeTo(header.length, new Uint8Array(varint.encodingLength(header.length))), header]);
   }
 
-  private static extractCIDsFromCAR(parsedCAR: any): string[] {
-    try {
-      if (parsedCAR && parsedCAR.roots) {
-        return parsedCAR.roots.map((cid: any) => cid.toString());
-      }
-      return [];
-    } catch (error) {
-      this.logger.error('Failed to extract CIDs from CAR');
-      return [];
+  private static decodeHeader(bytes: Uint8Array): CARHeader {
+    const header = dagCBOR.decode<{ version?: unknown; roots?: unknown }>(bytes);
+    if (header.version === 2) {
+      return { version: 2, roots: [] };
+    }
+    if (header.version !== 1) {
+      throw new Error(`Unsupported CAR version: ${String(header.version)}`);
     }
+    if (!Array.isArray(header.roots) || header.roots.some(root => !CID.asCID(root))) {
+      throw new Error('CAR header roots must be an array of CIDs');
+    }
+    return { version: 1, roots: header.roots.map(root => CID.asCID(root)!) };
   }
 
-  private static async reconstructDatastoreItem(
-    cid: string,
-    existingDatastore: DatastoreItem[]
-  ): Promise<DatastoreItem | null> {
-    try {
-      const existingItem = existingDatastore.find(item => item.cid === cid);
-      if (existingItem) {
-        return { ...existingItem };
-      }
-
-      const data = await IPFSManager.getFile(cid);
-      const size = data.length;
-
-      return {
-        cid,
-        name: `imported-${cid.slice(0, 8)}`,
-        size,
-        type: 'application/octet-stream',
-        contentType: 'binary',
-        mimeType: 'application/octet-stream',
-        timestamp: Date.now(),
-        encrypted: false,
-        sharded: false,
-        pinned: [],
-        verified: false,
-        downloadCount: 0,
-        metadata: {
-          imported: true,
-          importDate: Date.now()
-        }
-      };
-    } catch (error) {
-      this.logger.warn(`Failed to reconstruct item for CID: ${cid}`);
-      return null;
-    }
+  private static sectionLength(block: CARBlock): number {
+    const length = block.cid.bytes.length + block.bytes.length;
+    return varint.encodingLength(length) + length;
   }
 
-  private static isDuplicateItem(item: DatastoreItem, datastore: DatastoreItem[]): boolean {
-    return datastore.some(existing => existing.cid === item.cid);
+  private static encodeSection(block: CARBlock): Uint8Array {
+    const length = block.cid.bytes.length + block.bytes.length;
+    return this.concat([varint.encodeTo(length, new Uint8Array(varint.encodingLength(length))), block.cid.bytes, block.bytes]);
   }
 
-  private static combineBlocks(blocks: Uint8Array[]): Uint8Array {
-    const totalLength = blocks.reduce((sum, block) => sum + block.length + 4, 0);
-    const result = new Uint8Array(totalLength);
-    
-    let offset = 0;
-    for (const block of blocks) {
-      const lengthBytes = new Uint8Array(4);
-      new DataView(lengthBytes.buffer).setUint32(0, block.length, false);
-      
-      result.set(lengthBytes, offset);
-      offset += 4;
-      result.set(block, offset);
-      offset += block.length;
-    }
-    
-    return result;
+  private static encodeV2Header(dataOffset: number, dataSize: number, indexOffset: number): Uint8Array {
+    const header = new Uint8Array(this.V2_HEADER_SIZE);
+    const view = new DataView(header.buffer);
+    view.setBigUint64(16, BigInt(dataOffset), true);
+    view.setBigUint64(24, BigInt(dataSize), true);
+    view.setBigUint64(32, BigInt(indexOffset), true);
+    return header;
   }
 
-  private static calculateChecksum(data: string): string {
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
+  // IndexSorted: digests grouped into buckets by width, each bucket sorted so readers can binary search
+  private static encodeIndex(entries: IndexEntry[]): Uint8Array {
+    const buckets = new Map<number, IndexEntry[]>();
+    for (const entry of entries) {
+      const width = entry.digest.length + 8;
+      buckets.set(width, [...(buckets.get(width) ?? []), entry]);
     }
-    return hash.toString(16);
-  }
 
-  private static async compressData(data: Uint8Array): Promise<Uint8Array> {
-    try {
-      const stream = new CompressionStream('gzip');
-      const writer = stream.writable.getWriter();
-      const reader = stream.readable.getReader();
-      
-      writer.write(data);
-      writer.close();
-      
-      const chunks: Uint8Array[] = [];
-      let done = false;
-      
-      while (!done) {
-        const { value, done: readerDone } = await reader.read();
-        done = readerDone;
-        if (value) chunks.push(value);
-      }
-      
-      const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-      const result = new Uint8Array(totalLength);
-      let offset = 0;
-      
-      for (const chunk of chunks) {
-        result.set(chunk, offset);
-        offset += chunk.length;
+    const parts: Uint8Array[] = [varint.encodeTo(this.INDEX_SORTED, new Uint8Array(varint.encodingLength(this.INDEX_SORTED)))];
+    const count = new Uint8Array(4);
+    new DataView(count.buffer).setUint32(0, buckets.size, true);
+    parts.push(count);
+
+    for (const width of Array.from(buckets.keys()).sort((a, b) => a - b)) {
+      const bucket = buckets.get(width)!.sort((a, b) => this.compareBytes(a.digest, b.digest));
+      const bucketHeader = new Uint8Array(12);
+      const view = new DataView(bucketHeader.buffer);
+      view.setUint32(0, width, true);
+      view.setBigUint64(4, BigInt(bucket.length * width), true);
+      parts.push(bucketHeader);
+
+      for (const entry of bucket) {
+        const record = new Uint8Array(width);
+        record.set(entry.digest, 0);
+        new DataView(record.buffer).setBigUint64(entry.digest.length, BigInt(entry.offset), true);
+        parts.push(record);
       }
-      
-      return result;
-    } catch (error) {
-      this.logger.warn('Compression not supported, returning uncompressed data');
-      return data;
     }
+
+    return this.concat(parts);
   }
 
-  private static async decompressData(data: Uint8Array): Promise<Uint8Array> {
-    try {
-      const stream = new DecompressionStream('gzip');
-      const writer = stream.writable.getWriter();
-      const reader = stream.readable.getReader();
-      
-      writer.write(data);
-      writer.close();
-      
-      const chunks: Uint8Array[] = [];
-      let done = false;
-      
-      while (!done) {
-        const { value, done: readerDone } = await reader.read();
-        done = readerDone;
-        if (value) chunks.push(value);
+  private static async *limitSize(chunks: AsyncIterable<Uint8Array>, maxSize: number): AsyncGenerator<Uint8Array> {
+    let total = 0;
+    for await (const chunk of chunks) {
+      total += chunk.length;
+      if (total > maxSize) {
+        throw new Error(`CAR export exceeds the maximum size of ${maxSize} bytes`);
       }
-      
-      const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-      const result = new Uint8Array(totalLength);
-      let offset = 0;
-      
-      for (const chunk of chunks) {
-        result.set(chunk, offset);
-        offset += chunk.length;
-      }
-      
-      return result;
-    } catch (error) {
-      this.logger.warn('Decompression failed, returning original data');
-      return data;
+      yield chunk;
     }
   }
 
-  private static isCompressed(data: Uint8Array): boolean {
-    return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+  private static async decompressIfNeeded(source: CARSource): Promise<AsyncIterable<Uint8Array>> {
+    const iterator = this.toAsyncIterable(source)[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    const rest: AsyncIterable<Uint8Array> = {
+      async *[Symbol.asyncIterator]() {
+        if (!first.done) yield first.value;
+        while (true) {
+          const { value, done } = await iterator.next();
+          if (done) return;
+          yield value;
+        }
+      }
+    };
+
+    if (first.done || !this.isCompressed(first.value)) {
+      return rest;
+    }
+    this.logger.info('Decompressing CAR data...');
+    const decompressed = StreamUtils.asyncIterableToStream(rest)
+      .pipeThrough(new DecompressionStream('gzip') as unknown as TransformStream<Uint8Array, Uint8Array>);
+    return StreamUtils.streamToAsyncIterable(decompressed);
   }
 
-  static async validateCARFile(carData: Uint8Array): Promise<{ valid: boolean; errors: string[] }> {
-    const errors: string[] = [];
+  private static toAsyncIterable(source: CARSource): AsyncIterable<Uint8Array> {
+    if (source instanceof Uint8Array) {
+      return StreamUtils.chunkedAsyncIterable(source);
+    }
+    if (source instanceof ReadableStream) {
+      return StreamUtils.streamToAsyncIterable(source);
+    }
+    return source;
+  }
 
-    try {
-      if (carData.length === 0) {
-        errors.push('CAR file is empty');
-        return { valid: false, errors };
-      }
+  private static async reconstructDatastoreItem(
+    cid: string,
+    existingDatastore: DatastoreItem[]
+  ): Promise<DatastoreItem> {
+    const existingItem = existingDatastore.find(item => item.cid === cid);
+    if (existingItem) {
+      return { ...existingItem };
+    }
 
-      let processedData = carData;
-      if (this.isCompressed(carData)) {
-        try {
-          processedData = await this.decompressData(carData);
-        } catch (error) {
-          errors.push('Failed to decompress CAR data');
-          return { valid: false, errors };
-        }
+    return {
+      cid,
+      name: `imported-${cid.slice(0, 8)}`,
+      size: await this.getRootSize(CID.parse(cid)),
+      type: 'application/octet-stream',
+      contentType: 'binary',
+      mimeType: 'application/octet-stream',
+      timestamp: Date.now(),
+      encrypted: false,
+      sharded: false,
+      pinned: [],
+      verified: false,
+      downloadCount: 0,
+      metadata: {
+        imported: true,
+        importDate: Date.now()
       }
+    };
+  }
 
-      const node = IPFSManager.getNode();
-      if (!node?.carService) {
-        errors.push('CAR service not available');
-        return { valid: false, errors };
+  // The root block already records the file size, so imported items don't have to be read back in full
+  private static async getRootSize(cid: CID): Promise<number> {
+    const bytes = await IPFSManager.getBlock(cid);
+    if (cid.code === this.CODEC_DAG_PB) {
+      const node = dagPB.decode(bytes);
+      if (node.Data) {
+        return Number(UnixFS.unmarshal(node.Data).fileSize());
       }
+    }
+    return bytes.length;
+  }
 
-      try {
-        const parsedCAR = await this.parseCARArchive(node.carService, processedData);
-        
-        if (!parsedCAR) {
-          errors.push('Failed to parse CAR structure');
-        }
-
-        const metadata = this.extractCARMetadata(parsedCAR);
-        if (metadata) {
-          if (!metadata.version) {
-            errors.push('Missing version in metadata');
-          }
-          if (!metadata.rootCIDs || metadata.rootCIDs.length === 0) {
-            errors.push('No root CIDs found in metadata');
-          }
-        }
-
-        const cids = this.extractCIDsFromCAR(parsedCAR);
-        if (cids.length === 0) {
-          errors.push('No CIDs found in CAR file');
-        }
+  private static isDuplicateItem(item: DatastoreItem, datastore: DatastoreItem[]): boolean {
+    return datastore.some(existing => existing.cid === item.cid);
+  }
 
-      } catch (error) {
-        errors.push(`CAR parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+  private static isCompressed(data: Uint8Array): boolean {
+    return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+  }
 
-    } catch (error) {
-      errors.push(`Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private static compareBytes(a: Uint8Array, b: Uint8Array): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
     }
-
-    return { valid: errors.length === 0, errors };
+    return a.length - b.length;
   }
 
-  static createDownloadLink(carData: Uint8Array, filename: string = 'export.car'): void {
-    const blob = new Blob([carData], { type: 'application/octet-stream' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
   }
 }
\ No newline at end of file
@@ -1,8 +1,11 @@
 import { CID } from 'multiformats/cid';
-import { sha256, sha512 } from 'multiformats/hashes/sha2';
-import { blake2b256 } from '@multiformats/blake2/blake2b';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { MultihashDigest, MultihashHasher } from 'multiformats/hashes/interface';
 import * as dagPB from '@ipld/dag-pb';
 import * as raw from 'multiformats/codecs/raw';
+import { ChunkerOptions, ContentChunker } from './content-chunker';
+import { HasherRegistry } from './hasher-registry';
+import { DagLayouts, LayoutOptions } from './dag-layout';
 
 export interface CIDOptions {
   version?: 0 | 1;
@@ -11,14 +14,8 @@ export interface CIDOptions {
     code?: number;
   };
   rawLeaves?: boolean;
-  chunker?: {
-    name: string;
-    chunkSize?: number;
-  };
-  layout?: {
-    name: string;
-    maxChildrenPerNode?: number;
-  };
+  chunker?: ChunkerOptions;
+  layout?: LayoutOptions;
 }
 
 export interface HasherConfig {
@@ -28,13 +25,6 @@ export interface HasherConfig {
 }
 
 export class CIDOptionsManager {
-  private static readonly SUPPORTED_HASHERS: Record<string, HasherConfig> = {
-    'sha2-256': { name: 'sha2-256', code: 0x12, hasher: sha256 },
-    'sha2-512': { name: 'sha2-512', code: 0x13, hasher: sha512 },
-    'blake2b-256': { name: 'blake2b-256', code: 0xb220, hasher: blake2b256 }
-    
-  };
-
   private static readonly DEFAULT_OPTIONS: Required<CIDOptions> = {
     version: 0,
     hasher: { name: 'sha2-256', code: 0x12 },
@@ -50,7 +40,7 @@ export class CIDOptionsManager {
     };
 
     if (options.hasher?.name && !options.hasher.code) {
-      const hasherConfig = this.SUPPORTED_HASHERS[options.hasher.name];
+      const hasherConfig = HasherRegistry.has(options.hasher.name) ? HasherRegistry.get(options.hasher.name) : undefined;
       if (hasherConfig) {
         merged.hasher = {
           name: hasherConfig.name,
@@ -68,7 +58,7 @@ export class CIDOptionsManager {
       throw new Error('CID version must be 0 or 1');
     }
 
-    if (options.hasher?.name && !this.SUPPORTED_HASHERS[options.hasher.name]) {
+    if (options.hasher?.name && !HasherRegistry.has(options.hasher.name)) {
       throw new Error(`Unsupported hasher: ${options.hasher.name}`);
     }
 
@@ -81,19 +71,25 @@ export class CIDOptionsManager {
       }
     }
 
-    if (options.layout?.maxChildrenPerNode !== undefined) {
-      if (typeof options.layout.maxChildrenPerNode !== 'number' || options.layout.maxChildrenPerNode <= 0) {
-        throw new Error('Max children per node must be a positive number');
-      }
+    if (options.chunker?.name) {
+      ContentChunker.validate(options.chunker);
+    }
+
+    if (options.layout) {
+      DagLayouts.validate(options.layout);
     }
   }
 
   static getHasherConfig(name: string): HasherConfig {
-    const config = this.SUPPORTED_HASHERS[name];
-    if (!config) {
-      throw new Error(`Unsupported hasher: ${name}`);
-    }
-    return config;
+    return HasherRegistry.get(name);
+  }
+
+  static registerHasher(hasher: MultihashHasher, options: { replace?: boolean } = {}): HasherConfig {
+    return HasherRegistry.register(hasher, options);
+  }
+
+  static getSupportedHashers(): string[] {
+    return HasherRegistry.list().filter(name => name !== 'identity');
   }
 
   static convertCIDVersion(cid: CID, targetVersion: 0 | 1): CID {
@@ -148,14 +144,10 @@ export class CIDOptionsManager {
       [dagPB.code]: 'dag-pb'
     };
 
-    const hasherNames: Record<number, string> = Object.fromEntries(
-      Object.values(this.SUPPORTED_HASHERS).map(h => [h.code, h.name])
-    );
-
     return {
       version: cid.version,
       codec: codecNames[cid.code] || 'unknown',
-      hasher: hasherNames[cid.multihash.code] || 'unknown',
+      hasher: HasherRegistry.getName(cid.multihash.code) || 'unknown',
       size: cid.multihash.size
     };
   }
@@ -195,6 +187,26 @@ export class CIDOptionsManager {
         rawLeaves: true,
         chunker: { name: 'fixed', chunkSize: 4_194_304 },
         layout: { name: 'balanced', maxChildrenPerNode: 512 }
+      },
+      dedup: {
+        version: 1,
+        hasher: { name: 'sha2-256' },
+        rawLeaves: true,
+        chunker: { name: 'fastcdc', minChunkSize: 65_536, avgChunkSize: 262_144, maxChunkSize: 1_048_576 }
+      },
+      streaming: {
+        version: 1,
+        hasher: { name: 'sha2-256' },
+        rawLeaves: true,
+        chunker: { name: 'fixed', chunkSize: 1_048_576 },
+        layout: { name: 'trickle', maxChildrenPerNode: 174, layerRepeat: 4 }
+      },
+      tinyFiles: {
+        version: 1,
+        hasher: { name: 'sha2-256' },
+        rawLeaves: true,
+        chunker: { name: 'fixed', chunkSize: 262_144 },
+        layout: { name: 'flat' }
       }
     };
   }
@@ -210,19 +222,34 @@ export class CIDOptionsManager {
 
     if (size < 1024 * 1024) {
       optimized.chunker = { name: 'fixed', chunkSize: 262_144 };
+      optimized.layout = { name: 'flat' };
     } else if (size > 100 * 1024 * 1024) {
       optimized.chunker = { name: 'fixed', chunkSize: 4_194_304 };
       optimized.layout = { name: 'balanced', maxChildrenPerNode: 512 };
     }
 
+    if (this.isEditableDocument(type)) {
+      const avgChunkSize = size > 100 * 1024 * 1024 ? 1_048_576 : 262_144;
+      optimized.chunker = { name: 'fastcdc', avgChunkSize, minChunkSize: avgChunkSize / 4, maxChunkSize: avgChunkSize * 4 };
+    }
+
     if (type.startsWith('image/') || type.startsWith('video/') || type.startsWith('audio/')) {
       optimized.hasher = { name: 'blake2s-256' };
     }
 
+    if ((type.startsWith('video/') || type.startsWith('audio/')) && size >= 1024 * 1024) {
+      optimized.layout = { name: 'trickle', maxChildrenPerNode: 174, layerRepeat: 4 };
+    }
+
     if (type === 'application/octet-stream' || type.startsWith('application/')) {
       optimized.rawLeaves = true;
     }
 
     return optimized;
   }
+
+  private static isEditableDocument(type: string): boolean {
+    return type.startsWith('text/') ||
+      /^application\/(json|xml|pdf|x-ndjson|vnd\.openxmlformats-officedocument\..+|vnd\.oasis\.opendocument\..+|x-parquet)$/.test(type);
+  }
 }
\ No newline at end of file
@@ -1,5 +1,8 @@
-import { PersistentConfig, ShardingConfig, EncryptionConfig, NodeConfig, AppSettings } from './interfaces';
+import type { DatastoreItem as UploadRecord } from './file-operations';
+import { DatastoreItem, PersistentConfig, PinningService, ShardingConfig, EncryptionConfig, NodeConfig, AppSettings, VdicReplication } from './interfaces';
 import { PinningManager } from './pinning-manager';
+import { ReplicationEngine, ReplicationPolicy } from './replication-engine';
+import { TrustlessRetrieval } from './trustless-retrieval';
 
 export class ConfigManager {
   private static readonly CONFIG_KEY = 'ipfs-client-config-v2';
@@ -31,12 +34,20 @@ export class ConfigManager {
         ],
         enableDiscovery: true,
         maxConnections: 50,
+        storage: {
+          type: 'indexeddb',
+          name: 'ipfs-client',
+          quotaThreshold: 0.8,
+          gcOnStart: false,
+        },
+        gateways: [...TrustlessRetrieval.DEFAULT_GATEWAYS],
       },
       appSettings: {
         autoSave: true,
         exportFormat: 'car',
         theme: 'dark',
       },
+      replication: ReplicationEngine.toVdicReplication(ReplicationEngine.DEFAULT_POLICY),
     };
   }
 
@@ -126,7 +137,7 @@ export class ConfigManager {
       initialized: config.initialized || false,
       datastore: Array.isArray(config.datastore) ? config.datastore : [],
       pinningServices: Array.isArray(config.pinningServices) 
-        ? config.pinningServices 
+        ? this.migrateServices(config.pinningServices, defaultConfig.pinningServices)
         : defaultConfig.pinningServices,
       shardingConfig: {
         ...defaultConfig.shardingConfig,
@@ -144,18 +155,66 @@ export class ConfigManager {
         ...defaultConfig.appSettings,
         ...(config.appSettings || {}),
       },
+      replication: this.migrateReplication(config, defaultConfig.replication!),
+      cidOptions: config.cidOptions,
     };
 
+    // Older builds saved the holder secret with the encryption settings; it is dropped on load
+    delete (migrated.encryptionConfig as EncryptionConfig & { holderSecret?: string }).holderSecret;
+
+    // Upload records saved without the full item shape are filled in so pinning and auditing can read them
     migrated.datastore = migrated.datastore.map(item => ({
       ...item,
       contentType: item.contentType || this.inferContentType(item.type),
       mimeType: item.mimeType || item.type || 'application/octet-stream',
+      timestamp: item.timestamp ?? (Date.parse((item as Partial<UploadRecord>).uploadedAt ?? '') || Date.now()),
+      encrypted: item.encrypted ?? !!(item.encryptionKey || item.wrappedKey),
+      sharded: item.sharded ?? !!item.shardCount,
+      pinned: item.pinned ?? [],
+      verified: item.verified ?? false,
+      downloadCount: item.downloadCount ?? 0,
       metadata: item.metadata || {},
     }));
 
     return migrated;
   }
 
+  // Upload results use the file-operations record shape; the datastore keeps the full UI item
+  static toDatastoreItem(record: UploadRecord): DatastoreItem {
+    const mimeType = record.type || 'application/octet-stream';
+    return {
+      ...record,
+      contentType: this.inferContentType(mimeType),
+      mimeType,
+      timestamp: Date.parse(record.uploadedAt) || Date.now(),
+      encrypted: !!(record.encryptionKey || record.wrappedKey),
+      sharded: !!record.shardCount,
+      pinned: [],
+      verified: false,
+      metadata: {},
+    };
+  }
+
+  // Built-in services saved before regions existed pick up their default region
+  private static migrateServices(services: PinningService[], defaults: PinningService[]): PinningService[] {
+    return services.map(service => ({
+      ...service,
+      region: service.region ?? defaults.find(d => d.id === service.id)?.region,
+    }));
+  }
+
+  // Older builds saved the policy in engine form as replicationPolicy; invalid settings fall back to the default
+  private static migrateReplication(config: any, fallback: VdicReplication): VdicReplication {
+    const replication: VdicReplication = config.replication
+      ?? (config.replicationPolicy ? ReplicationEngine.toVdicReplication(config.replicationPolicy) : fallback);
+    try {
+      ReplicationEngine.fromVdicReplication(replication);
+      return replication;
+    } catch {
+      return fallback;
+    }
+  }
+
   private static inferContentType(mimeType: string): 'text' | 'image' | 'video' | 'audio' | 'binary' {
     if (mimeType.startsWith('text/') || mimeType === 'application/json') {
       return 'text';
@@ -225,6 +284,20 @@ export class ConfigManager {
     };
   }
 
+  static updateReplication(config: PersistentConfig, updates: Partial<VdicReplication>): { success: boolean; config?: PersistentConfig; error?: string } {
+    const replication = { ...config.replication, ...updates };
+    try {
+      ReplicationEngine.fromVdicReplication(replication);
+      return { success: true, config: { ...config, replication } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Invalid replication policy' };
+    }
+  }
+
+  static getReplicationPolicy(config: PersistentConfig): ReplicationPolicy {
+    return ReplicationEngine.fromVdicReplication(config.replication);
+  }
+
   static cleanupOldConfigs(): void {
     try {
       const oldKeys = [
@@ -0,0 +1,213 @@
+import { Chunker, fixedSize, rabin } from 'ipfs-unixfs-importer/chunker';
+
+export type ChunkerName = 'fixed' | 'rabin' | 'fastcdc';
+
+export interface ChunkerOptions {
+  name: ChunkerName | string;
+  chunkSize?: number;
+  minChunkSize?: number;
+  avgChunkSize?: number;
+  maxChunkSize?: number;
+}
+
+export interface ChunkSizes {
+  min: number;
+  avg: number;
+  max: number;
+}
+
+export interface DedupStats {
+  blocks: number;
+  existingBlocks: number;
+}
+
+export interface CountingBlockstore {
+  blockstore: {
+    get(cid: any, options?: any): Promise<Uint8Array>;
+    has(cid: any, options?: any): Promise<boolean>;
+    put(cid: any, bytes: Uint8Array, options?: any): Promise<any>;
+  };
+  stats: DedupStats;
+}
+
+export class ContentChunker {
+  static readonly DEFAULT_AVG_CHUNK_SIZE = 262_144;
+  static readonly MIN_CHUNK_SIZE = 64;
+  static readonly MAX_CHUNK_SIZE = 10 * 1024 * 1024;
+  private static gearTable: Uint32Array | null = null;
+
+  static isContentDefined(name: string | undefined): boolean {
+    return name === 'rabin' || name === 'fastcdc';
+  }
+
+  static resolveSizes(options: ChunkerOptions): ChunkSizes {
+    const avg = options.avgChunkSize ?? options.chunkSize ?? this.DEFAULT_AVG_CHUNK_SIZE;
+    const min = options.minChunkSize ?? Math.max(this.MIN_CHUNK_SIZE, Math.floor(avg / 4));
+    const max = options.maxChunkSize ?? Math.min(this.MAX_CHUNK_SIZE, avg * 4);
+    return { min, avg, max };
+  }
+
+  static validate(options: ChunkerOptions): void {
+    if (!['fixed', 'rabin', 'fastcdc'].includes(options.name)) {
+      throw new Error(`Unsupported chunker: ${options.name}`);
+    }
+    if (!this.isContentDefined(options.name)) {
+      return;
+    }
+
+    const { min, avg, max } = this.resolveSizes(options);
+    if ([min, avg, max].some(size => !Number.isInteger(size) || size <= 0)) {
+      throw new Error('Chunk sizes must be positive integers');
+    }
+    if (min < this.MIN_CHUNK_SIZE) {
+      throw new Error(`Minimum chunk size must be at least ${this.MIN_CHUNK_SIZE} bytes`);
+    }
+    if (!(min <= avg && avg <= max)) {
+      throw new Error('Chunk sizes must satisfy min <= avg <= max');
+    }
+    if (max > this.MAX_CHUNK_SIZE) {
+      throw new Error('Chunk size too large (max 10MB)');
+    }
+  }
+
+  static createChunker(options: ChunkerOptions): Chunker {
+    this.validate(options);
+
+    if (options.name === 'rabin') {
+      const { min, avg, max } = this.resolveSizes(options);
+      return rabin({ minChunkSize: min, avgChunkSize: avg, maxChunkSize: max });
+    }
+    if (options.name === 'fastcdc') {
+      return this.fastcdc(this.resolveSizes(options));
+    }
+    return fixedSize({ chunkSize: options.chunkSize ?? this.DEFAULT_AVG_CHUNK_SIZE });
+  }
+
+  static fastcdc(sizes: ChunkSizes): Chunker {
+    const self = this;
+
+    return async function* fastcdcChunker(source: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+      let buffer: Uint8Array = new Uint8Array(0);
+
+      for await (const chunk of source) {
+        buffer = self.append(buffer, chunk);
+        while (buffer.length >= sizes.max) {
+          const cut = self.findCutPoint(buffer, sizes);
+          yield buffer.slice(0, cut);
+          buffer = buffer.subarray(cut);
+        }
+      }
+
+      while (buffer.length > 0) {
+        const cut = self.findCutPoint(buffer, sizes);
+        yield buffer.slice(0, cut);
+        buffer = buffer.subarray(cut);
+      }
+    };
+  }
+
+  static split(data: Uint8Array, options: ChunkerOptions): Uint8Array[] {
+    if (options.name !== 'fastcdc') {
+      throw new Error(`Synchronous splitting only supports fastcdc, got ${options.name}`);
+    }
+    this.validate(options);
+
+    const sizes = this.resolveSizes(options);
+    const chunks: Uint8Array[] = [];
+    let offset = 0;
+
+    while (offset < data.length) {
+      const cut = this.findCutPoint(data.subarray(offset), sizes);
+      chunks.push(data.slice(offset, offset + cut));
+      offset += cut;
+    }
+
+    return chunks;
+  }
+
+  static async chunk(data: Uint8Array, options: ChunkerOptions): Promise<Uint8Array[]> {
+    const chunker = this.createChunker(options);
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of chunker((async function* () { yield data; })())) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  static countingBlockstore(blockstore: CountingBlockstore['blockstore']): CountingBlockstore {
+    const stats: DedupStats = { blocks: 0, existingBlocks: 0 };
+
+    return {
+      stats,
+      blockstore: {
+        get: (cid, options) => blockstore.get(cid, options),
+        has: (cid, options) => blockstore.has(cid, options),
+        put: async (cid, bytes, options) => {
+          stats.blocks++;
+          if (await blockstore.has(cid)) {
+            stats.existingBlocks++;
+          }
+          return await blockstore.put(cid, bytes, options);
+        }
+      }
+    };
+  }
+
+  // FastCDC with normalized chunking: a stricter mask before the average size and a looser one after
+  private static findCutPoint(data: Uint8Array, sizes: ChunkSizes): number {
+    const length = Math.min(data.length, sizes.max);
+    if (length <= sizes.min) {
+      return length;
+    }
+
+    const gear = this.getGearTable();
+    const bits = Math.round(Math.log2(sizes.avg));
+    const strictMask = this.createMask(bits + 2);
+    const looseMask = this.createMask(Math.max(1, bits - 2));
+    const normal = Math.min(sizes.avg, length);
+
+    let hash = 0;
+    let i = sizes.min;
+
+    for (; i < normal; i++) {
+      hash = ((hash << 1) + gear[data[i]]) >>> 0;
+      if ((hash & strictMask) === 0) return i + 1;
+    }
+    for (; i < length; i++) {
+      hash = ((hash << 1) + gear[data[i]]) >>> 0;
+      if ((hash & looseMask) === 0) return i + 1;
+    }
+
+    return length;
+  }
+
+  private static createMask(bits: number): number {
+    const clamped = Math.min(31, bits);
+    return (((1 << clamped) - 1) << (32 - clamped)) >>> 0;
+  }
+
+  // The table is derived from a fixed seed so every client cuts identical boundaries
+  private static getGearTable(): Uint32Array {
+    if (!this.gearTable) {
+      const table = new Uint32Array(256);
+      let state = 0x9e3779b9;
+      for (let i = 0; i < table.length; i++) {
+        state = (state + 0x9e3779b9) >>> 0;
+        let z = state;
+        z = Math.imul(z ^ (z >>> 16), 0x85ebca6b) >>> 0;
+        z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35) >>> 0;
+        table[i] = (z ^ (z >>> 16)) >>> 0;
+      }
+      this.gearTable = table;
+    }
+    return this.gearTable;
+  }
+
+  private static append(buffer: Uint8Array, chunk: Uint8Array): Uint8Array {
+    if (buffer.length === 0) return chunk;
+    const combined = new Uint8Array(buffer.length + chunk.length);
+    combined.set(buffer, 0);
+    combined.set(chunk, buffer.length);
+    return combined;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,479 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { base58btc } from 'multiformats/bases/base58';
+import { VdicActor, VdicActorRole } from './interfaces';
+
+export interface DIDKeyPair {
+  did: string;
+  keyId: string;
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+}
+
+export interface VerificationMethod {
+  id: string;
+  type: 'Ed25519VerificationKey2020';
+  controller: string;
+  publicKeyMultibase: string;
+}
+
+export interface DIDDocument {
+  id: string;
+  verificationMethod: VerificationMethod[];
+}
+
+export interface DIDResolver {
+  resolve(did: string): Promise<DIDDocument | null>;
+}
+
+export interface RevocationRegistry {
+  isRevoked(credentialId: string, issuer: string): Promise<boolean>;
+}
+
+export interface CredentialSubject {
+  id: string;
+  [claim: string]: unknown;
+}
+
+export interface VerifiableCredentialPayload {
+  iss: string;
+  sub: string;
+  jti: string;
+  iat: number;
+  nbf: number;
+  exp?: number;
+  vc: {
+    '@context': string[];
+    type: string[];
+    credentialSubject: CredentialSubject;
+    credentialStatus?: { id: string; type: string };
+  };
+}
+
+export interface VerifiablePresentationPayload {
+  iss: string;
+  jti: string;
+  iat: number;
+  nbf: number;
+  exp?: number;
+  aud?: string;
+  nonce?: string;
+  vp: {
+    '@context': string[];
+    type: string[];
+    verifiableCredential: string[];
+  };
+}
+
+export interface IssueCredentialOptions {
+  types?: string[];
+  expiresIn?: number;
+  id?: string;
+  credentialStatus?: { id: string; type: string };
+}
+
+export interface PresentationOptions {
+  audience?: string;
+  nonce?: string;
+  expiresIn?: number;
+}
+
+export interface CredentialVerificationOptions {
+  resolver: DIDResolver;
+  revocationRegistry?: RevocationRegistry;
+  trustedIssuers?: string[];
+  requiredTypes?: string[];
+  clockTolerance?: number;
+  now?: number;
+}
+
+export interface PresentationVerificationOptions extends CredentialVerificationOptions {
+  audience?: string;
+  nonce?: string;
+}
+
+export interface CredentialVerificationResult {
+  verified: boolean;
+  payload?: VerifiableCredentialPayload;
+  error?: string;
+}
+
+export interface PresentationVerificationResult {
+  verified: boolean;
+  holder?: string;
+  credentials?: VerifiableCredentialPayload[];
+  error?: string;
+}
+
+interface DecodedJWT<T> {
+  header: { alg: string; typ?: string; kid?: string };
+  payload: T;
+  signingInput: Uint8Array;
+  signature: Uint8Array;
+}
+
+export class KeyDIDResolver implements DIDResolver {
+  private static readonly ED25519_MULTICODEC = [0xed, 0x01];
+  private documents = new Map<string, DIDDocument>();
+
+  register(document: DIDDocument): void {
+    this.documents.set(document.id, document);
+  }
+
+  unregister(did: string): void {
+    this.documents.delete(did);
+  }
+
+  async resolve(did: string): Promise<DIDDocument | null> {
+    const registered = this.documents.get(did);
+    if (registered) return registered;
+
+    if (!did.startsWith('did:key:z')) return null;
+
+    try {
+      const multibase = did.slice('did:key:'.length);
+      KeyDIDResolver.decodePublicKey(multibase);
+      return {
+        id: did,
+        verificationMethod: [{
+          id: `${did}#${multibase}`,
+          type: 'Ed25519VerificationKey2020',
+          controller: did,
+          publicKeyMultibase: multibase
+        }]
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  static encodePublicKey(publicKey: Uint8Array): string {
+    const bytes = new Uint8Array(this.ED25519_MULTICODEC.length + publicKey.length);
+    bytes.set(this.ED25519_MULTICODEC, 0);
+    bytes.set(publicKey, this.ED25519_MULTICODEC.length);
+    return base58btc.encode(bytes);
+  }
+
+  static decodePublicKey(multibase: string): Uint8Array {
+    const bytes = base58btc.decode(multibase);
+    if (bytes[0] !== this.ED25519_MULTICODEC[0] || bytes[1] !== this.ED25519_MULTICODEC[1]) {
+      throw new Error('Only Ed25519 did:key identifiers are supported');
+    }
+    const publicKey = bytes.slice(this.ED25519_MULTICODEC.length);
+    if (publicKey.length !== 32) {
+      throw new Error('Invalid Ed25519 public key length');
+    }
+    return publicKey;
+  }
+}
+
+export class InMemoryRevocationRegistry implements RevocationRegistry {
+  private revoked = new Set<string>();
+
+  revoke(credentialId: string): void {
+    this.revoked.add(credentialId);
+  }
+
+  restore(credentialId: string): void {
+    this.revoked.delete(credentialId);
+  }
+
+  async isRevoked(credentialId: string): Promise<boolean> {
+    return this.revoked.has(credentialId);
+  }
+}
+
+export class VerifiableCredentials {
+  private static readonly CREDENTIALS_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+  private static readonly DEFAULT_CLOCK_TOLERANCE = 60;
+
+  static generateKeyPair(privateKey: Uint8Array = ed25519.utils.randomPrivateKey()): DIDKeyPair {
+    const publicKey = ed25519.getPublicKey(privateKey);
+    const multibase = KeyDIDResolver.encodePublicKey(publicKey);
+    const did = `did:key:${multibase}`;
+    return { did, keyId: `${did}#${multibase}`, publicKey, privateKey };
+  }
+
+  static issueCredential(
+    issuer: DIDKeyPair,
+    subject: CredentialSubject,
+    options: IssueCredentialOptions = {}
+  ): string {
+    const now = this.currentTime();
+    const payload: VerifiableCredentialPayload = {
+      iss: issuer.did,
+      sub: subject.id,
+      jti: options.id || `urn:uuid:${crypto.randomUUID()}`,
+      iat: now,
+      nbf: now,
+      exp: options.expiresIn ? now + options.expiresIn : undefined,
+      vc: {
+        '@context': [this.CREDENTIALS_CONTEXT],
+        type: ['VerifiableCredential', ...(options.types || [])],
+        credentialSubject: subject,
+        credentialStatus: options.credentialStatus
+      }
+    };
+    return this.signJWT(payload, issuer);
+  }
+
+  static createPresentation(
+    holder: DIDKeyPair,
+    credentials: string[],
+    options: PresentationOptions = {}
+  ): string {
+    const now = this.currentTime();
+    const payload: VerifiablePresentationPayload = {
+      iss: holder.did,
+      jti: `urn:uuid:${crypto.randomUUID()}`,
+      iat: now,
+      nbf: now,
+      exp: now + (options.expiresIn ?? 300),
+      aud: options.audience,
+      nonce: options.nonce,
+      vp: {
+        '@context': [this.CREDENTIALS_CONTEXT],
+        type: ['VerifiablePresentation'],
+        verifiableCredential: credentials
+      }
+    };
+    return this.signJWT(payload, holder);
+  }
+
+  static async verifyCredential(
+    jwt: string,
+    options: CredentialVerificationOptions
+  ): Promise<CredentialVerificationResult> {
+    try {
+      const decoded = this.decodeJWT<VerifiableCredentialPayload>(jwt);
+      const { payload } = decoded;
+
+      if (!payload.vc || !Array.isArray(payload.vc.type) || !payload.vc.type.includes('VerifiableCredential')) {
+        return { verified: false, error: 'Token is not a verifiable credential' };
+      }
+      if (options.trustedIssuers && !options.trustedIssuers.includes(payload.iss)) {
+        return { verified: false, error: `Issuer ${payload.iss} is not trusted` };
+      }
+
+      const signatureError = await this.verifySignature(decoded, payload.iss, options.resolver);
+      if (signatureError) {
+        return { verified: false, error: signatureError };
+      }
+
+      const timeError = this.checkValidity(payload, options);
+      if (timeError) {
+        return { verified: false, error: timeError };
+      }
+
+      const missingType = options.requiredTypes?.find(type => !payload.vc.type.includes(type));
+      if (missingType) {
+        return { verified: false, error: `Credential is missing required type ${missingType}` };
+      }
+
+      if (payload.sub && payload.vc.credentialSubject?.id && payload.sub !== payload.vc.credentialSubject.id) {
+        return { verified: false, error: 'Credential subject does not match token subject' };
+      }
+
+      if (options.revocationRegistry) {
+        const credentialId = payload.vc.credentialStatus?.id || payload.jti;
+        if (await options.revocationRegistry.isRevoked(credentialId, payload.iss)) {
+          return { verified: false, error: `Credential ${credentialId} has been revoked` };
+        }
+      }
+
+      return { verified: true, payload };
+    } catch (error) {
+      return { verified: false, error: error instanceof Error ? error.message : 'Invalid credential' };
+    }
+  }
+
+  static async verifyPresentation(
+    jwt: string,
+    options: PresentationVerificationOptions
+  ): Promise<PresentationVerificationResult> {
+    try {
+      const decoded = this.decodeJWT<VerifiablePresentationPayload>(jwt);
+      const { payload } = decoded;
+
+      if (!payload.vp || !Array.isArray(payload.vp.verifiableCredential)) {
+        return { verified: false, error: 'Token is not a verifiable presentation' };
+      }
+
+      const signatureError = await this.verifySignature(decoded, payload.iss, options.resolver);
+      if (signatureError) {
+        return { verified: false, error: signatureError };
+      }
+
+      const timeError = this.checkValidity(payload, options);
+      if (timeError) {
+        return { verified: false, error: timeError };
+      }
+      if (options.audience && payload.aud !== options.audience) {
+        return { verified: false, error: 'Presentation audience does not match' };
+      }
+      if (options.nonce && payload.nonce !== options.nonce) {
+        return { verified: false, error: 'Presentation nonce does not match' };
+      }
+      if (payload.vp.verifiableCredential.length === 0) {
+        return { verified: false, error: 'Presentation contains no credentials' };
+      }
+
+      const credentials: VerifiableCredentialPayload[] = [];
+      for (const credential of payload.vp.verifiableCredential) {
+        const result = await this.verifyCredential(credential, options);
+        if (!result.verified || !result.payload) {
+          return { verified: false, error: result.error };
+        }
+        if (result.payload.sub !== payload.iss) {
+          return { verified: false, error: 'Credential subject is not the presentation holder' };
+        }
+        credentials.push(result.payload);
+      }
+
+      return { verified: true, holder: payload.iss, credentials };
+    } catch (error) {
+      return { verified: false, error: error instanceof Error ? error.message : 'Invalid presentation' };
+    }
+  }
+
+  // Claims grant permissions, so only credentials from explicitly trusted issuers may authenticate an actor
+  static requireTrustedIssuers(options: CredentialVerificationOptions): void {
+    if (!options.trustedIssuers || options.trustedIssuers.length === 0) {
+      throw new Error('Credential gating requires at least one trusted issuer');
+    }
+  }
+
+  static createActorAuthenticator(
+    options: PresentationVerificationOptions
+  ): (credential: string) => Promise<VdicActor | null> {
+    this.requireTrustedIssuers(options);
+
+    return async (credential) => {
+      const result = await this.verifyPresentation(credential, options);
+      if (!result.verified || !result.holder || !result.credentials) {
+        return null;
+      }
+
+      const claims: Record<string, unknown> = Object.assign({}, ...result.credentials.map(vc => vc.vc.credentialSubject));
+      const permissions = new Set<string>(result.credentials.flatMap(vc => this.stringList(vc.vc.credentialSubject.permissions)));
+      const regions = this.stringList(claims.regions);
+
+      const actor: VdicActor = {
+        id: typeof claims.actorId === 'string' ? claims.actorId : result.holder,
+        did: result.holder,
+        name: typeof claims.name === 'string' ? claims.name : result.holder,
+        role: (typeof claims.role === 'string' ? claims.role : 'dapp') as VdicActorRole,
+        permissions: Array.from(permissions)
+      };
+      if (regions.length > 0) actor.regions = regions;
+      // The wallet used for token gating is whatever a trusted issuer attested, never what the request claims
+      if (typeof claims.wallet === 'string') actor.wallet = claims.wallet;
+      return actor;
+    };
+  }
+
+  static expiresAt(jwt: string): number | undefined {
+    const { exp } = this.decodeJWT<{ exp?: number }>(jwt).payload;
+    return typeof exp === 'number' ? exp * 1000 : undefined;
+  }
+
+  private static stringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  }
+
+  private static async verifySignature<T>(
+    decoded: DecodedJWT<T>,
+    issuer: string,
+    resolver: DIDResolver
+  ): Promise<string | null> {
+    if (decoded.header.alg !== 'EdDSA') {
+      return `Unsupported JWT algorithm: ${decoded.header.alg}`;
+    }
+
+    const document = await resolver.resolve(issuer);
+    if (!document) {
+      return `Unable to resolve DID ${issuer}`;
+    }
+
+    const methods = decoded.header.kid
+      ? document.verificationMethod.filter(method => method.id === decoded.header.kid)
+      : document.verificationMethod;
+    if (methods.length === 0) {
+      return `No verification method ${decoded.header.kid} for ${issuer}`;
+    }
+
+    const valid = methods.some(method => {
+      try {
+        const publicKey = KeyDIDResolver.decodePublicKey(method.publicKeyMultibase);
+        return ed25519.verify(decoded.signature, decoded.signingInput, publicKey);
+      } catch {
+        return false;
+      }
+    });
+
+    return valid ? null : 'Signature verification failed';
+  }
+
+  private static checkValidity(
+    payload: { nbf?: number; exp?: number },
+    options: CredentialVerificationOptions
+  ): string | null {
+    const now = options.now ?? this.currentTime();
+    const tolerance = options.clockTolerance ?? this.DEFAULT_CLOCK_TOLERANCE;
+
+    if (payload.nbf !== undefined && payload.nbf > now + tolerance) {
+      return 'Token is not yet valid';
+    }
+    if (payload.exp !== undefined && payload.exp < now - tolerance) {
+      return 'Token has expired';
+    }
+    return null;
+  }
+
+  private static signJWT(payload: object, signer: DIDKeyPair): string {
+    const header = { alg: 'EdDSA', typ: 'JWT', kid: signer.keyId };
+    const signingInput = `${this.encodeSegment(header)}.${this.encodeSegment(payload)}`;
+    const signature = ed25519.sign(new TextEncoder().encode(signingInput), signer.privateKey);
+    return `${signingInput}.${this.base64UrlEncode(signature)}`;
+  }
+
+  private static decodeJWT<T>(jwt: string): DecodedJWT<T> {
+    const parts = jwt.split('.');
+    if (parts.length !== 3) {
+      throw new Error('Malformed JWT');
+    }
+
+    const decoder = new TextDecoder();
+    return {
+      header: JSON.parse(decoder.decode(this.base64UrlDecode(parts[0]))),
+      payload: JSON.parse(decoder.decode(this.base64UrlDecode(parts[1]))) as T,
+      signingInput: new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+      signature: this.base64UrlDecode(parts[2])
+    };
+  }
+
+  private static encodeSegment(value: object): string {
+    return this.base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+  }
+
+  private static base64UrlEncode(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private static base64UrlDecode(value: string): Uint8Array {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private static currentTime(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+}
\ No newline at end of file
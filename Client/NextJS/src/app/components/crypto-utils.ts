@@ -31,9 +31,9 @@ export class CryptoUtils {
   static async encryptData(
     data: Uint8Array, 
     key: CryptoKey, 
-    algorithm: 'AES-GCM' | 'AES-CTR'
+    algorithm: 'AES-GCM' | 'AES-CTR',
+    iv: Uint8Array = crypto.getRandomValues(new Uint8Array(algorithm === 'AES-GCM' ? 12 : 16))
   ): Promise<EncryptionResult> {
-    const iv = crypto.getRandomValues(new Uint8Array(algorithm === 'AES-GCM' ? 12 : 16));
     
     const cryptoParams = algorithm === 'AES-GCM' 
       ? { name: algorithm, iv }
@@ -47,19 +47,27 @@ export class CryptoUtils {
     };
   }
 
-static async encrypt(data: Uint8Array, config: any): Promise<{ data: Uint8Array; key: string }> {
+// Passing the key and IV of an earlier call reproduces its ciphertext; only do so for identical plaintext
+static async encrypt(
+  data: Uint8Array,
+  config: any,
+  reuse?: { key: string; iv: Uint8Array }
+): Promise<{ data: Uint8Array; key: string; iv: Uint8Array }> {
   const algorithm = config.algorithm || 'AES-GCM';
   const keyLength = config.keyLength || 256;
   
-  const key = await this.generateEncryptionKey(algorithm, keyLength);
-  const result = await this.encryptData(data, key, algorithm);
+  const key = reuse
+    ? await this.importKey(reuse.key, algorithm)
+    : await this.generateEncryptionKey(algorithm, keyLength);
+  const result = await this.encryptData(data, key, algorithm, reuse?.iv);
   
   const combinedData = this.combineEncryptedData(result.iv, result.encrypted);
-  const exportedKey = await this.exportKey(key);
+  const exportedKey = reuse?.key ?? await this.exportKey(key);
   
   return {
     data: combinedData,
-    key: exportedKey
+    key: exportedKey,
+    iv: result.iv
   };
 }
 
@@ -100,7 +108,7 @@ static async decrypt(encryptedData: Uint8Array, keyString: string, config: any):
     return { iv, encrypted };
   }
 
-  private static uint8ArrayToBase64(uint8Array: Uint8Array): string {
+  static uint8ArrayToBase64(uint8Array: Uint8Array): string {
     let binary = '';
     for (let i = 0; i < uint8Array.byteLength; i++) {
       binary += String.fromCharCode(uint8Array[i]);
@@ -108,7 +116,7 @@ static async decrypt(encryptedData: Uint8Array, keyString: string, config: any):
     return btoa(binary);
   }
 
-  private static base64ToUint8Array(base64: string): Uint8Array {
+  static base64ToUint8Array(base64: string): Uint8Array {
     const binary = atob(base64);
     const uint8Array = new Uint8Array(binary.length);
     for (let i = 0; i < binary.length; i++) {
@@ -0,0 +1,111 @@
+import { CID } from 'multiformats/cid';
+import * as dagPB from '@ipld/dag-pb';
+import { FileLayout, balanced, flat, trickle } from 'ipfs-unixfs-importer/layout';
+
+export type LayoutName = 'balanced' | 'trickle' | 'flat';
+
+export interface LayoutOptions {
+  name: LayoutName | string;
+  maxChildrenPerNode?: number;
+  layerRepeat?: number;
+}
+
+export interface DagShape {
+  depth: number;
+  fanout: number;
+  nodes: number;
+  leaves: number;
+}
+
+export class DagLayouts {
+  static readonly LAYOUTS: LayoutName[] = ['balanced', 'trickle', 'flat'];
+  static readonly MAX_CHILDREN_PER_NODE = 8192;
+  private static readonly RAW_CODE = 0x55;
+
+  static validate(options: LayoutOptions): void {
+    if (!this.LAYOUTS.includes(options.name as LayoutName)) {
+      throw new Error(`Unsupported layout: ${options.name} (expected one of ${this.LAYOUTS.join(', ')})`);
+    }
+
+    if (options.maxChildrenPerNode !== undefined) {
+      if (!Number.isInteger(options.maxChildrenPerNode) || options.maxChildrenPerNode < 2) {
+        throw new Error('Max children per node must be an integer of at least 2');
+      }
+      if (options.maxChildrenPerNode > this.MAX_CHILDREN_PER_NODE) {
+        throw new Error(`Max children per node too large (max ${this.MAX_CHILDREN_PER_NODE})`);
+      }
+      if (options.name === 'flat') {
+        throw new Error('The flat layout does not take maxChildrenPerNode');
+      }
+    }
+
+    if (options.layerRepeat !== undefined) {
+      if (options.name !== 'trickle') {
+        throw new Error('layerRepeat only applies to the trickle layout');
+      }
+      if (!Number.isInteger(options.layerRepeat) || options.layerRepeat < 1) {
+        throw new Error('Layer repeat must be a positive integer');
+      }
+    }
+  }
+
+  static createLayout(options: LayoutOptions): FileLayout {
+    this.validate(options);
+
+    if (options.name === 'trickle') {
+      return trickle({ maxChildrenPerNode: options.maxChildrenPerNode, layerRepeat: options.layerRepeat });
+    }
+    if (options.name === 'flat') {
+      return flat();
+    }
+    return balanced({ maxChildrenPerNode: options.maxChildrenPerNode });
+  }
+
+  static async inspect(getBlock: (cid: CID) => Promise<Uint8Array>, root: CID | string): Promise<DagShape> {
+    const shape: DagShape = { depth: 0, fanout: 0, nodes: 0, leaves: 0 };
+    let level: CID[] = [typeof root === 'string' ? CID.parse(root) : root];
+
+    while (level.length > 0) {
+      shape.depth++;
+      const next: CID[] = [];
+
+      for (const cid of level) {
+        shape.nodes++;
+
+        // Raw leaves never have links, so they are counted without being read
+        if (cid.code === this.RAW_CODE) {
+          shape.leaves++;
+          continue;
+        }
+        if (cid.code !== dagPB.code) {
+          throw new Error(`Cannot inspect non dag-pb node ${cid.toString()}`);
+        }
+
+        const links = dagPB.decode(await getBlock(cid)).Links;
+        if (links.length === 0) {
+          shape.leaves++;
+          continue;
+        }
+
+        shape.fanout = Math.max(shape.fanout, links.length);
+        next.push(...links.map(link => link.Hash));
+      }
+
+      level = next;
+    }
+
+    return shape;
+  }
+
+  static combine(shapes: DagShape[]): DagShape {
+    return shapes.reduce(
+      (total, shape) => ({
+        depth: Math.max(total.depth, shape.depth),
+        fanout: Math.max(total.fanout, shape.fanout),
+        nodes: total.nodes + shape.nodes,
+        leaves: total.leaves + shape.leaves
+      }),
+      { depth: 0, fanout: 0, nodes: 0, leaves: 0 }
+    );
+  }
+}
\ No newline at end of file
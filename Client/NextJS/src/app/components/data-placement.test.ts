@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DataPlacement, PlacementConfig, PlacementContent, PlacementPlan, StorageNode } from './data-placement';
+
+const contents: PlacementContent[] = Array.from({ length: 24 }, (_, i) => ({
+  cid: `bafy-content-${i}`,
+  size: 10,
+  mimeType: i % 3 === 0 ? 'image/png' : 'application/json',
+  tags: i % 2 === 0 ? ['research'] : ['business'],
+  accessCount: i % 4 === 0 ? 500 : 0
+}));
+
+const cluster: StorageNode[] = [
+  { id: 'leader-1', role: 'leader', regions: ['eu'], capacity: 10_000, tier: 'hot' },
+  { id: 'academic-1', role: 'academic', regions: ['us'], capacity: 10_000, tier: 'archive' },
+  { id: 'academic-2', role: 'academic', regions: ['eu'], capacity: 10_000, tier: 'hot' },
+  { id: 'enterprise-1', role: 'enterprise', regions: ['ap'], capacity: 10_000, tier: 'backup' },
+  { id: 'community-1', role: 'community', regions: ['us'], capacity: 10_000, tier: 'hot', contentFilters: ['image/*'] }
+];
+
+const joining: StorageNode = { id: 'community-2', role: 'community', regions: ['ap'], capacity: 10_000, tier: 'hot', contentFilters: ['image/*'] };
+
+const configs: Record<string, PlacementConfig> = {
+  full_replication: { strategy: 'full_replication', min_replication: 2, max_replication: -1 },
+  partial_replication: { strategy: 'partial_replication', min_replication: 2, max_replication: 3 },
+  content_based: { strategy: 'content_based', min_replication: 2, max_replication: 3 },
+  dynamic_allocation: { strategy: 'dynamic_allocation', min_replication: 2, max_replication: 4 }
+};
+
+const nodesOf = (plan: PlacementPlan, cid: string) => plan.placements.find(placement => placement.cid === cid)!.nodes;
+
+// Node usage as it would be reported after the plan has been applied
+const applied = (nodes: StorageNode[], plan: PlacementPlan): StorageNode[] =>
+  nodes.map(node => ({ ...node, used: plan.load[node.id] ?? 0 }));
+
+for (const [name, config] of Object.entries(configs)) {
+  describe(name, () => {
+    it('places content deterministically regardless of input order', () => {
+      const first = DataPlacement.plan(contents, cluster, config);
+      const second = DataPlacement.plan([...contents].reverse(), [...cluster].reverse(), config);
+      assert.deepEqual(second, first);
+      assert.ok(first.placements.every(placement => placement.satisfied), 'every placement meets min_replication');
+    });
+
+    it('keeps placements when the inventory is unchanged', () => {
+      const plan = DataPlacement.plan(contents, cluster, config);
+      const result = DataPlacement.rebalance(DataPlacement.toAssignments(plan), contents, applied(cluster, plan), config);
+      assert.deepEqual(result.moves, []);
+      assert.equal(result.movedBytes, 0);
+    });
+
+    it('only copies onto the node that joined', () => {
+      const plan = DataPlacement.plan(contents, cluster, config);
+      const result = DataPlacement.rebalance(DataPlacement.toAssignments(plan), contents, [...applied(cluster, plan), joining], config);
+      assert.ok(result.plan.placements.every(placement => placement.satisfied));
+      for (const move of result.moves) {
+        assert.deepEqual(move.add, [joining.id], `${move.cid} only gains the new node`);
+      }
+    });
+
+    it('re-homes only the content held by the node that left', () => {
+      const plan = DataPlacement.plan(contents, cluster, config);
+      const leaving = 'academic-2';
+      const remaining = applied(cluster, plan).filter(node => node.id !== leaving);
+      const result = DataPlacement.rebalance(DataPlacement.toAssignments(plan), contents, remaining, config);
+
+      assert.ok(result.plan.placements.every(placement => placement.satisfied && !placement.nodes.includes(leaving)));
+      for (const move of result.moves) {
+        assert.ok(nodesOf(plan, move.cid).includes(leaving), `${move.cid} was not on the departed node`);
+        assert.deepEqual(move.remove, [leaving]);
+      }
+    });
+  });
+}
+
+describe('strategy specifics', () => {
+  it('full_replication stores everything on every node', () => {
+    const plan = DataPlacement.plan(contents, cluster, configs.full_replication);
+    assert.ok(plan.placements.every(placement => placement.nodes.length === cluster.length));
+  });
+
+  it('partial_replication always includes the leader', () => {
+    const plan = DataPlacement.plan(contents, cluster, configs.partial_replication);
+    assert.ok(plan.placements.every(placement => placement.nodes.includes('leader-1') && placement.nodes.length === 2));
+  });
+
+  it('content_based routes content to matching specialists', () => {
+    const plan = DataPlacement.plan(contents, cluster, configs.content_based);
+    assert.ok(nodesOf(plan, 'bafy-content-3').includes('community-1'), 'images go to the image/* node');
+    assert.ok(nodesOf(plan, 'bafy-content-2').some(id => id.startsWith('academic')), 'research goes to academic nodes');
+  });
+
+  it('dynamic_allocation gives popular content extra replicas', () => {
+    const plan = DataPlacement.plan(contents, cluster, configs.dynamic_allocation);
+    assert.equal(nodesOf(plan, 'bafy-content-0').length, 4);
+    assert.equal(nodesOf(plan, 'bafy-content-1').length, 2);
+  });
+
+  it('rebalance does not charge placed content twice against capacity', () => {
+    const tight: StorageNode[] = [
+      { id: 'a', role: 'leader', capacity: 100, used: 60 },
+      { id: 'b', role: 'community', capacity: 100, used: 60 }
+    ];
+    const result = DataPlacement.rebalance(
+      { 'bafy-big': ['a', 'b'] },
+      [{ cid: 'bafy-big', size: 60 }],
+      tight,
+      configs.full_replication
+    );
+    assert.deepEqual(result.moves, []);
+    assert.deepEqual(result.plan.load, { a: 60, b: 60 });
+  });
+});
@@ -0,0 +1,334 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { VdicActorRole } from './interfaces';
+
+export type PlacementStrategyName = 'full_replication' | 'partial_replication' | 'content_based' | 'dynamic_allocation';
+
+export type StorageTier = 'hot' | 'archive' | 'backup';
+
+export interface StorageNode {
+  id: string;
+  role: VdicActorRole;
+  regions?: string[];
+  capacity: number;
+  used?: number;
+  contentFilters?: string[];
+  tier?: StorageTier;
+  online?: boolean;
+}
+
+export interface PlacementContent {
+  cid: string;
+  size: number;
+  mimeType?: string;
+  tags?: string[];
+  accessCount?: number;
+}
+
+export interface PlacementConfig {
+  strategy: PlacementStrategyName;
+  min_replication: number;
+  max_replication: number;
+  node_selection?: {
+    prefer_geographic?: boolean;
+    preferred_regions?: string[];
+    content_filters?: string[];
+  };
+}
+
+export interface Placement {
+  cid: string;
+  nodes: string[];
+  satisfied: boolean;
+  reason?: string;
+}
+
+export interface PlacementPlan {
+  strategy: PlacementStrategyName;
+  placements: Placement[];
+  load: Record<string, number>;
+}
+
+export interface PlacementMove {
+  cid: string;
+  add: string[];
+  remove: string[];
+  bytes: number;
+}
+
+export interface RebalanceResult {
+  plan: PlacementPlan;
+  moves: PlacementMove[];
+  movedBytes: number;
+}
+
+export interface PlacementStrategy {
+  readonly name: PlacementStrategyName;
+  place(contents: PlacementContent[], nodes: StorageNode[], config: PlacementConfig): PlacementPlan;
+}
+
+// Shared bookkeeping: every strategy walks content in a stable order and charges each chosen node for the bytes it takes
+abstract class BasePlacementStrategy implements PlacementStrategy {
+  abstract readonly name: PlacementStrategyName;
+
+  place(contents: PlacementContent[], nodes: StorageNode[], config: PlacementConfig): PlacementPlan {
+    const online = nodes.filter(node => node.online !== false).sort((a, b) => a.id.localeCompare(b.id));
+    const load: Record<string, number> = Object.fromEntries(online.map(node => [node.id, node.used ?? 0]));
+    const ordered = [...contents].sort((a, b) => a.cid.localeCompare(b.cid));
+
+    const placements = ordered.map(content => {
+      const fits = online.filter(node => load[node.id] + content.size <= node.capacity);
+      const placement = this.placeContent(content, fits, config, load);
+      for (const nodeId of placement.nodes) {
+        load[nodeId] += content.size;
+      }
+      return placement;
+    });
+
+    return { strategy: this.name, placements, load };
+  }
+
+  protected abstract placeContent(
+    content: PlacementContent,
+    nodes: StorageNode[],
+    config: PlacementConfig,
+    load: Record<string, number>
+  ): Placement;
+
+  protected finish(content: PlacementContent, nodes: StorageNode[], required: number, reason?: string): Placement {
+    const placement: Placement = { cid: content.cid, nodes: nodes.map(node => node.id), satisfied: nodes.length >= required };
+    if (!placement.satisfied) {
+      placement.reason = reason ?? `Only ${nodes.length} of ${required} required nodes have capacity`;
+    }
+    return placement;
+  }
+
+  protected replicationBounds(config: PlacementConfig, available: number): { min: number; max: number } {
+    const max = config.max_replication < 0 ? available : Math.min(config.max_replication, available);
+    return { min: config.min_replication, max };
+  }
+
+  // Rendezvous ordering, optionally weighted, then a pass that spreads picks over regions when geography matters
+  protected select(
+    content: PlacementContent,
+    candidates: StorageNode[],
+    count: number,
+    config: PlacementConfig,
+    weight: (node: StorageNode) => number = () => 1
+  ): StorageNode[] {
+    const ranked = [...candidates].sort((a, b) =>
+      DataPlacement.rendezvousScore(b.id, content.cid, weight(b)) - DataPlacement.rendezvousScore(a.id, content.cid, weight(a))
+    );
+    if (!config.node_selection?.prefer_geographic) {
+      return ranked.slice(0, count);
+    }
+
+    const preferred = config.node_selection.preferred_regions ?? [];
+    const selected: StorageNode[] = [];
+    const covered = new Set<string>();
+    const addsRegion = (node: StorageNode) => (node.regions ?? []).some(region => !covered.has(region));
+    const inPreferred = (node: StorageNode) => (node.regions ?? []).some(region => preferred.includes(region));
+
+    for (const pass of [
+      (node: StorageNode) => addsRegion(node) && inPreferred(node),
+      addsRegion,
+      () => true
+    ]) {
+      for (const node of ranked) {
+        if (selected.length >= count) break;
+        if (selected.includes(node) || !pass(node)) continue;
+        selected.push(node);
+        (node.regions ?? []).forEach(region => covered.add(region));
+      }
+    }
+
+    return selected;
+  }
+}
+
+export class FullReplicationStrategy extends BasePlacementStrategy {
+  readonly name = 'full_replication' as const;
+
+  protected placeContent(content: PlacementContent, nodes: StorageNode[], config: PlacementConfig): Placement {
+    const { min, max } = this.replicationBounds(config, nodes.length);
+    const leaders = nodes.filter(node => node.role === 'leader');
+    const others = this.select(content, nodes.filter(node => node.role !== 'leader'), Math.max(0, max - leaders.length), config);
+    return this.finish(content, [...leaders, ...others].slice(0, Math.max(max, leaders.length)), min);
+  }
+}
+
+export class PartialReplicationStrategy extends BasePlacementStrategy {
+  readonly name = 'partial_replication' as const;
+
+  // Leaders keep a full copy; the remaining replicas are spread over the other nodes
+  protected placeContent(content: PlacementContent, nodes: StorageNode[], config: PlacementConfig): Placement {
+    const { min, max } = this.replicationBounds(config, nodes.length);
+    const leaders = nodes.filter(node => node.role === 'leader');
+    const target = Math.min(max, Math.max(min, leaders.length + 1));
+    const others = this.select(content, nodes.filter(node => node.role !== 'leader'), Math.max(0, target - leaders.length), config);
+    return this.finish(content, [...leaders, ...others], min);
+  }
+}
+
+export class ContentBasedStrategy extends BasePlacementStrategy {
+  readonly name = 'content_based' as const;
+  static readonly ROLE_FILTERS: Partial<Record<VdicActorRole, string[]>> = {
+    academic: ['research', 'datasets'],
+    enterprise: ['business', 'legal', 'finance'],
+    community: ['public', 'opensource', 'creative']
+  };
+
+  protected placeContent(content: PlacementContent, nodes: StorageNode[], config: PlacementConfig): Placement {
+    const clusterFilters = config.node_selection?.content_filters;
+    if (clusterFilters?.length && !clusterFilters.some(filter => ContentBasedStrategy.matchesFilter(content, filter))) {
+      return { cid: content.cid, nodes: [], satisfied: false, reason: 'Content type is not accepted by the cluster content filters' };
+    }
+
+    const { min, max } = this.replicationBounds(config, nodes.length);
+    const specialists = nodes.filter(node => this.filtersFor(node).some(filter => ContentBasedStrategy.matchesFilter(content, filter)));
+    const chosen = this.select(content, specialists, Math.min(max, Math.max(min, 1)), config);
+
+    // Leaders are generalists and back-fill domains that lack enough specialists
+    if (chosen.length < min) {
+      const leaders = nodes.filter(node => node.role === 'leader' && !chosen.includes(node));
+      chosen.push(...this.select(content, leaders, min - chosen.length, config));
+    }
+
+    return this.finish(content, chosen, min, specialists.length === 0 ? 'No node is specialised for this content' : undefined);
+  }
+
+  static matchesFilter(content: PlacementContent, filter: string): boolean {
+    if (filter.includes('/')) {
+      if (!content.mimeType) return false;
+      return filter.endsWith('/*')
+        ? content.mimeType.startsWith(filter.slice(0, -1))
+        : content.mimeType === filter;
+    }
+    return (content.tags ?? []).includes(filter);
+  }
+
+  private filtersFor(node: StorageNode): string[] {
+    return node.contentFilters ?? ContentBasedStrategy.ROLE_FILTERS[node.role] ?? [];
+  }
+}
+
+export class DynamicAllocationStrategy extends BasePlacementStrategy {
+  readonly name = 'dynamic_allocation' as const;
+  static readonly HOT_ACCESS_COUNT = 100;
+
+  // Popular content earns extra replicas on hot-tier nodes; cold content goes to archive and backup tiers
+  protected placeContent(
+    content: PlacementContent,
+    nodes: StorageNode[],
+    config: PlacementConfig,
+    load: Record<string, number>
+  ): Placement {
+    const { min, max } = this.replicationBounds(config, nodes.length);
+    const hot = (content.accessCount ?? 0) >= DynamicAllocationStrategy.HOT_ACCESS_COUNT;
+    const extra = Math.floor(Math.log10(1 + (content.accessCount ?? 0)));
+    const target = Math.min(max, min + extra);
+
+    const weight = (node: StorageNode): number => {
+      const free = Math.max(1, node.capacity - load[node.id]) / node.capacity;
+      const tierMatch = hot ? node.tier === 'hot' : node.tier === 'archive' || node.tier === 'backup';
+      return free * (tierMatch ? 4 : 1);
+    };
+
+    return this.finish(content, this.select(content, nodes, target, config, weight), min);
+  }
+}
+
+export class DataPlacement {
+  private static strategies = new Map<PlacementStrategyName, PlacementStrategy>([
+    ['full_replication', new FullReplicationStrategy()],
+    ['partial_replication', new PartialReplicationStrategy()],
+    ['content_based', new ContentBasedStrategy()],
+    ['dynamic_allocation', new DynamicAllocationStrategy()]
+  ]);
+
+  static register(strategy: PlacementStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  static getStrategy(name: PlacementStrategyName): PlacementStrategy {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown placement strategy: ${name}`);
+    }
+    return strategy;
+  }
+
+  static validateConfig(config: PlacementConfig): void {
+    this.getStrategy(config.strategy);
+    if (!Number.isInteger(config.min_replication) || config.min_replication < 1) {
+      throw new Error('min_replication must be a positive integer');
+    }
+    if (!Number.isInteger(config.max_replication) || (config.max_replication !== -1 && config.max_replication < config.min_replication)) {
+      throw new Error('max_replication must be -1 (unbounded) or at least min_replication');
+    }
+  }
+
+  static validateNodes(nodes: StorageNode[]): void {
+    const ids = new Set<string>();
+    for (const node of nodes) {
+      if (!node.id || ids.has(node.id)) {
+        throw new Error(`Node ids must be unique and non-empty (got "${node.id}")`);
+      }
+      if (!(node.capacity > 0)) {
+        throw new Error(`Node ${node.id} must have a positive capacity`);
+      }
+      ids.add(node.id);
+    }
+  }
+
+  static plan(contents: PlacementContent[], nodes: StorageNode[], config: PlacementConfig): PlacementPlan {
+    this.validateConfig(config);
+    this.validateNodes(nodes);
+    return this.getStrategy(config.strategy).place(contents, nodes, config);
+  }
+
+  // Re-plans against the new inventory and reports only the copies that have to be made or dropped
+  static rebalance(
+    current: Record<string, string[]>,
+    contents: PlacementContent[],
+    nodes: StorageNode[],
+    config: PlacementConfig
+  ): RebalanceResult {
+    const sizes = new Map(contents.map(content => [content.cid, content.size]));
+
+    // node.used already counts the copies being re-planned; the plan charges them again, so they are taken out first
+    const held: Record<string, number> = {};
+    for (const [cid, nodeIds] of Object.entries(current)) {
+      for (const nodeId of nodeIds) {
+        held[nodeId] = (held[nodeId] ?? 0) + (sizes.get(cid) ?? 0);
+      }
+    }
+    const available = nodes.map(node => ({ ...node, used: Math.max(0, (node.used ?? 0) - (held[node.id] ?? 0)) }));
+
+    const plan = this.plan(contents, available, config);
+    const moves: PlacementMove[] = [];
+
+    for (const placement of plan.placements) {
+      const before = new Set(current[placement.cid] ?? []);
+      const after = new Set(placement.nodes);
+      const add = placement.nodes.filter(nodeId => !before.has(nodeId));
+      const remove = Array.from(before).filter(nodeId => !after.has(nodeId));
+      if (add.length > 0 || remove.length > 0) {
+        moves.push({ cid: placement.cid, add, remove, bytes: add.length * (sizes.get(placement.cid) ?? 0) });
+      }
+    }
+
+    return { plan, moves, movedBytes: moves.reduce((total, move) => total + move.bytes, 0) };
+  }
+
+  static toAssignments(plan: PlacementPlan): Record<string, string[]> {
+    return Object.fromEntries(plan.placements.map(placement => [placement.cid, placement.nodes]));
+  }
+
+  // Weighted rendezvous hashing: -weight / ln(h) keeps assignments stable when unrelated nodes join or leave
+  static rendezvousScore(nodeId: string, cid: string, weight: number = 1): number {
+    const digest = sha256(new TextEncoder().encode(`${nodeId}\u0000${cid}`));
+    const value = ((digest[0] << 24) | (digest[1] << 16) | (digest[2] << 8) | digest[3]) >>> 0;
+    const unit = (value + 1) / 4294967297;
+    return -weight / Math.log(unit);
+  }
+}
\ No newline at end of file
@@ -1,13 +1,32 @@
-import { IPFSManager } from './ipfs-manager';
+import { CID } from 'multiformats/cid';
+import { IPFSAddResult, IPFSDirectoryInput, IPFSManager } from './ipfs-manager';
 import { CIDOptions } from './cid-options';
 import { ContentTypeHandler } from './content-handler';
 import { CryptoUtils } from './crypto-utils';
-import { ShardingUtils } from './sharding-utils';
+import { ShardingUtils, ShardManifest } from './sharding-utils';
 import { ValidationUtils } from './validation-utils';
+import { StreamUtils } from './stream-utils';
+import { StreamEncryption } from './stream-encryption';
+import { PresentationVerificationOptions, VerifiableCredentials } from './credentials';
+import { AccessPolicy, AccessPolicyEngine, AssetSource, PolicyEvaluationResult } from './access-policy';
+import { KeyManager, WrappedContentKey } from './key-management';
+import { MerkleProof, MerkleProofs } from './merkle-proof';
+import { DedupStats } from './content-chunker';
+import { DagLayouts, DagShape } from './dag-layout';
+import { TrustlessRetrieval } from './trustless-retrieval';
+import { UploadProgress, UploadSession, UploadSessions, UploadStage } from './upload-session';
+
+// Lets callers such as the gateway tell rejected input and credentials apart from storage failures
+export type UploadFailure = 'invalid' | 'unauthenticated' | 'forbidden';
 
 export interface UploadResult {
   success: boolean;
+  reason?: UploadFailure;
   item?: DatastoreItem;
+  dedup?: DedupStats;
+  dag?: DagShape;
+  sessionId?: string;
+  resumable?: boolean;
   error?: string;
 }
 
@@ -26,59 +45,161 @@ export interface DatastoreItem {
   uploadedAt: string;
   downloadCount: number;
   encryptionKey?: string;
+  encryptionFormat?: 'single' | 'segmented';
+  encryptionSegmentSize?: number;
+  wrappedKey?: WrappedContentKey;
   shardCount?: number;
   cidVersion?: 0 | 1;
   hashAlgorithm?: string;
+  accessPolicy?: AccessPolicy;
+  directory?: boolean;
+  parentCid?: string;
+  path?: string;
+}
+
+// Deleting only needs the fields shared by every datastore record shape
+export type StoredRecord = Pick<DatastoreItem, 'cid' | 'shardCount' | 'parentCid'>;
+
+// Resolving a path only needs the directory root and its access policy
+export type DirectoryRecord = Pick<DatastoreItem, 'cid' | 'name' | 'accessPolicy'>;
+
+export interface DirectoryUploadResult {
+  success: boolean;
+  reason?: UploadFailure;
+  root?: DatastoreItem;
+  items?: DatastoreItem[];
+  dedup?: DedupStats;
+  error?: string;
 }
 
 
 
 export class FileOperations {
+  private static credentialRequirement: PresentationVerificationOptions | null = null;
+  private static assetSource: AssetSource | null = null;
+
+  static requireCredentials(options: PresentationVerificationOptions | null): void {
+    if (options) {
+      VerifiableCredentials.requireTrustedIssuers(options);
+    }
+    this.credentialRequirement = options;
+  }
+
+  static setAssetSource(source: AssetSource | null): void {
+    this.assetSource = source;
+  }
+
+  static async verifyAccess(
+    item: { accessPolicy?: AccessPolicy },
+    walletAddress?: string
+  ): Promise<PolicyEvaluationResult> {
+    if (!item.accessPolicy) {
+      return { allowed: true, satisfied: [], missing: [] };
+    }
+    return await AccessPolicyEngine.evaluateForWallet(item.accessPolicy, walletAddress, this.assetSource);
+  }
+
   static async uploadFile(
     file: File,
     encryptionConfig: any,
     shardingConfig: any,
-    onProgress?: (message: string) => void,
-    cidOptions?: CIDOptions
+    onProgress?: (message: string, progress?: UploadProgress) => void,
+    cidOptions?: CIDOptions,
+    presentation?: string,
+    accessPolicy?: AccessPolicy,
+    holderSecret?: string
   ): Promise<UploadResult> {
     try {
       onProgress?.('Starting file upload...');
       
       if (!ValidationUtils.validateFile(file)) {
-        return { success: false, error: 'File validation failed' };
+        return { success: false, reason: 'invalid', error: 'File validation failed' };
+      }
+
+      if (this.credentialRequirement) {
+        if (!presentation) {
+          return { success: false, reason: 'unauthenticated', error: 'Upload requires a verifiable presentation' };
+        }
+
+        onProgress?.('Verifying credentials...');
+        const verification = await VerifiableCredentials.verifyPresentation(presentation, this.credentialRequirement);
+        if (!verification.verified) {
+          return { success: false, reason: 'forbidden', error: `Credential verification failed: ${verification.error}` };
+        }
+      }
+
+      if (encryptionConfig?.enabled && encryptionConfig.keyDerivation === 'asset_based' &&
+          (!encryptionConfig.keyAsset || !holderSecret)) {
+        return { success: false, reason: 'invalid', error: 'Asset based key derivation requires a key asset and holder secret' };
+      }
+
+      const needsSharding = shardingConfig?.enabled && file.size > shardingConfig.chunkSize;
+      if (encryptionConfig?.enabled && encryptionConfig.streaming && encryptionConfig.algorithm !== 'AES-CTR' && !needsSharding) {
+        return await this.uploadEncryptedStream(file, encryptionConfig, onProgress, cidOptions, accessPolicy, holderSecret);
       }
 
       let fileData = new Uint8Array(await file.arrayBuffer());
       let encryptionKey: string | undefined;
+      let encryptionIv: Uint8Array | undefined;
+
+      const fingerprint = shardingConfig?.enabled
+        ? await UploadSessions.fingerprint(file.name, await ShardingUtils.calculateDigest(fileData), {
+          sharding: shardingConfig,
+          encryption: encryptionConfig?.enabled
+            ? [encryptionConfig.algorithm, encryptionConfig.keyLength, encryptionConfig.keyDerivation]
+            : null,
+          cidOptions
+        })
+        : undefined;
+      const previous = fingerprint ? UploadSessions.find(fingerprint) : null;
 
       if (encryptionConfig?.enabled) {
-        onProgress?.('Encrypting file...');
-        const encrypted = await CryptoUtils.encrypt(fileData, encryptionConfig);
+        onProgress?.('Encrypting file...', this.uploadProgress('encrypting', file.name, 0, fileData.length));
+        const encrypted = await CryptoUtils.encrypt(fileData, encryptionConfig, previous?.encryption && {
+          key: previous.encryption.key,
+          iv: CryptoUtils.base64ToUint8Array(previous.encryption.iv)
+        });
         fileData = encrypted.data;
         encryptionKey = encrypted.key;
+        encryptionIv = encrypted.iv;
       }
 
       let shardCount: number | undefined;
       if (shardingConfig?.enabled && fileData.length > shardingConfig.chunkSize) {
         onProgress?.('Sharding large file...');
+        UploadSessions.prune();
         const shards = await ShardingUtils.createShards(fileData, shardingConfig);
         shardCount = shards.length;
-        
-        const shardCids = await Promise.all(
-          shards.map(async (shard, index) => {
-            onProgress?.(`Uploading shard ${index + 1}/${shards.length}...`);
-            return await IPFSManager.addFile(`${file.name}.shard.${index}`, shard, cidOptions);
-          })
+
+        // Asset based keys are wrapped before they are stored, so the raw key is never persisted with the session
+        const persistKey = encryptionKey && encryptionIv && encryptionConfig.keyDerivation !== 'asset_based';
+        const { session, resumed } = UploadSessions.begin(
+          fingerprint!,
+          file.name,
+          file.size,
+          await Promise.all(shards.map(async shard => ({ size: shard.length, digest: await ShardingUtils.calculateDigest(shard) }))),
+          persistKey ? { key: encryptionKey!, iv: CryptoUtils.uint8ArrayToBase64(encryptionIv!) } : undefined
         );
 
-        const manifestData = JSON.stringify({
-          shards: shardCids.map(result => result.cid),
-          originalSize: fileData.length,
-          shardSize: shardingConfig.chunkSize
-        });
+        const uploaded = await this.uploadShards(file.name, shards, session, resumed, cidOptions, onProgress);
+        if ('error' in uploaded) {
+          return { success: false, error: uploaded.error, sessionId: session.id, resumable: true };
+        }
 
-        const manifestBuffer = new TextEncoder().encode(manifestData);
+        onProgress?.('Writing shard manifest...', this.uploadProgress('finalizing', file.name, session.totalBytes, session.totalBytes, shards.length, shards.length, session.id, resumed));
+        const manifest = await ShardingUtils.createManifest(
+          file.name,
+          fileData,
+          shards,
+          session.shards.map(shard => shard.cid!),
+          !!encryptionKey,
+          ContentTypeHandler.getContentType(file.name),
+          ContentTypeHandler.getMimeType(file.name) || 'application/octet-stream'
+        );
+
+        const manifestBuffer = ShardingUtils.createManifestBuffer(manifest);
         const result = await IPFSManager.addFile(`${file.name}.manifest`, manifestBuffer, cidOptions);
+        UploadSessions.finish(session);
 
         const item: DatastoreItem = {
           cid: result.cid,
@@ -90,15 +211,23 @@ export class FileOperations {
           encryptionKey,
           shardCount,
           cidVersion: result.version,
-          hashAlgorithm: result.hasher
+          hashAlgorithm: result.hasher,
+          accessPolicy
         };
 
-        onProgress?.('Upload completed successfully!');
-        return { success: true, item };
+        onProgress?.('Upload completed successfully!', this.uploadProgress('complete', file.name, session.totalBytes, session.totalBytes, shards.length, shards.length, session.id, resumed));
+        return {
+          success: true,
+          item: await this.protectItemKey(item, encryptionConfig, holderSecret),
+          dedup: this.sumDedupStats([...uploaded.results, result]),
+          dag: DagLayouts.combine(uploaded.dags)
+        };
       }
 
-      onProgress?.('Uploading to IPFS...');
-      const result = await IPFSManager.addFile(file.name, fileData, cidOptions);
+      onProgress?.('Uploading to IPFS...', this.uploadProgress('uploading', file.name, 0, fileData.length, 0, 1));
+      const result = await IPFSManager.addFile(file.name, fileData, cidOptions, bytes =>
+        onProgress?.(`Uploading to IPFS... ${this.percent(bytes, fileData.length)}%`, this.uploadProgress('uploading', file.name, bytes, fileData.length, 0, 1))
+      );
 
       const item: DatastoreItem = {
         cid: result.cid,
@@ -110,11 +239,17 @@ export class FileOperations {
         encryptionKey,
         shardCount,
         cidVersion: result.version,
-        hashAlgorithm: result.hasher
+        hashAlgorithm: result.hasher,
+        accessPolicy
       };
 
-      onProgress?.('Upload completed successfully!');
-      return { success: true, item };
+      onProgress?.('Upload completed successfully!', this.uploadProgress('complete', file.name, fileData.length, fileData.length, 1, 1));
+      return {
+        success: true,
+        item: await this.protectItemKey(item, encryptionConfig, holderSecret),
+        dedup: this.sumDedupStats([result]),
+        dag: result.dag
+      };
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error during upload';
@@ -122,29 +257,315 @@ export class FileOperations {
     }
   }
 
+  // Children are stored as plain UnixFS files so any gateway can serve /ipfs/<root>/<path>; encryption and sharding stay single-file features
+  static async uploadDirectory(
+    files: File[],
+    name?: string,
+    onProgress?: (message: string, progress?: UploadProgress) => void,
+    cidOptions?: CIDOptions,
+    presentation?: string,
+    accessPolicy?: AccessPolicy
+  ): Promise<DirectoryUploadResult> {
+    try {
+      if (files.length === 0) {
+        return { success: false, reason: 'invalid', error: 'No files selected' };
+      }
+      const invalid = files.find(file => !ValidationUtils.validateFile(file).valid);
+      if (invalid) {
+        return { success: false, reason: 'invalid', error: `File validation failed: ${invalid.name}` };
+      }
+
+      if (this.credentialRequirement) {
+        if (!presentation) {
+          return { success: false, reason: 'unauthenticated', error: 'Upload requires a verifiable presentation' };
+        }
+        onProgress?.('Verifying credentials...');
+        const verification = await VerifiableCredentials.verifyPresentation(presentation, this.credentialRequirement);
+        if (!verification.verified) {
+          return { success: false, reason: 'forbidden', error: `Credential verification failed: ${verification.error}` };
+        }
+      }
+
+      const { root: folder, paths } = this.directoryPaths(files);
+      const directoryName = name || folder || 'directory';
+      const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      const entries = this.directoryEntries(files, paths);
+
+      onProgress?.(`Building directory of ${files.length} files...`, this.uploadProgress('uploading', directoryName, 0, totalBytes, 0, files.length));
+      const result = await IPFSManager.addDirectory(entries, cidOptions, bytes => onProgress?.(
+        `Uploading directory... ${this.percent(Math.min(bytes, totalBytes), totalBytes)}%`,
+        this.uploadProgress('uploading', directoryName, Math.min(bytes, totalBytes), totalBytes, 0, files.length)
+      ));
+
+      const uploadedAt = new Date().toISOString();
+      const root: DatastoreItem = {
+        cid: result.cid,
+        name: directoryName,
+        size: totalBytes,
+        type: 'directory',
+        uploadedAt,
+        downloadCount: 0,
+        cidVersion: result.version,
+        hashAlgorithm: result.hasher,
+        accessPolicy,
+        directory: true
+      };
+      const items = result.entries.map(entry => {
+        const child: DatastoreItem = {
+          cid: entry.cid,
+          name: entry.path.split('/').pop()!,
+          size: entry.size,
+          type: entry.type === 'directory' ? 'directory' : ContentTypeHandler.getContentType(entry.path),
+          uploadedAt,
+          downloadCount: 0,
+          cidVersion: result.version,
+          hashAlgorithm: result.hasher,
+          accessPolicy,
+          parentCid: result.cid,
+          path: `/${entry.path}`
+        };
+        if (entry.type === 'directory') child.directory = true;
+        return child;
+      });
+
+      onProgress?.(`Directory uploaded: ${result.cid}`, this.uploadProgress('complete', directoryName, totalBytes, totalBytes, files.length, files.length));
+      return { success: true, root, items, dedup: this.sumDedupStats([result]) };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error during directory upload';
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // Folder selections share a top-level name in webkitRelativePath; it becomes the directory name rather than a path segment
+  static directoryPaths(files: File[]): { root?: string; paths: string[] } {
+    const raw = files.map(file => (file.webkitRelativePath || file.name).replace(/\\/g, '/').split('/').filter(Boolean));
+    for (const segments of raw) {
+      if (segments.length === 0 || segments.some(segment => segment === '.' || segment === '..')) {
+        throw new Error(`Invalid path: ${segments.join('/')}`);
+      }
+    }
+
+    const top = raw[0][0];
+    const shared = raw.every(segments => segments.length > 1 && segments[0] === top);
+    const paths = raw.map(segments => (shared ? segments.slice(1) : segments).join('/'));
+    const duplicate = paths.find((path, i) => paths.indexOf(path) !== i);
+    if (duplicate) {
+      throw new Error(`Duplicate path: /${duplicate}`);
+    }
+    return { root: shared ? top : undefined, paths };
+  }
+
+  // Each file is opened only when the importer reaches it
+  private static *directoryEntries(files: File[], paths: string[]): Generator<IPFSDirectoryInput> {
+    for (let i = 0; i < files.length; i++) {
+      yield { path: paths[i], content: StreamUtils.streamToAsyncIterable(files[i].stream()) };
+    }
+  }
+
+  // Shards upload one at a time and are recorded as they finish, so a failure keeps everything before it
+  private static async uploadShards(
+    fileName: string,
+    shards: Uint8Array[],
+    session: UploadSession,
+    resumed: boolean,
+    cidOptions?: CIDOptions,
+    onProgress?: (message: string, progress?: UploadProgress) => void
+  ): Promise<{ results: IPFSAddResult[]; dags: DagShape[] } | { error: string }> {
+    const results: IPFSAddResult[] = [];
+    const dags: DagShape[] = [];
+    let completed = 0;
+
+    for (const [index, shard] of shards.entries()) {
+      const record = session.shards[index];
+      const done = UploadSessions.bytesComplete(session);
+      try {
+        if (record.cid && await IPFSManager.hasBlock(CID.parse(record.cid))) {
+          dags.push(await IPFSManager.inspectDag(record.cid));
+          completed++;
+          onProgress?.(
+            `Shard ${index + 1}/${shards.length} already uploaded, skipping`,
+            this.uploadProgress('uploading', fileName, done, session.totalBytes, completed, shards.length, session.id, resumed)
+          );
+          continue;
+        }
+        if (record.cid) {
+          UploadSessions.resetShard(session, index);
+        }
+
+        const base = UploadSessions.bytesComplete(session);
+        const result = await IPFSManager.addFile(`${fileName}.shard.${index}`, shard, cidOptions, bytes => onProgress?.(
+          `Uploading shard ${index + 1}/${shards.length}... ${this.percent(base + bytes, session.totalBytes)}%`,
+          this.uploadProgress('uploading', fileName, base + bytes, session.totalBytes, completed, shards.length, session.id, resumed)
+        ));
+        UploadSessions.completeShard(session, index, result.cid);
+        results.push(result);
+        if (result.dag) dags.push(result.dag);
+        completed++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error during upload';
+        UploadSessions.interrupt(session, message);
+        return { error: `${message} (${completed} of ${shards.length} shards saved, upload the same file again to resume)` };
+      }
+    }
+
+    return { results, dags };
+  }
+
+  private static uploadProgress(
+    stage: UploadStage,
+    fileName: string,
+    bytesUploaded: number,
+    totalBytes: number,
+    shardsComplete: number = 0,
+    shardCount: number = 1,
+    sessionId?: string,
+    resumed: boolean = false
+  ): UploadProgress {
+    return { stage, fileName, bytesUploaded, totalBytes, shardsComplete, shardCount, sessionId, resumed };
+  }
+
+  private static percent(bytes: number, total: number): number {
+    return total > 0 ? Math.floor((bytes / total) * 100) : 100;
+  }
+
+  private static async checkAccess(item: Pick<DatastoreItem, 'accessPolicy'>, walletAddress?: string): Promise<string | null> {
+    const evaluation = await this.verifyAccess(item, walletAddress);
+    if (evaluation.allowed) {
+      return null;
+    }
+    if (evaluation.error) {
+      return `Access denied: ${evaluation.error}`;
+    }
+    const missing = evaluation.missing.map(requirement => AccessPolicyEngine.describeRequirement(requirement));
+    return `Access denied: wallet does not hold required assets (${missing.join(', ')})`;
+  }
+
+  // The holder secret is passed per call and never kept in EncryptionConfig, which is persisted
+  private static async protectItemKey(item: DatastoreItem, encryptionConfig: any, holderSecret?: string): Promise<DatastoreItem> {
+    if (encryptionConfig?.keyDerivation !== 'asset_based' || !item.encryptionKey) {
+      return item;
+    }
+    if (!encryptionConfig.keyAsset || !holderSecret) {
+      throw new Error('Asset based key derivation requires a key asset and holder secret');
+    }
+
+    const wrappedKey = await KeyManager.wrapContentKey(
+      item.encryptionKey,
+      encryptionConfig.keyAsset,
+      holderSecret,
+      encryptionConfig.algorithm || 'AES-GCM'
+    );
+    return { ...item, encryptionKey: undefined, wrappedKey };
+  }
+
+  private static async unwrapItemKey(item: DatastoreItem, holderSecret?: string): Promise<DatastoreItem> {
+    if (item.encryptionKey || !item.wrappedKey) {
+      return item;
+    }
+    if (!holderSecret) {
+      throw new Error('This file is protected by an asset based key; a holder secret is required');
+    }
+    return { ...item, encryptionKey: await KeyManager.unwrapContentKeyString(item.wrappedKey, holderSecret) };
+  }
+
+  private static async uploadEncryptedStream(
+    file: File,
+    encryptionConfig: any,
+    onProgress?: (message: string) => void,
+    cidOptions?: CIDOptions,
+    accessPolicy?: AccessPolicy,
+    holderSecret?: string
+  ): Promise<UploadResult> {
+    onProgress?.('Encrypting and uploading file stream...');
+
+    const key = await CryptoUtils.generateEncryptionKey('AES-GCM', encryptionConfig.keyLength || 256);
+    const segmentSize = encryptionConfig.segmentSize || StreamEncryption.DEFAULT_SEGMENT_SIZE;
+    const encryptedStream = await StreamUtils.encryptedStreamFromFile(file, key, segmentSize);
+    const result = await IPFSManager.addByteStream(StreamUtils.streamToAsyncIterable(encryptedStream), cidOptions);
+
+    const item: DatastoreItem = {
+      cid: result.cid,
+      name: file.name,
+      size: file.size,
+      type: ContentTypeHandler.getContentType(file.name),
+      uploadedAt: new Date().toISOString(),
+      downloadCount: 0,
+      encryptionKey: await CryptoUtils.exportKey(key),
+      encryptionFormat: 'segmented',
+      encryptionSegmentSize: segmentSize,
+      cidVersion: result.version,
+      hashAlgorithm: result.hasher,
+      accessPolicy
+    };
+
+    onProgress?.('Upload completed successfully!');
+    return {
+      success: true,
+      item: await this.protectItemKey(item, encryptionConfig, holderSecret),
+      dedup: this.sumDedupStats([result]),
+      dag: result.dag
+    };
+  }
+
+  private static sumDedupStats(results: IPFSAddResult[]): DedupStats {
+    return results.reduce(
+      (total, result) => ({
+        blocks: total.blocks + (result.blocks ?? 0),
+        existingBlocks: total.existingBlocks + (result.existingBlocks ?? 0)
+      }),
+      { blocks: 0, existingBlocks: 0 }
+    );
+  }
+
   static async downloadFile(
     item: DatastoreItem,
     encryptionConfig: any,
-    onProgress?: (message: string) => void
+    onProgress?: (message: string) => void,
+    walletAddress?: string,
+    holderSecret?: string
   ): Promise<DownloadResult> {
     try {
       onProgress?.('Starting download...');
 
+      const accessError = await this.checkAccess(item, walletAddress);
+      if (accessError) {
+        onProgress?.(accessError);
+        return { success: false, error: accessError };
+      }
+
+      if (item.wrappedKey && !item.encryptionKey) {
+        onProgress?.('Unwrapping content key...');
+        item = await this.unwrapItemKey(item, holderSecret);
+      }
+
+      await TrustlessRetrieval.ensureLocal(item.cid, onProgress);
+
+      if (item.encryptionFormat === 'segmented' && item.encryptionKey) {
+        onProgress?.('Downloading and decrypting file stream...');
+        const key = await CryptoUtils.importKey(item.encryptionKey, 'AES-GCM');
+        const source = StreamUtils.asyncIterableToStream(await IPFSManager.getFile(item.cid));
+        const decrypted = source.pipeThrough(StreamEncryption.createDecryptionStream(key));
+        const data = await StreamUtils.collectAsyncIterable(StreamUtils.streamToAsyncIterable(decrypted));
+
+        onProgress?.('Download completed successfully!');
+        return { success: true, data, mimeType: ContentTypeHandler.getMimeType(item.name) || item.type };
+      }
+
       let fileData: Uint8Array;
 
       if (item.shardCount && item.shardCount > 1) {
         onProgress?.('Downloading sharded file...');
         
-        const manifestData = await IPFSManager.getFile(item.cid);
-        const manifest = JSON.parse(new TextDecoder().decode(manifestData));
+        const manifest = await this.loadShardManifest(item);
 
-        const shardPromises = manifest.shards.map(async (shardCid: string, index: number) => {
+        const shardPromises = manifest.shards.map(async (shard, index) => {
           onProgress?.(`Downloading shard ${index + 1}/${manifest.shards.length}...`);
-          return await IPFSManager.getFile(shardCid);
+          await TrustlessRetrieval.ensureLocal(shard.cid!, onProgress);
+          return await StreamUtils.collectAsyncIterable(await IPFSManager.getFile(shard.cid!));
         });
 
         const shards = await Promise.all(shardPromises);
-        fileData = await ShardingUtils.reconstructFromShards(shards);
+        fileData = await ShardingUtils.reconstructFromShards(shards, manifest);
       } else {
         onProgress?.('Downloading file...');
         fileData = await IPFSManager.getFile(item.cid);
@@ -166,14 +587,140 @@ export class FileOperations {
     }
   }
 
+  static async downloadPath(
+    directory: DirectoryRecord,
+    path: string,
+    onProgress?: (message: string) => void,
+    walletAddress?: string
+  ): Promise<DownloadResult> {
+    try {
+      const accessError = await this.checkAccess(directory, walletAddress);
+      if (accessError) {
+        onProgress?.(accessError);
+        return { success: false, error: accessError };
+      }
+
+      await TrustlessRetrieval.ensureLocal(directory.cid, onProgress);
+      onProgress?.(`Resolving ${path} in ${directory.name}...`);
+      const cid = await IPFSManager.resolvePath(directory.cid, path);
+      const data = await StreamUtils.collectAsyncIterable(await IPFSManager.getFile(cid));
+
+      onProgress?.('Download completed successfully!');
+      return { success: true, data, mimeType: ContentTypeHandler.getMimeType(path) || 'application/octet-stream' };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error during download';
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  static async downloadRange(
+    item: DatastoreItem,
+    start: number,
+    end: number,
+    walletAddress?: string,
+    holderSecret?: string
+  ): Promise<DownloadResult> {
+    try {
+      const accessError = await this.checkAccess(item, walletAddress);
+      if (accessError) {
+        return { success: false, error: accessError };
+      }
+
+      item = await this.unwrapItemKey(item, holderSecret);
+
+      const mimeType = ContentTypeHandler.getMimeType(item.name) || item.type;
+      const read = async (offset: number, length: number) =>
+        StreamUtils.collectAsyncIterable(await IPFSManager.getFile(item.cid, { offset, length }));
+
+      if (item.encryptionFormat !== 'segmented' || !item.encryptionKey) {
+        if (item.encryptionKey || (item.shardCount && item.shardCount > 1)) {
+          return { success: false, error: 'Range downloads require unsharded, segment-encrypted or plaintext content' };
+        }
+        return { success: true, data: await read(start, end - start), mimeType };
+      }
+
+      const key = await CryptoUtils.importKey(item.encryptionKey, 'AES-GCM');
+      const ciphertextSize = StreamEncryption.getCiphertextSize(
+        item.size,
+        item.encryptionSegmentSize || StreamEncryption.DEFAULT_SEGMENT_SIZE
+      );
+      const data = await StreamEncryption.decryptRange(read, ciphertextSize, key, start, end);
+
+      return { success: true, data, mimeType };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error during range download';
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  static async createProof(item: DatastoreItem, offset: number = 0): Promise<MerkleProof> {
+    return await MerkleProofs.buildDagPathProof(cid => IPFSManager.getBlock(cid), item.cid, offset);
+  }
+
+  static async loadShardManifest(item: Pick<DatastoreItem, 'cid'>, offline: boolean = false): Promise<ShardManifest> {
+    const manifest = ShardingUtils.parseManifest(
+      await StreamUtils.collectAsyncIterable(await IPFSManager.getFile(item.cid, { offline }))
+    );
+    if (manifest.shards.some(shard => !shard.cid)) {
+      throw new Error('Shard manifest is missing shard CIDs');
+    }
+    return manifest;
+  }
+
+  // Local pins go with the record so GC can reclaim the blocks; CIDs another record still references stay pinned
+  static async deleteFile<T extends StoredRecord>(item: T, datastore: T[]): Promise<T[]> {
+    const removed = datastore.filter(entry => entry.cid === item.cid || entry.parentCid === item.cid);
+    const kept = datastore.filter(entry => !removed.includes(entry));
+
+    const referenced = new Set((await Promise.all(kept.map(entry => this.pinnedCids(entry)))).flat());
+    const released = new Set((await Promise.all(removed.map(entry => this.pinnedCids(entry)))).flat());
+    for (const cid of released) {
+      if (referenced.has(cid)) continue;
+      try {
+        await IPFSManager.unpin(cid);
+      } catch (error) {
+        console.warn(`Failed to unpin ${cid}:`, error);
+      }
+    }
+    return kept;
+  }
+
+  // Shard CIDs are only recorded in the manifest, which is read from the local blockstore
+  private static async pinnedCids(item: StoredRecord): Promise<string[]> {
+    if (!item.shardCount || item.shardCount <= 1) return [item.cid];
+    try {
+      const manifest = await this.loadShardManifest(item, true);
+      return [item.cid, ...manifest.shards.map(shard => shard.cid!)];
+    } catch {
+      return [item.cid];
+    }
+  }
+
   static async verifyFile(item: DatastoreItem): Promise<boolean> {
     try {
-      return await IPFSManager.verifyFile(item.cid);
+      const manifest = item.shardCount && item.shardCount > 1 ? await this.loadShardManifest(item) : null;
+      const roots = manifest ? manifest.shards.map(shard => shard.cid!) : [item.cid];
+      if (manifest?.shardRoot && (await MerkleProofs.computeShardRoot(roots)) !== manifest.shardRoot) {
+        return false;
+      }
+
+      for (const root of roots) {
+        for (const offset of [0, Number.MAX_SAFE_INTEGER]) {
+          const proof = await MerkleProofs.buildDagPathProof(cid => IPFSManager.getBlock(cid), root, offset);
+          const verification = await MerkleProofs.verify(proof, root);
+          if (!verification.valid) {
+            return false;
+          }
+        }
+      }
+
+      return true;
     } catch {
       return false;
     }
   }
 
+
   static createDownloadLink(data: Uint8Array, filename: string, mimeType?: string): void {
     const blob = new Blob([data], { type: mimeType || 'application/octet-stream' });
     const url = URL.createObjectURL(blob);
@@ -0,0 +1,121 @@
+// Mirrored in Client/NextJS/src/app/components and Client/Vite/src/components; edit both copies together
+import type { CID } from 'multiformats/cid';
+import { from } from 'multiformats/hashes/hasher';
+import { sha256, sha512 } from 'multiformats/hashes/sha2';
+import { identity } from 'multiformats/hashes/identity';
+import { MultihashHasher } from 'multiformats/hashes/interface';
+import { blake2b } from '@noble/hashes/blake2b';
+import { blake2s } from '@noble/hashes/blake2s';
+import { blake3 } from '@noble/hashes/blake3';
+import { keccak_256, sha3_256, sha3_512 } from '@noble/hashes/sha3';
+
+export interface RegisteredHasher {
+  name: string;
+  code: number;
+  hasher: MultihashHasher;
+}
+
+export class HasherRegistry {
+  private static readonly BUILTINS: MultihashHasher[] = [
+    sha256,
+    sha512,
+    identity,
+    from({ name: 'blake2b-256', code: 0xb220, encode: data => blake2b(data, { dkLen: 32 }) }),
+    from({ name: 'blake2s-256', code: 0xb260, encode: data => blake2s(data) }),
+    from({ name: 'blake3', code: 0x1e, encode: data => blake3(data) }),
+    from({ name: 'sha3-256', code: 0x16, encode: data => sha3_256(data) }),
+    from({ name: 'sha3-512', code: 0x14, encode: data => sha3_512(data) }),
+    from({ name: 'keccak-256', code: 0x1b, encode: data => keccak_256(data) })
+  ];
+  private static byName = new Map<string, RegisteredHasher>(
+    HasherRegistry.BUILTINS.map(hasher => [hasher.name, { name: hasher.name, code: hasher.code, hasher }])
+  );
+  private static byCode = new Map<number, RegisteredHasher>(
+    Array.from(HasherRegistry.byName.values(), entry => [entry.code, entry])
+  );
+  private static listeners = new Set<(entry: RegisteredHasher) => void>();
+
+  static register(hasher: MultihashHasher, options: { replace?: boolean } = {}): RegisteredHasher {
+    if (!hasher.name || !Number.isInteger(hasher.code) || hasher.code < 0) {
+      throw new Error('Hasher must have a name and a non-negative integer multihash code');
+    }
+
+    const sameName = this.byName.get(hasher.name);
+    const sameCode = this.byCode.get(hasher.code);
+    if (sameName && sameName === sameCode && sameName.hasher === hasher) {
+      return sameName;
+    }
+
+    const conflict = sameName ?? sameCode;
+    if (conflict && !options.replace) {
+      throw new Error(
+        `Hasher ${hasher.name} (0x${hasher.code.toString(16)}) conflicts with registered ` +
+        `${conflict.name} (0x${conflict.code.toString(16)})`
+      );
+    }
+
+    for (const entry of [sameName, sameCode]) {
+      if (entry) {
+        this.byName.delete(entry.name);
+        this.byCode.delete(entry.code);
+      }
+    }
+
+    const entry: RegisteredHasher = { name: hasher.name, code: hasher.code, hasher };
+    this.byName.set(entry.name, entry);
+    this.byCode.set(entry.code, entry);
+    this.listeners.forEach(listener => listener(entry));
+    return entry;
+  }
+
+  // Lets a running Helia node pick up hashers registered after it was created
+  static onRegister(listener: (entry: RegisteredHasher) => void): void {
+    this.listeners.add(listener);
+  }
+
+  static offRegister(listener: (entry: RegisteredHasher) => void): void {
+    this.listeners.delete(listener);
+  }
+
+  static get(name: string): RegisteredHasher {
+    const entry = this.byName.get(name);
+    if (!entry) {
+      throw new Error(`Unsupported hasher: ${name}`);
+    }
+    return entry;
+  }
+
+  static getByCode(code: number): RegisteredHasher | undefined {
+    return this.byCode.get(code);
+  }
+
+  static has(name: string): boolean {
+    return this.byName.has(name);
+  }
+
+  static getName(code: number): string | undefined {
+    return this.byCode.get(code)?.name;
+  }
+
+  static list(): string[] {
+    return Array.from(this.byName.keys());
+  }
+
+  static hashers(): MultihashHasher[] {
+    return Array.from(this.byCode.values(), entry => entry.hasher);
+  }
+
+  static async digest(name: string, data: Uint8Array): Promise<Uint8Array> {
+    return (await this.get(name).hasher.digest(data)).digest;
+  }
+  // Throws when the CID uses a hash function that is not registered
+  static async verify(cid: CID, bytes: Uint8Array): Promise<boolean> {
+    const entry = this.byCode.get(cid.multihash.code);
+    if (!entry) {
+      throw new Error(`Unsupported hash function 0x${cid.multihash.code.toString(16)}`);
+    }
+    const { digest } = await entry.hasher.digest(bytes);
+    const expected = cid.multihash.digest;
+    return digest.length === expected.length && digest.every((byte, i) => byte === expected[i]);
+  }
+}
\ No newline at end of file
@@ -42,9 +42,24 @@ export { FileOperations } from './file-operations';
 export { PinningManager } from './pinning-manager';
 export { ConfigManager } from './config-manager';
 export { StreamUtils } from './stream-utils';
+export { StreamEncryption } from './stream-encryption';
+export { VdicHttpClient } from './vdic-http-client';
+export { VerifiableCredentials, KeyDIDResolver, InMemoryRevocationRegistry } from './credentials';
+export { AccessPolicyEngine, FixtureAssetSource } from './access-policy';
+export { KeyManager } from './key-management';
+export { MerkleProofs } from './merkle-proof';
+export { ContentChunker } from './content-chunker';
+export { HasherRegistry } from './hasher-registry';
+export { DagLayouts } from './dag-layout';
+export { PersistentStorage } from './persistent-storage';
+export { ReplicationEngine } from './replication-engine';
+export { PinHealthAuditor } from './pin-auditor';
+export { DataPlacement } from './data-placement';
 export { ValidationUtils } from './validation-utils';
 export { Logger } from './logger';
 export { CARHandler } from './car-handler';
+export { TrustlessRetrieval } from './trustless-retrieval';
+export { UploadSessions } from './upload-session';
 export { SearchFilter } from './search-filter';
 export { PerformanceMonitor } from './performance-monitor';
 export { ErrorHandler } from './error-handler';
@@ -162,6 +177,7 @@ export class IPFSClientSDK {
     options: {
       encrypt?: boolean;
       shard?: boolean;
+      holderSecret?: string;
       onProgress?: (message: string) => void;
     } = {}
   ) {
@@ -183,7 +199,11 @@ export class IPFSClientSDK {
       file,
       config.encryptionConfig,
       config.shardingConfig,
-      options.onProgress
+      options.onProgress,
+      undefined,
+      undefined,
+      undefined,
+      options.holderSecret
     );
   }
 
@@ -191,6 +211,7 @@ export class IPFSClientSDK {
     cid: string,
     options: {
       decrypt?: boolean;
+      holderSecret?: string;
       onProgress?: (message: string) => void;
     } = {}
   ) {
@@ -208,7 +229,9 @@ export class IPFSClientSDK {
     return await FileOperations.downloadFile(
       item,
       config.encryptionConfig,
-      options.onProgress
+      options.onProgress,
+      undefined,
+      options.holderSecret
     );
   }
 
@@ -1,3 +1,9 @@
+import { AccessPolicy } from './access-policy';
+import { CIDOptions } from './cid-options';
+import { NodeStorageConfig } from './persistent-storage';
+import { AssetKeyReference, WrappedContentKey } from './key-management';
+import { ItemReplication } from './replication-engine';
+
 export interface PinningService {
   id: string;
   name: string;
@@ -6,6 +12,8 @@ export interface PinningService {
   type: 'ipfs-pinning-service' | 'custom';
   verified: boolean;
   enabled: boolean;
+  region?: string;
+  gateway?: string;
 }
 
 export interface DatastoreItem {
@@ -20,16 +28,25 @@ export interface DatastoreItem {
   sharded: boolean;
   shardCount?: number;
   encryptionKey?: string;
+  encryptionFormat?: 'single' | 'segmented';
+  encryptionSegmentSize?: number;
+  wrappedKey?: WrappedContentKey;
   pinned: string[];
+  replication?: ItemReplication;
   verified: boolean;
   downloadCount: number;
+  accessPolicy?: AccessPolicy;
   metadata?: Record<string, any>;
+  directory?: boolean;
+  parentCid?: string;
+  path?: string;
 }
 
 export interface ShardingConfig {
   enabled: boolean;
   chunkSize: number;
   maxShards: number;
+  chunker?: 'fixed' | 'fastcdc';
 }
 
 export interface EncryptionConfig {
@@ -38,12 +55,18 @@ export interface EncryptionConfig {
   keyLength: 128 | 256;
   generateKey: boolean;
   customKey?: string;
+  streaming?: boolean;
+  segmentSize?: number;
+  keyDerivation?: 'random' | 'asset_based';
+  keyAsset?: AssetKeyReference;
 }
 
 export interface NodeConfig {
   bootstrapPeers: string[];
   enableDiscovery: boolean;
   maxConnections: number;
+  storage?: NodeStorageConfig;
+  gateways?: string[];
 }
 
 export interface AppSettings {
@@ -61,6 +84,8 @@ export interface PersistentConfig {
   encryptionConfig: EncryptionConfig;
   nodeConfig: NodeConfig;
   appSettings: AppSettings;
+  replication?: VdicReplication;
+  cidOptions?: CIDOptions;
 }
 
 export interface HeliaNode {
@@ -78,6 +103,75 @@ export interface FileProcessingResult {
   metadata?: Record<string, any>;
 }
 
+export type VdicEncryption = 'none' | 'aes-256-gcm' | 'chacha20-poly1305' | 'custom_encryption';
+
+export type VdicAccessControlType = 'public' | 'token_gated' | 'vc_required' | 'custom_logic';
+
+export type VdicVerificationLevel = 'basic_integrity' | 'merkle_proofs' | 'zk_proofs' | 'full_verification';
+
+export type VdicActorRole = 'leader' | 'academic' | 'enterprise' | 'community' | 'dapp';
+
+export interface VdicAccessControl {
+  type: VdicAccessControlType;
+  required_assets?: string[];
+  mode?: 'any' | 'all';
+}
+
+export interface VdicReplication {
+  min_nodes?: number;
+  min_regions?: number;
+  preferred_regions?: string[];
+}
+
+export interface VdicContentMetadata {
+  name?: string;
+  encryption?: VdicEncryption;
+  access_control?: VdicAccessControl;
+  replication?: VdicReplication;
+}
+
+export interface VdicStorageResponse {
+  cid: string;
+  size: number;
+  nodes_storing: number;
+  verification_proof: string;
+}
+
+export interface VdicVerificationResponse {
+  cid: string;
+  verified: boolean;
+  level: VdicVerificationLevel;
+  size: number;
+  verification_proof: string;
+  shard_index?: number;
+  shard_proof?: string;
+  checked_at: string;
+}
+
+export interface VdicActor {
+  id: string;
+  did: string;
+  name: string;
+  role: VdicActorRole;
+  regions?: string[];
+  wallet?: string;
+  permissions: string[];
+}
+
+export interface VdicAuthRequest {
+  credential: string;
+}
+
+export interface VdicAuthResponse {
+  session_token: string;
+  actor: VdicActor;
+  expires_at: string;
+}
+
+export interface VdicErrorResponse {
+  error: string;
+}
+
 export interface EncryptionResult {
   encrypted: Uint8Array;
   iv: Uint8Array;
@@ -1,11 +1,32 @@
 import { CID } from 'multiformats/cid';
 import { CIDOptions, CIDOptionsManager } from './cid-options';
+import drain from 'it-drain';
+import { GarbageCollectionResult, NodeStorageConfig, PersistentStorage, StorageQuota } from './persistent-storage';
+import { ContentChunker, DedupStats } from './content-chunker';
+import { HasherRegistry, RegisteredHasher } from './hasher-registry';
+import { DagLayouts, DagShape } from './dag-layout';
 
 export interface IPFSAddResult {
   cid: string;
   size: number;
   version: 0 | 1;
   hasher: string;
+  blocks?: number;
+  existingBlocks?: number;
+  layout?: string;
+  dag?: DagShape;
+}
+
+export interface IPFSDirectoryEntry {
+  path: string;
+  cid: string;
+  size: number;
+  type: 'file' | 'directory';
+}
+
+export interface IPFSDirectoryInput {
+  path: string;
+  content: Uint8Array | AsyncIterable<Uint8Array>;
 }
 
 export interface IPFSAddOptions {
@@ -16,12 +37,14 @@ export interface IPFSAddOptions {
   rawLeaves?: boolean;
   chunker?: any;
   layout?: any;
+  layoutName?: string;
 }
 
 export class IPFSManager {
   private static node: any;
   private static libraries: any;
   private static currentCIDOptions: CIDOptions = {};
+  private static hasherListener: ((entry: RegisteredHasher) => void) | null = null;
 
   static async loadLibraries(): Promise<boolean> {
     try {
@@ -31,14 +54,16 @@ export class IPFSManager {
         { MemoryBlockstore },
         { MemoryDatastore },
         { CID },
-        { concat }
+        { concat },
+        { multiaddr }
       ] = await Promise.all([
         import('helia'),
         import('@helia/unixfs'),
         import('blockstore-core/memory'),
         import('datastore-core/memory'),
         import('multiformats/cid'),
-        import('uint8arrays/concat')
+        import('uint8arrays/concat'),
+        import('@multiformats/multiaddr')
       ]);
 
       this.libraries = {
@@ -47,7 +72,8 @@ export class IPFSManager {
         MemoryBlockstore,
         MemoryDatastore,
         CID,
-        concat
+        concat,
+        multiaddr
       };
 
       return true;
@@ -65,16 +91,28 @@ export class IPFSManager {
     this.currentCIDOptions = CIDOptionsManager.createCIDOptions(cidOptions);
 
     try {
-      const blockstore = new this.libraries.MemoryBlockstore();
-      const datastore = new this.libraries.MemoryDatastore();
+      const { storage, ...heliaConfig } = config;
+      const storageConfig: NodeStorageConfig = storage ?? { type: 'memory' };
+      const stores = config.blockstore
+        ? { blockstore: config.blockstore, datastore: config.datastore, persistent: false, close: async () => {} }
+        : await PersistentStorage.createStores(storageConfig, () => ({
+          blockstore: new this.libraries.MemoryBlockstore(),
+          datastore: new this.libraries.MemoryDatastore()
+        }));
+
+      const { blockstore, datastore } = stores;
 
       const nodeConfig = {
+        hashers: HasherRegistry.hashers(),
+        ...heliaConfig,
         blockstore,
-        datastore,
-        ...config
+        datastore
       };
 
       const helia = await this.libraries.createHelia(nodeConfig);
+      // Helia 4 looks hashers up in this table when it verifies blocks fetched from the network
+      this.hasherListener = entry => { helia.hashers[entry.code] = entry.hasher; };
+      HasherRegistry.onRegister(this.hasherListener);
       const fs = this.libraries.unixfs(helia);
 
       this.node = {
@@ -82,7 +120,10 @@ export class IPFSManager {
         fs,
         libp2p: helia.libp2p,
         blockstore,
-        datastore
+        datastore,
+        persistent: stores.persistent,
+        storageConfig,
+        closeStores: stores.close
       };
 
       return this.node;
@@ -130,7 +171,8 @@ export class IPFSManager {
   static async addFile(
     name: string, 
     data: Uint8Array, 
-    cidOptions?: CIDOptions
+    cidOptions?: CIDOptions,
+    onBytesWritten?: (bytes: number) => void
   ): Promise<IPFSAddResult> {
     if (!this.node) {
       throw new Error('IPFS node not created. Call createNode() first.');
@@ -138,15 +180,29 @@ export class IPFSManager {
 
     try {
       const options = this.buildAddOptions(cidOptions);
-      const fs = this.node.fs;
+      const { fs, stats } = this.createCountingFs();
       
-      const cid = await fs.addBytes(data, options);
+      // Leaf writes include UnixFS framing, so the count is capped at the payload size
+      const cid = await fs.addBytes(data, {
+        ...options,
+        onProgress: onBytesWritten && ((event: { type: string; detail: any }) => {
+          if (event.type === 'unixfs:importer:progress:file:write') {
+            onBytesWritten(Math.min(Number(event.detail.bytesWritten), data.length));
+          }
+        })
+      });
+      if (options.pin) {
+        await this.pin(cid.toString());
+      }
       
       return {
         cid: cid.toString(),
         size: data.length,
         version: cid.version as 0 | 1,
-        hasher: this.getHasherName(cid.multihash.code)
+        hasher: this.getHasherName(cid.multihash.code),
+        ...stats,
+        layout: options.layoutName,
+        dag: await this.inspectDag(cid)
       };
     } catch (error) {
       throw new Error(`Failed to add file to IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -163,22 +219,140 @@ export class IPFSManager {
 
     try {
       const options = this.buildAddOptions(cidOptions);
-      const fs = this.node.fs;
+      const { fs, stats } = this.createCountingFs();
       
       const cid = await fs.addBytes(data, options);
+      if (options.pin) {
+        await this.pin(cid.toString());
+      }
       
       return {
         cid: cid.toString(),
         size: data.length,
         version: cid.version as 0 | 1,
-        hasher: this.getHasherName(cid.multihash.code)
+        hasher: this.getHasherName(cid.multihash.code),
+        ...stats,
+        layout: options.layoutName,
+        dag: await this.inspectDag(cid)
       };
     } catch (error) {
       throw new Error(`Failed to add bytes to IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  static async getFile(cid: string): Promise<AsyncIterable<Uint8Array>> {
+  static async addByteStream(
+    stream: AsyncIterable<Uint8Array>,
+    cidOptions?: CIDOptions
+  ): Promise<IPFSAddResult> {
+    if (!this.node) {
+      throw new Error('IPFS node not created. Call createNode() first.');
+    }
+
+    try {
+      const options = this.buildAddOptions(cidOptions);
+      const { fs, stats } = this.createCountingFs();
+
+      const cid = await fs.addByteStream(stream, options);
+      if (options.pin) {
+        await this.pin(cid.toString());
+      }
+      const stat = await fs.stat(cid);
+
+      return {
+        cid: cid.toString(),
+        size: Number(stat.fileSize),
+        version: cid.version as 0 | 1,
+        hasher: this.getHasherName(cid.multihash.code),
+        ...stats,
+        layout: options.layoutName,
+        dag: await this.inspectDag(cid)
+      };
+    } catch (error) {
+      throw new Error(`Failed to add stream to IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Entries are wrapped in one UnixFS directory; the root is pinned recursively so children need no pins of their own
+  static async addDirectory(
+    entries: Iterable<IPFSDirectoryInput> | AsyncIterable<IPFSDirectoryInput>,
+    cidOptions?: CIDOptions,
+    onBytesWritten?: (bytes: number) => void
+  ): Promise<IPFSAddResult & { entries: IPFSDirectoryEntry[] }> {
+    if (!this.node) {
+      throw new Error('IPFS node not created. Call createNode() first.');
+    }
+
+    try {
+      const options = this.buildAddOptions(cidOptions);
+      const { fs, stats } = this.createCountingFs();
+      const written = new Map<string, number>();
+      const results: IPFSDirectoryEntry[] = [];
+
+      for await (const entry of fs.addAll(entries, {
+        ...options,
+        wrapWithDirectory: true,
+        // Files are read as the importer reaches them, so only one is in memory at a time
+        fileImportConcurrency: 1,
+        onProgress: onBytesWritten && ((event: { type: string; detail: any }) => {
+          if (event.type === 'unixfs:importer:progress:file:write') {
+            written.set(event.detail.path, Number(event.detail.bytesWritten));
+            onBytesWritten(Array.from(written.values()).reduce((sum, bytes) => sum + bytes, 0));
+          }
+        })
+      })) {
+        results.push({
+          path: entry.path ?? '',
+          cid: entry.cid.toString(),
+          // entry.size counts DAG bytes; the UnixFS file size is the content length
+          size: Number(entry.unixfs ? entry.unixfs.fileSize() : entry.size),
+          type: entry.unixfs?.type === 'file' || entry.unixfs?.type === 'raw' || !entry.unixfs ? 'file' : 'directory'
+        });
+      }
+
+      const root = results.find(entry => entry.path === '');
+      if (!root) {
+        throw new Error('Importer did not produce a directory root');
+      }
+      if (options.pin) {
+        await this.pin(root.cid);
+      }
+
+      const rootCid = this.libraries.CID.parse(root.cid);
+      return {
+        cid: root.cid,
+        size: results.reduce((sum, entry) => sum + (entry.type === 'file' ? entry.size : 0), 0),
+        version: rootCid.version as 0 | 1,
+        hasher: this.getHasherName(rootCid.multihash.code),
+        ...stats,
+        layout: options.layoutName,
+        entries: results.filter(entry => entry.path !== '')
+      };
+    } catch (error) {
+      throw new Error(`Failed to add directory to IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async resolvePath(root: string, path: string): Promise<string> {
+    if (!this.node) {
+      throw new Error('IPFS node not created. Call createNode() first.');
+    }
+
+    const relative = path.split('/').filter(Boolean).join('/');
+    if (!relative) {
+      return root;
+    }
+    try {
+      const stat = await this.node.fs.stat(this.libraries.CID.parse(root), { path: relative });
+      return stat.cid.toString();
+    } catch (error) {
+      throw new Error(`Failed to resolve /${relative} in ${root}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async getFile(
+    cid: string,
+    options: { offset?: number; length?: number; offline?: boolean } = {}
+  ): Promise<AsyncIterable<Uint8Array>> {
     if (!this.node) {
       throw new Error('IPFS node not created. Call createNode() first.');
     }
@@ -186,12 +360,44 @@ export class IPFSManager {
     try {
       const cidObj = this.libraries.CID.parse(cid);
       const fs = this.node.fs;
-      return fs.cat(cidObj);
+      return fs.cat(cidObj, options);
     } catch (error) {
       throw new Error(`Failed to get file from IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  static async getBlock(cid: string | CID): Promise<Uint8Array> {
+    if (!this.node) {
+      throw new Error('IPFS node not created. Call createNode() first.');
+    }
+
+    try {
+      const cidObj = typeof cid === 'string' ? this.libraries.CID.parse(cid) : cid;
+      return await this.node.helia.blockstore.get(cidObj);
+    } catch (error) {
+      throw new Error(`Failed to get block from IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async hasBlock(cid: CID): Promise<boolean> {
+    if (!this.node) {
+      throw new Error('IPFS node not created. Call createNode() first.');
+    }
+    return await this.node.helia.blockstore.has(cid);
+  }
+
+  static async putBlock(cid: CID, bytes: Uint8Array): Promise<void> {
+    if (!this.node) {
+      throw new Error('IPFS node not created. Call createNode() first.');
+    }
+
+    try {
+      await this.node.helia.blockstore.put(cid, bytes);
+    } catch (error) {
+      throw new Error(`Failed to put block into IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   static async pin(cid: string): Promise<void> {
     if (!this.node) {
       throw new Error('IPFS node not created. Call createNode() first.');
@@ -199,7 +405,10 @@ export class IPFSManager {
 
     try {
       const cidObj = this.libraries.CID.parse(cid);
-      await this.node.helia.pins.add(cidObj);
+      if (await this.node.helia.pins.isPinned(cidObj)) {
+        return;
+      }
+      await drain(this.node.helia.pins.add(cidObj));
     } catch (error) {
       throw new Error(`Failed to pin CID: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -212,16 +421,51 @@ export class IPFSManager {
 
     try {
       const cidObj = this.libraries.CID.parse(cid);
-      await this.node.helia.pins.rm(cidObj);
+      if (!(await this.node.helia.pins.isPinned(cidObj))) {
+        return;
+      }
+      await drain(this.node.helia.pins.rm(cidObj));
     } catch (error) {
       throw new Error(`Failed to unpin CID: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  static isPersistent(): boolean {
+    return !!this.node?.persistent;
+  }
+
+  static async getStorageQuota(): Promise<StorageQuota | null> {
+    return await PersistentStorage.getQuota();
+  }
+
+  static async collectGarbage(retain: string[] = []): Promise<GarbageCollectionResult> {
+    if (!this.node) {
+      throw new Error('IPFS node not created. Call createNode() first.');
+    }
+    return await PersistentStorage.collectGarbage(this.node.helia, retain);
+  }
+
+  static async maintainStorage(retain: string[] = []): Promise<GarbageCollectionResult | null> {
+    if (!this.node?.persistent) {
+      return null;
+    }
+
+    const quota = await PersistentStorage.getQuota();
+    if (!this.node.storageConfig.gcOnStart && !PersistentStorage.isOverThreshold(quota, this.node.storageConfig)) {
+      return null;
+    }
+    return await this.collectGarbage(retain);
+  }
+
   static async stop(): Promise<void> {
     if (this.node) {
       try {
+        if (this.hasherListener) {
+          HasherRegistry.offRegister(this.hasherListener);
+          this.hasherListener = null;
+        }
         await this.node.helia.stop();
+        await this.node.closeStores?.();
         this.node = null;
       } catch (error) {
         throw new Error(`Failed to stop IPFS node: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -240,6 +484,33 @@ export class IPFSManager {
     return this.node.libp2p.getPeers().map((peer: any) => peer.toString());
   }
 
+  static getMultiaddrs(): string[] {
+    if (!this.node) {
+      return [];
+    }
+    return this.node.libp2p.getMultiaddrs().map((address: any) => address.toString());
+  }
+
+  static async connectToPeers(addresses: string[]): Promise<{ connected: string[]; failed: string[] }> {
+    if (!this.node) {
+      throw new Error('IPFS node not created. Call createNode() first.');
+    }
+
+    const connected: string[] = [];
+    const failed: string[] = [];
+
+    await Promise.all(addresses.map(async (address) => {
+      try {
+        await this.node.libp2p.dial(this.libraries.multiaddr(address));
+        connected.push(address);
+      } catch {
+        failed.push(address);
+      }
+    }));
+
+    return { connected, failed };
+  }
+
   static async initialize(client: any): Promise<void> {
     this.node = client;
   }
@@ -261,22 +532,29 @@ export class IPFSManager {
     return {
       ...defaultOptions,
       version: validatedOptions.version,
-      hasher: validatedOptions.hasher,
+      hasher: HasherRegistry.get(validatedOptions.hasher.name).hasher,
       rawLeaves: validatedOptions.rawLeaves,
-      chunker: validatedOptions.chunker,
-      layout: validatedOptions.layout
+      chunker: ContentChunker.createChunker(validatedOptions.chunker),
+      layout: DagLayouts.createLayout(validatedOptions.layout),
+      layoutName: validatedOptions.layout.name
     };
   }
 
+  static async inspectDag(cid: string | CID): Promise<DagShape> {
+    if (!this.node) {
+      throw new Error('IPFS node not created. Call createNode() first.');
+    }
+    return await DagLayouts.inspect(blockCid => this.node.helia.blockstore.get(blockCid), cid);
+  }
+
+  // A per-upload UnixFS view over the node's blockstore counts blocks that were already stored
+  private static createCountingFs(): { fs: any; stats: DedupStats } {
+    const counting = ContentChunker.countingBlockstore(this.node.helia.blockstore);
+    return { fs: this.libraries.unixfs({ blockstore: counting.blockstore }), stats: counting.stats };
+  }
+
   private static getHasherName(code: number): string {
-    const hasherMap: { [key: number]: string } = {
-      0x12: 'sha2-256',
-      0x13: 'sha2-512',
-      0xb220: 'blake2b-256',
-      0xb260: 'blake2s-256'
-    };
-    
-    return hasherMap[code] || 'unknown';
+    return HasherRegistry.getName(code) || 'unknown';
   }
 
   static async convertCID(cid: string, targetVersion: 0 | 1): Promise<string> {
@@ -0,0 +1,144 @@
+import { CryptoUtils } from './crypto-utils';
+import { AccessPolicyEngine, AssetSource } from './access-policy';
+
+export interface AssetKeyReference {
+  policyId: string;
+  assetName: string;
+}
+
+export interface WrappedContentKey {
+  version: number;
+  kdf: 'HKDF-SHA-256';
+  wrapAlgorithm: 'AES-KW';
+  contentAlgorithm: 'AES-GCM' | 'AES-CTR';
+  policyId: string;
+  assetName: string;
+  salt: string;
+  wrappedKey: string;
+}
+
+export class KeyManager {
+  static readonly VERSION = 1;
+  private static readonly SALT_SIZE = 16;
+  private static readonly INFO_PREFIX = 'vdic/asset-kek/v1/';
+
+  static async deriveKeyEncryptionKey(
+    asset: AssetKeyReference,
+    holderSecret: string | Uint8Array,
+    salt: Uint8Array
+  ): Promise<CryptoKey> {
+    const normalized = this.normalizeAsset(asset);
+    const secretBytes = typeof holderSecret === 'string' ? new TextEncoder().encode(holderSecret) : holderSecret;
+    if (secretBytes.length === 0) {
+      throw new Error('Holder secret must not be empty');
+    }
+
+    const baseKey = await crypto.subtle.importKey('raw', new Uint8Array(secretBytes), 'HKDF', false, ['deriveKey']);
+
+    return await crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(salt),
+        info: new TextEncoder().encode(`${this.INFO_PREFIX}${normalized.policyId}.${normalized.assetName}`)
+      },
+      baseKey,
+      { name: 'AES-KW', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  }
+
+  static async wrapContentKey(
+    contentKey: CryptoKey | string,
+    asset: AssetKeyReference,
+    holderSecret: string | Uint8Array,
+    contentAlgorithm: 'AES-GCM' | 'AES-CTR' = 'AES-GCM'
+  ): Promise<WrappedContentKey> {
+    const key = typeof contentKey === 'string'
+      ? await CryptoUtils.importKey(contentKey, contentAlgorithm)
+      : contentKey;
+
+    const normalized = this.normalizeAsset(asset);
+    const salt = crypto.getRandomValues(new Uint8Array(this.SALT_SIZE));
+    const keyEncryptionKey = await this.deriveKeyEncryptionKey(normalized, holderSecret, salt);
+    const wrapped = await crypto.subtle.wrapKey('raw', key, keyEncryptionKey, 'AES-KW');
+
+    return {
+      version: this.VERSION,
+      kdf: 'HKDF-SHA-256',
+      wrapAlgorithm: 'AES-KW',
+      contentAlgorithm,
+      policyId: normalized.policyId,
+      assetName: normalized.assetName,
+      salt: CryptoUtils.uint8ArrayToBase64(salt),
+      wrappedKey: CryptoUtils.uint8ArrayToBase64(new Uint8Array(wrapped))
+    };
+  }
+
+  static async unwrapContentKey(wrapped: WrappedContentKey, holderSecret: string | Uint8Array): Promise<CryptoKey> {
+    if (wrapped.version !== this.VERSION) {
+      throw new Error(`Unsupported wrapped key version: ${wrapped.version}`);
+    }
+
+    const salt = CryptoUtils.base64ToUint8Array(wrapped.salt);
+    const keyEncryptionKey = await this.deriveKeyEncryptionKey(wrapped, holderSecret, salt);
+
+    try {
+      return await crypto.subtle.unwrapKey(
+        'raw',
+        new Uint8Array(CryptoUtils.base64ToUint8Array(wrapped.wrappedKey)),
+        keyEncryptionKey,
+        'AES-KW',
+        { name: wrapped.contentAlgorithm },
+        true,
+        ['encrypt', 'decrypt']
+      );
+    } catch {
+      throw new Error('Failed to unwrap content key: holder secret or asset does not match');
+    }
+  }
+
+  static async unwrapContentKeyString(wrapped: WrappedContentKey, holderSecret: string | Uint8Array): Promise<string> {
+    return await CryptoUtils.exportKey(await this.unwrapContentKey(wrapped, holderSecret));
+  }
+
+  static async unwrapForWallet(
+    wrapped: WrappedContentKey,
+    holderSecret: string | Uint8Array,
+    walletAddress: string,
+    source: AssetSource
+  ): Promise<CryptoKey> {
+    const fingerprint = await AccessPolicyEngine.getFingerprint(wrapped.policyId, wrapped.assetName);
+    const policy = AccessPolicyEngine.createPolicy([{ fingerprint }]);
+    const evaluation = await AccessPolicyEngine.evaluateForWallet(policy, walletAddress, source);
+    if (!evaluation.allowed) {
+      throw new Error(evaluation.error || `Wallet does not hold ${wrapped.policyId}.${wrapped.assetName}`);
+    }
+    return await this.unwrapContentKey(wrapped, holderSecret);
+  }
+
+  static async rewrapContentKey(
+    wrapped: WrappedContentKey,
+    holderSecret: string | Uint8Array,
+    newHolderSecret: string | Uint8Array,
+    newAsset: AssetKeyReference = wrapped
+  ): Promise<WrappedContentKey> {
+    const contentKey = await this.unwrapContentKey(wrapped, holderSecret);
+    return await this.wrapContentKey(contentKey, newAsset, newHolderSecret, wrapped.contentAlgorithm);
+  }
+
+  private static normalizeAsset(asset: AssetKeyReference): AssetKeyReference {
+    const policyId = asset.policyId.toLowerCase();
+    const assetName = (asset.assetName || '').toLowerCase();
+
+    if (!/^[0-9a-f]{56}$/.test(policyId)) {
+      throw new Error(`Invalid policy ID: ${asset.policyId}`);
+    }
+    if (!/^([0-9a-f]{2}){0,32}$/.test(assetName)) {
+      throw new Error(`Invalid asset name (expected hex): ${asset.assetName}`);
+    }
+
+    return { policyId, assetName };
+  }
+}
\ No newline at end of file
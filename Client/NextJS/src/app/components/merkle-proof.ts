@@ -0,0 +1,332 @@
+// Mirrored in Client/NextJS/src/app/components and Client/Vite/src/components; edit both copies together
+import { CID } from 'multiformats/cid';
+import { sha256 } from 'multiformats/hashes/sha2';
+import * as dagPB from '@ipld/dag-pb';
+import * as dagCBOR from '@ipld/dag-cbor';
+import { UnixFS } from 'ipfs-unixfs';
+import { HasherRegistry } from './hasher-registry';
+
+export type BlockGetter = (cid: CID) => Promise<Uint8Array>;
+
+export interface DagPathProof {
+  type: 'unixfs-path';
+  root: string;
+  target: string;
+  offset: number;
+  blocks: Uint8Array[];
+  leaf: Uint8Array;
+}
+
+export interface ShardRootProof {
+  type: 'shard-root';
+  root: string;
+  shard: string;
+  index: number;
+  shardCount: number;
+  siblings: Uint8Array[];
+}
+
+export type MerkleProof = DagPathProof | ShardRootProof;
+
+export interface ProofVerificationResult {
+  valid: boolean;
+  error?: string;
+}
+
+export class MerkleProofs {
+  static readonly VERSION = 1;
+  private static readonly MAX_DEPTH = 64;
+  private static readonly LEAF_PREFIX = 0x00;
+  private static readonly NODE_PREFIX = 0x01;
+
+  static async buildDagPathProof(
+    getBlock: BlockGetter,
+    root: string,
+    offset: number = 0
+  ): Promise<DagPathProof> {
+    const blocks: Uint8Array[] = [];
+    let current = CID.parse(root);
+    let remaining = offset;
+
+    for (let depth = 0; depth < this.MAX_DEPTH; depth++) {
+      const bytes = await getBlock(current);
+
+      if (current.code !== dagPB.code) {
+        return { type: 'unixfs-path', root, target: current.toString(), offset, blocks, leaf: bytes };
+      }
+
+      const node = dagPB.decode(bytes);
+      if (node.Links.length === 0) {
+        return { type: 'unixfs-path', root, target: current.toString(), offset, blocks, leaf: bytes };
+      }
+
+      blocks.push(bytes);
+      const next = this.selectChild(node, remaining);
+      remaining = next.remaining;
+      current = next.cid;
+    }
+
+    throw new Error(`DAG is deeper than ${this.MAX_DEPTH} levels`);
+  }
+
+  static async computeShardRoot(shardCids: string[]): Promise<string> {
+    if (shardCids.length === 0) {
+      throw new Error('Cannot compute a Merkle root over zero shards');
+    }
+
+    let level = await Promise.all(shardCids.map(cid => this.hashLeaf(CID.parse(cid))));
+    while (level.length > 1) {
+      level = await this.hashLevel(level);
+    }
+    return this.toHex(level[0]);
+  }
+
+  static async buildShardProof(shardCids: string[], index: number): Promise<ShardRootProof> {
+    if (index < 0 || index >= shardCids.length) {
+      throw new Error(`Shard index ${index} out of range`);
+    }
+
+    const siblings: Uint8Array[] = [];
+    let level = await Promise.all(shardCids.map(cid => this.hashLeaf(CID.parse(cid))));
+    let position = index;
+
+    while (level.length > 1) {
+      const siblingIndex = position % 2 === 0 ? position + 1 : position - 1;
+      if (siblingIndex < level.length) {
+        siblings.push(level[siblingIndex]);
+      }
+      level = await this.hashLevel(level);
+      position = Math.floor(position / 2);
+    }
+
+    return {
+      type: 'shard-root',
+      root: this.toHex(level[0]),
+      shard: shardCids[index],
+      index,
+      shardCount: shardCids.length,
+      siblings
+    };
+  }
+
+  static async verify(proof: MerkleProof, expectedRoot?: string): Promise<ProofVerificationResult> {
+    try {
+      if (expectedRoot && proof.root !== expectedRoot) {
+        return { valid: false, error: `Proof is for ${proof.root}, expected ${expectedRoot}` };
+      }
+      return proof.type === 'unixfs-path'
+        ? await this.verifyDagPath(proof)
+        : await this.verifyShardProof(proof);
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : 'Invalid proof' };
+    }
+  }
+
+  static serialize(proof: MerkleProof): Uint8Array {
+    if (proof.type === 'unixfs-path') {
+      const encoded: Record<string, any> = {
+        v: this.VERSION,
+        t: 'p',
+        r: CID.parse(proof.root),
+        g: CID.parse(proof.target),
+        o: proof.offset,
+        b: proof.blocks,
+        l: proof.leaf
+      };
+      return dagCBOR.encode(encoded);
+    }
+
+    return dagCBOR.encode({
+      v: this.VERSION,
+      t: 's',
+      r: this.fromHex(proof.root),
+      c: CID.parse(proof.shard),
+      i: proof.index,
+      n: proof.shardCount,
+      s: proof.siblings
+    });
+  }
+
+  static deserialize(bytes: Uint8Array): MerkleProof {
+    const decoded = dagCBOR.decode<Record<string, any>>(bytes);
+    if (decoded.v !== this.VERSION) {
+      throw new Error(`Unsupported proof version: ${decoded.v}`);
+    }
+
+    if (decoded.t === 'p') {
+      if (!(decoded.l instanceof Uint8Array)) {
+        throw new Error('Path proof is missing its leaf block');
+      }
+      return {
+        type: 'unixfs-path',
+        root: CID.asCID(decoded.r)!.toString(),
+        target: CID.asCID(decoded.g)!.toString(),
+        offset: decoded.o,
+        blocks: decoded.b,
+        leaf: decoded.l
+      };
+    }
+    if (decoded.t === 's') {
+      return {
+        type: 'shard-root',
+        root: this.toHex(decoded.r),
+        shard: CID.asCID(decoded.c)!.toString(),
+        index: decoded.i,
+        shardCount: decoded.n,
+        siblings: decoded.s
+      };
+    }
+    throw new Error(`Unknown proof type: ${decoded.t}`);
+  }
+
+  // File bytes carried by a verified proof's leaf: raw leaves as-is, dag-pb leaves unwrapped from their UnixFS data
+  static leafData(proof: DagPathProof): Uint8Array {
+    const target = CID.parse(proof.target);
+    if (target.code !== dagPB.code) {
+      return proof.leaf;
+    }
+    const node = dagPB.decode(proof.leaf);
+    return node.Data ? UnixFS.unmarshal(node.Data).data ?? new Uint8Array(0) : new Uint8Array(0);
+  }
+
+  static toHex(bytes: Uint8Array): string {
+    return Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  static fromHex(hex: string): Uint8Array {
+    const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+    if (clean.length % 2 !== 0 || /[^0-9a-f]/i.test(clean)) {
+      throw new Error('Invalid hex string');
+    }
+    const bytes = new Uint8Array(clean.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+    }
+    return bytes;
+  }
+
+  private static selectChild(node: dagPB.PBNode, offset: number): { cid: CID; remaining: number } {
+    let remaining = offset;
+    let blockSizes: bigint[] = [];
+
+    if (node.Data) {
+      const unixfs = UnixFS.unmarshal(node.Data);
+      remaining -= unixfs.data?.length ?? 0;
+      blockSizes = unixfs.blockSizes;
+    }
+
+    for (let i = 0; i < node.Links.length; i++) {
+      const size = blockSizes[i] !== undefined ? Number(blockSizes[i]) : Number(node.Links[i].Tsize ?? 0);
+      if (remaining < size || i === node.Links.length - 1) {
+        return { cid: node.Links[i].Hash, remaining: Math.max(0, remaining) };
+      }
+      remaining -= size;
+    }
+
+    throw new Error('Node has no links');
+  }
+
+  private static async verifyDagPath(proof: DagPathProof): Promise<ProofVerificationResult> {
+    const target = CID.parse(proof.target);
+    let expected = CID.parse(proof.root);
+
+    if (proof.blocks.length > this.MAX_DEPTH) {
+      return { valid: false, error: 'Proof path is too long' };
+    }
+
+    let remaining = proof.offset;
+
+    for (let i = 0; i < proof.blocks.length; i++) {
+      if (expected.code !== dagPB.code) {
+        return { valid: false, error: `Block ${i} is not a dag-pb node` };
+      }
+      if (!(await HasherRegistry.verify(expected, proof.blocks[i]))) {
+        return { valid: false, error: `Block ${i} does not hash to ${expected.toString()}` };
+      }
+
+      const next = this.selectChild(dagPB.decode(proof.blocks[i]), remaining);
+      remaining = next.remaining;
+      expected = next.cid;
+    }
+
+    if (!expected.equals(target)) {
+      return { valid: false, error: 'Proof path does not lead to the target block at the given offset' };
+    }
+    // Without the leaf a proof whose target is its root would vouch for any CID
+    if (!(proof.leaf instanceof Uint8Array)) {
+      return { valid: false, error: 'Proof is missing the leaf block' };
+    }
+    if (!(await HasherRegistry.verify(target, proof.leaf))) {
+      return { valid: false, error: 'Leaf bytes do not hash to the target CID' };
+    }
+
+    return { valid: true };
+  }
+
+  private static async verifyShardProof(proof: ShardRootProof): Promise<ProofVerificationResult> {
+    if (proof.index < 0 || proof.index >= proof.shardCount) {
+      return { valid: false, error: 'Shard index out of range' };
+    }
+
+    let hash = await this.hashLeaf(CID.parse(proof.shard));
+    let position = proof.index;
+    let levelSize = proof.shardCount;
+    let siblingIndex = 0;
+
+    while (levelSize > 1) {
+      const isRight = position % 2 === 1;
+      const hasSibling = isRight || position + 1 < levelSize;
+
+      if (hasSibling) {
+        const sibling = proof.siblings[siblingIndex++];
+        if (!sibling) {
+          return { valid: false, error: 'Proof is missing sibling hashes' };
+        }
+        hash = isRight ? await this.hashNode(sibling, hash) : await this.hashNode(hash, sibling);
+      }
+
+      position = Math.floor(position / 2);
+      levelSize = Math.ceil(levelSize / 2);
+    }
+
+    if (siblingIndex !== proof.siblings.length) {
+      return { valid: false, error: 'Proof has unexpected extra sibling hashes' };
+    }
+    if (this.toHex(hash) !== proof.root) {
+      return { valid: false, error: 'Shard proof does not reproduce the Merkle root' };
+    }
+    return { valid: true };
+  }
+
+  private static async hashLevel(level: Uint8Array[]): Promise<Uint8Array[]> {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await this.hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    return next;
+  }
+
+  private static async hashLeaf(cid: CID): Promise<Uint8Array> {
+    return this.sha256(this.prefixed(this.LEAF_PREFIX, cid.bytes));
+  }
+
+  private static async hashNode(left: Uint8Array, right: Uint8Array): Promise<Uint8Array> {
+    return this.sha256(this.prefixed(this.NODE_PREFIX, left, right));
+  }
+
+  private static prefixed(prefix: number, ...parts: Uint8Array[]): Uint8Array {
+    const total = parts.reduce((sum, part) => sum + part.length, 1);
+    const bytes = new Uint8Array(total);
+    bytes[0] = prefix;
+    let offset = 1;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return bytes;
+  }
+
+  private static async sha256(data: Uint8Array): Promise<Uint8Array> {
+    return (await sha256.digest(data)).digest;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,262 @@
+import { CID } from 'multiformats/cid';
+import { PinListQuery, PinRequest, PinResponse, PinResults, PinState, PinningManager, TextMatchingStrategy } from './pinning-manager';
+
+export interface MockPinningServiceConfig {
+  accessToken?: string;
+  delegates?: string[];
+  transitionDelay?: number;
+  failCids?: string[];
+}
+
+interface MockPinRecord {
+  requestid: string;
+  created: Date;
+  pin: PinRequest;
+}
+
+export class MockPinningService {
+  private static instance: MockPinningService;
+  private static readonly DEFAULT_LIMIT = 10;
+  private static readonly MATCH_STRATEGIES: TextMatchingStrategy[] = ['exact', 'iexact', 'partial', 'ipartial'];
+  private config: Required<MockPinningServiceConfig>;
+  private pins = new Map<string, MockPinRecord>();
+  private lastCreated = 0;
+
+  constructor(config: MockPinningServiceConfig = {}) {
+    this.config = {
+      accessToken: config.accessToken ?? '',
+      delegates: config.delegates ?? [],
+      transitionDelay: config.transitionDelay ?? 1000,
+      failCids: config.failCids ?? []
+    };
+  }
+
+  static getInstance(): MockPinningService {
+    if (!MockPinningService.instance) {
+      MockPinningService.instance = new MockPinningService({
+        accessToken: process.env.MOCK_PINNING_TOKEN,
+        delegates: process.env.MOCK_PINNING_DELEGATES?.split(',').filter(Boolean),
+        transitionDelay: process.env.MOCK_PINNING_DELAY ? Number(process.env.MOCK_PINNING_DELAY) : undefined
+      });
+    }
+    return MockPinningService.instance;
+  }
+
+  static isEnabled(): boolean {
+    return process.env.NODE_ENV !== 'production' || process.env.MOCK_PINNING_SERVICE === 'true';
+  }
+
+  configure(config: MockPinningServiceConfig): void {
+    this.config = { ...this.config, ...Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)) };
+  }
+
+  reset(): void {
+    this.pins.clear();
+  }
+
+  async handle(request: Request): Promise<Response> {
+    if (!MockPinningService.isEnabled()) {
+      return this.failure(404, 'NOT_FOUND', 'The mock pinning service is disabled');
+    }
+    if (!this.isAuthorized(request.headers.get('authorization'))) {
+      return this.failure(401, 'UNAUTHORIZED', 'Missing or invalid access token');
+    }
+
+    const url = new URL(request.url);
+    const match = url.pathname.match(/\/pins(?:\/([^/]+))?\/?$/);
+    if (!match) {
+      return this.failure(404, 'NOT_FOUND', `No route for ${url.pathname}`);
+    }
+
+    const requestId = match[1] ? decodeURIComponent(match[1]) : undefined;
+
+    try {
+      if (!requestId) {
+        if (request.method === 'GET') return this.list(url.searchParams);
+        if (request.method === 'POST') return this.add(await this.readPin(request));
+      } else {
+        if (request.method === 'GET') return this.get(requestId);
+        if (request.method === 'POST') return this.replace(requestId, await this.readPin(request));
+        if (request.method === 'DELETE') return this.remove(requestId);
+      }
+      return this.failure(405, 'METHOD_NOT_ALLOWED', `${request.method} is not supported here`);
+    } catch (error) {
+      return this.failure(400, 'BAD_REQUEST', error instanceof Error ? error.message : 'Invalid request');
+    }
+  }
+
+  private list(params: URLSearchParams): Response {
+    const query = this.parseQuery(params);
+    const matching = Array.from(this.pins.values())
+      .map(record => this.toResponse(record))
+      .filter(pin => this.matches(pin, query))
+      .sort((a, b) => b.created.localeCompare(a.created));
+
+    const results: PinResults = {
+      count: matching.length,
+      results: matching.slice(0, query.limit ?? MockPinningService.DEFAULT_LIMIT)
+    };
+    return Response.json(results);
+  }
+
+  private add(pin: PinRequest): Response {
+    const record: MockPinRecord = { requestid: crypto.randomUUID(), created: this.nextCreated(), pin };
+    this.pins.set(record.requestid, record);
+    return Response.json(this.toResponse(record), { status: 202 });
+  }
+
+  private get(requestId: string): Response {
+    const record = this.pins.get(requestId);
+    if (!record) {
+      return this.failure(404, 'NOT_FOUND', `No pin request ${requestId}`);
+    }
+    return Response.json(this.toResponse(record));
+  }
+
+  private replace(requestId: string, pin: PinRequest): Response {
+    if (!this.pins.delete(requestId)) {
+      return this.failure(404, 'NOT_FOUND', `No pin request ${requestId}`);
+    }
+    return this.add(pin);
+  }
+
+  private remove(requestId: string): Response {
+    if (!this.pins.delete(requestId)) {
+      return this.failure(404, 'NOT_FOUND', `No pin request ${requestId}`);
+    }
+    return new Response(null, { status: 202 });
+  }
+
+  // Pins move queued -> pinning -> pinned (or failed) as time passes, like a real service fetching content
+  private getStatus(record: MockPinRecord): PinState {
+    const steps = this.config.transitionDelay > 0
+      ? Math.floor((Date.now() - record.created.getTime()) / this.config.transitionDelay)
+      : 2;
+    if (steps <= 0) return 'queued';
+    if (steps === 1) return 'pinning';
+    return this.config.failCids.includes(record.pin.cid) ? 'failed' : 'pinned';
+  }
+
+  private toResponse(record: MockPinRecord): PinResponse {
+    const status = this.getStatus(record);
+    const response: PinResponse = {
+      requestid: record.requestid,
+      status,
+      created: record.created.toISOString(),
+      pin: record.pin,
+      delegates: this.config.delegates
+    };
+    if (status === 'failed') {
+      response.info = { status_details: 'Content could not be retrieved from the network' };
+    }
+    return response;
+  }
+
+  private matches(pin: PinResponse, query: PinListQuery): boolean {
+    if (query.cid && !query.cid.includes(pin.pin.cid)) return false;
+    if (!(query.status ?? ['pinned']).includes(pin.status)) return false;
+    if (query.before && pin.created >= query.before) return false;
+    if (query.after && pin.created <= query.after) return false;
+    if (query.name !== undefined && !this.matchesName(pin.pin.name ?? '', query.name, query.match ?? 'exact')) return false;
+    if (query.meta) {
+      return Object.entries(query.meta).every(([key, value]) => pin.pin.meta?.[key] === value);
+    }
+    return true;
+  }
+
+  private matchesName(name: string, expected: string, match: TextMatchingStrategy): boolean {
+    switch (match) {
+      case 'iexact':
+        return name.toLowerCase() === expected.toLowerCase();
+      case 'partial':
+        return name.includes(expected);
+      case 'ipartial':
+        return name.toLowerCase().includes(expected.toLowerCase());
+      default:
+        return name === expected;
+    }
+  }
+
+  private parseQuery(params: URLSearchParams): PinListQuery {
+    const query: PinListQuery = {};
+    const list = (key: string) => params.get(key)?.split(',').filter(Boolean);
+
+    query.cid = list('cid');
+    if (query.cid && query.cid.length > 10) {
+      throw new Error('At most 10 CIDs can be requested');
+    }
+
+    const status = list('status');
+    if (status) {
+      const invalid = status.find(value => !PinningManager.PIN_STATES.includes(value as PinState));
+      if (invalid) throw new Error(`Invalid status: ${invalid}`);
+      query.status = status as PinState[];
+    }
+
+    const match = params.get('match');
+    if (match) {
+      if (!MockPinningService.MATCH_STRATEGIES.includes(match as TextMatchingStrategy)) {
+        throw new Error(`Invalid match strategy: ${match}`);
+      }
+      query.match = match as TextMatchingStrategy;
+    }
+
+    const limit = params.get('limit');
+    if (limit !== null) {
+      query.limit = Number(limit);
+      if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > PinningManager.MAX_LIST_LIMIT) {
+        throw new Error(`Limit must be an integer between 1 and ${PinningManager.MAX_LIST_LIMIT}`);
+      }
+    }
+
+    for (const key of ['before', 'after'] as const) {
+      const value = params.get(key);
+      if (value !== null) {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) throw new Error(`Invalid ${key} timestamp`);
+        query[key] = date.toISOString();
+      }
+    }
+
+    const meta = params.get('meta');
+    if (meta) {
+      query.meta = JSON.parse(meta);
+    }
+
+    query.name = params.get('name') ?? undefined;
+    return query;
+  }
+
+  private async readPin(request: Request): Promise<PinRequest> {
+    const body = await request.json();
+    if (typeof body?.cid !== 'string') {
+      throw new Error('Pin object requires a "cid" string');
+    }
+    CID.parse(body.cid);
+
+    if (body.origins !== undefined && (!Array.isArray(body.origins) || body.origins.length > 20)) {
+      throw new Error('"origins" must be an array of at most 20 multiaddrs');
+    }
+    if (body.meta !== undefined && Object.values(body.meta).some(value => typeof value !== 'string')) {
+      throw new Error('"meta" values must be strings');
+    }
+
+    return { cid: body.cid, name: body.name, origins: body.origins ?? [], meta: body.meta ?? {} };
+  }
+
+  // Strictly increasing timestamps keep `before`/`after` pagination stable within the same millisecond
+  private nextCreated(): Date {
+    this.lastCreated = Math.max(Date.now(), this.lastCreated + 1);
+    return new Date(this.lastCreated);
+  }
+
+  private isAuthorized(header: string | null): boolean {
+    const token = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!token) return false;
+    return !this.config.accessToken || token === this.config.accessToken;
+  }
+
+  private failure(status: number, reason: string, details: string): Response {
+    return Response.json({ error: { reason, details } }, { status });
+  }
+}
\ No newline at end of file
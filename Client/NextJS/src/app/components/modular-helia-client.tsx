@@ -1,10 +1,14 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { PersistentConfig, DatastoreItem, PinningService } from './interfaces';
+import { PersistentConfig, DatastoreItem, PinningService, VdicReplication } from './interfaces';
 import { IPFSManager } from './ipfs-manager';
 import { FileOperations } from './file-operations';
 import { PinningManager } from './pinning-manager';
+import { ReplicationEngine } from './replication-engine';
+import { PinHealthAuditor } from './pin-auditor';
+import { TrustlessRetrieval } from './trustless-retrieval';
+import { ErrorHandler } from './error-handler';
 import { ConfigManager } from './config-manager';
 import { CID } from 'multiformats/cid';
 import { CIDOptions, CIDOptionsManager } from './cid-options';
@@ -20,8 +24,13 @@ export default function ModularHeliaClient() {
   const [activeTab, setActiveTab] = useState<'files' | 'pins' | 'config' | 'datastore'>('files');
   const [peerId, setPeerId] = useState<string>('');
   const [isUploading, setIsUploading] = useState(false);
+  // Presentations are bearer credentials, so they stay in memory and never reach the saved config
+  const [presentation, setPresentation] = useState('');
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const configRef = useRef(config);
+  configRef.current = config;
 
   const addLog = (message: string) => {
     setLogs(prev => [...prev.slice(-19), `${new Date().toLocaleTimeString()}: ${message}`]);
@@ -85,6 +94,17 @@ export default function ModularHeliaClient() {
         addLog(`Generated peer ID: ${currentPeerId.slice(0, 20)}...`);
 
         IPFSManager.setupEventListeners(handlePeerConnect, handlePeerDisconnect);
+        TrustlessRetrieval.setGateways(config.nodeConfig.gateways ?? TrustlessRetrieval.DEFAULT_GATEWAYS);
+
+        if (IPFSManager.isPersistent()) {
+          addLog('Using IndexedDB blockstore');
+          const gc = await IPFSManager.maintainStorage(config.datastore.map(item => item.cid));
+          if (gc) {
+            addLog(gc.success
+              ? `Garbage collection removed ${gc.removed} unpinned blocks`
+              : `Garbage collection failed: ${gc.error}`);
+          }
+        }
 
         setStatus('Ready');
         addLog('Helia node initialized successfully');
@@ -99,6 +119,23 @@ export default function ModularHeliaClient() {
     initializeSystem();
   }, [isClient, config.nodeConfig]);
 
+  useEffect(() => {
+    if (!isClient) return;
+
+    const auditor = PinHealthAuditor.getInstance();
+    auditor.start(() => configRef.current.datastore, () => configRef.current.pinningServices);
+    const removeListener = ErrorHandler.getInstance().addErrorListener(error => {
+      if (error.code === 'PIN_DROPPED' || error.code === 'PIN_UNRETRIEVABLE') {
+        addLog(`Pin health alert: ${error.message}`);
+      }
+    });
+
+    return () => {
+      auditor.stop();
+      removeListener();
+    };
+  }, [isClient]);
+
   useEffect(() => {
     if (config.initialized && config.appSettings.autoSave) {
       ConfigManager.saveConfig(config);
@@ -106,11 +143,16 @@ export default function ModularHeliaClient() {
   }, [config]);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
+    const files = Array.from(e.target.files ?? []);
+    const file = files[0];
     if (!file || isUploading) {
       addLog('No file selected or upload in progress');
       return;
     }
+    if (files.length > 1 || file.webkitRelativePath) {
+      await handleDirectoryUpload(files);
+      return;
+    }
 
     setIsUploading(true);
     addLog(`Starting upload: ${file.name}`);
@@ -120,12 +162,14 @@ export default function ModularHeliaClient() {
         file,
         config.encryptionConfig,
         config.shardingConfig,
-        addLog
+        addLog,
+        config.cidOptions,
+        presentation || undefined
       );
 
       if (result.success && result.item) {
         updateConfig({
-          datastore: [...config.datastore, result.item]
+          datastore: [...config.datastore, ConfigManager.toDatastoreItem(result.item)]
         });
         addLog(`Upload completed successfully`);
       } else {
@@ -141,7 +185,73 @@ export default function ModularHeliaClient() {
     }
   };
 
+  const handleDirectoryUpload = async (files: File[]) => {
+    setIsUploading(true);
+
+    try {
+      if (config.encryptionConfig.enabled) {
+        addLog('Directory uploads are stored unencrypted; disable encryption or upload files one at a time');
+        return;
+      }
+      addLog(`Starting directory upload: ${files.length} files`);
+
+      const result = await FileOperations.uploadDirectory(
+        files,
+        undefined,
+        addLog,
+        config.cidOptions,
+        presentation || undefined
+      );
+
+      if (result.success && result.root && result.items) {
+        updateConfig({
+          datastore: [...config.datastore, ...[result.root, ...result.items].map(record => ConfigManager.toDatastoreItem(record))]
+        });
+        addLog(`Directory ${result.root.name} uploaded as ${result.root.cid}`);
+      } else {
+        addLog(`Directory upload failed: ${result.error}`);
+      }
+    } catch (error) {
+      addLog(`Upload error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      if (folderInputRef.current) {
+        folderInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleDirectoryInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0 || isUploading) {
+      addLog('No folder selected or upload in progress');
+      return;
+    }
+    await handleDirectoryUpload(files);
+  };
+
+  const handleDownloadPath = async (item: DatastoreItem) => {
+    const path = prompt(`Path inside ${item.name}`, '/');
+    if (!path) return;
+    addLog(`Starting download: ${item.name}${path}`);
+
+    const result = await FileOperations.downloadPath(item, path, addLog);
+    if (result.success && result.data) {
+      FileOperations.createDownloadLink(result.data, path.split('/').filter(Boolean).pop() || item.name, result.mimeType || 'application/octet-stream');
+      addLog(`Download completed: ${path}`);
+    } else {
+      addLog(`Download failed: ${result.error}`);
+    }
+  };
+
   const handleDownload = async (item: DatastoreItem) => {
+    if (item.directory) {
+      await handleDownloadPath(item);
+      return;
+    }
     addLog(`Starting download: ${item.name}`);
 
     try {
@@ -179,22 +289,77 @@ export default function ModularHeliaClient() {
     }
   };
 
-  const handlePin = async (item: DatastoreItem, service: PinningService) => {
-    addLog(`Pinning ${item.name} to ${service.name}...`);
+  const handlePin = async (item: DatastoreItem) => {
+    addLog(`Replicating ${item.name} across pinning services...`);
 
     try {
-      const result = await PinningManager.pinFile(item, service, addLog);
+      const result = await ReplicationEngine.replicate(item, config.pinningServices, ReplicationEngine.getPolicy(item, ConfigManager.getReplicationPolicy(config)), addLog);
+      const updatedDatastore = config.datastore.map(i => i.cid === item.cid ? result.item : i);
+      updateConfig({ datastore: updatedDatastore });
 
-      if (result.success) {
-        const updatedItem = { ...item, pinned: [...item.pinned, service.id] };
-        const updatedDatastore = config.datastore.map(i => i.cid === item.cid ? updatedItem : i);
-        updateConfig({ datastore: updatedDatastore });
-      }
+      addLog(result.success
+        ? `${item.name} replicated to ${result.report.pinned} services in ${result.report.regions.length} regions`
+        : `Replication incomplete for ${item.name}${result.error ? `: ${result.error}` : ''}`);
     } catch (error) {
       addLog(`Pin error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
+  const handleReplicationChange = (updates: Partial<VdicReplication>) => {
+    const result = ConfigManager.updateReplication(config, updates);
+    if (result.success && result.config) {
+      updateConfig({ replication: result.config.replication });
+    } else {
+      addLog(`Replication policy not updated: ${result.error}`);
+    }
+  };
+
+  const handleServiceRegion = (service: PinningService, region: string) => {
+    const updatedServices = config.pinningServices.map(s =>
+      s.id === service.id ? { ...s, region: region.trim() || undefined } : s
+    );
+    updateConfig({ pinningServices: updatedServices });
+  };
+
+  const handleCheckReplication = async () => {
+    addLog(`Checking replication for ${config.datastore.length} files...`);
+
+    try {
+      const updatedDatastore: DatastoreItem[] = [];
+      for (const item of config.datastore) {
+        if (!item.replication && !item.pinned?.length) {
+          updatedDatastore.push(item);
+          continue;
+        }
+        const result = await ReplicationEngine.reconcile(item, config.pinningServices, ReplicationEngine.getPolicy(item, ConfigManager.getReplicationPolicy(config)), addLog);
+        updatedDatastore.push(result.item);
+      }
+      updateConfig({ datastore: updatedDatastore });
+
+      const underReplicated = ReplicationEngine.findUnderReplicated(
+        updatedDatastore.filter(item => item.replication),
+        config.pinningServices,
+        ConfigManager.getReplicationPolicy(config)
+      );
+      addLog(underReplicated.length === 0
+        ? 'All pinned files meet the replication policy'
+        : `${underReplicated.length} under-replicated: ${underReplicated.map(report => report.name).join(', ')}`);
+    } catch (error) {
+      addLog(`Replication check error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleAuditPins = async () => {
+    addLog('Auditing pin health...');
+
+    try {
+      const report = await PinHealthAuditor.getInstance().runAudit(config.datastore, config.pinningServices);
+      addLog(`Pin audit checked ${report.checks.length} pins: ${report.unhealthy.length} unhealthy`);
+    } catch (error) {
+      addLog(`Pin audit error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleTestService = async (service: PinningService) => {
     addLog(`Testing ${service.name}...`);
 
@@ -212,9 +377,9 @@ export default function ModularHeliaClient() {
     }
   };
 
-  const handleDeleteFile = (item: DatastoreItem) => {
+  const handleDeleteFile = async (item: DatastoreItem) => {
     if (confirm(`Delete ${item.name}?`)) {
-      const updatedDatastore = config.datastore.filter(i => i.cid !== item.cid);
+      const updatedDatastore = await FileOperations.deleteFile(item, config.datastore);
       updateConfig({ datastore: updatedDatastore });
       addLog(`Deleted ${item.name} from datastore`);
     }
@@ -329,10 +494,33 @@ export default function ModularHeliaClient() {
                   <input
                     ref={fileInputRef}
                     type="file"
+                    multiple
                     onChange={handleFileUpload}
                     disabled={isUploading}
                     className="w-full p-3 bg-gray-600 border border-gray-500 rounded text-gray-100 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-blue-600 file:text-white file:cursor-pointer disabled:opacity-50"
                   />
+                  <label className="block mt-3 text-gray-300 text-sm">
+                    Folder (uploaded as one UnixFS directory)
+                    <input
+                      ref={folderInputRef}
+                      type="file"
+                      {...{ webkitdirectory: '' }}
+                      onChange={handleDirectoryInput}
+                      disabled={isUploading}
+                      className="w-full mt-1 p-3 bg-gray-600 border border-gray-500 rounded text-gray-100 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-blue-600 file:text-white file:cursor-pointer disabled:opacity-50"
+                    />
+                  </label>
+                  <label className="block mt-3 text-gray-300 text-sm">
+                    Verifiable presentation (VC-JWT, not saved)
+                    <input
+                      type="password"
+                      value={presentation}
+                      onChange={(e) => setPresentation(e.target.value.trim())}
+                      disabled={isUploading}
+                      placeholder="Required when uploads are credential gated"
+                      className="w-full mt-1 p-2 bg-gray-600 border border-gray-500 rounded text-gray-100 disabled:opacity-50"
+                    />
+                  </label>
                   {isUploading && (
                     <div className="mt-2 text-yellow-400 text-sm">Upload in progress...</div>
                   )}
@@ -359,7 +547,7 @@ export default function ModularHeliaClient() {
                       {config.datastore.map((item, i) => (
                         <tr key={i} className="border-b border-gray-600 hover:bg-gray-600">
                           <td className="p-3 text-2xl">{getContentTypeIcon(item.contentType)}</td>
-                          <td className="p-3 font-medium">{item.name}</td>
+                          <td className="p-3 font-medium">{item.path ?? item.name}</td>
                           <td className="p-3 font-mono text-xs">{item.cid.slice(0, 20)}...</td>
                           <td className="p-3">{(item.size / 1024).toFixed(1)} KB</td>
                           <td className="p-3">
@@ -384,6 +572,12 @@ export default function ModularHeliaClient() {
                               >
                                 Verify
                               </button>
+                              <button
+                                onClick={() => handlePin(item)}
+                                className="bg-purple-600 hover:bg-purple-700 px-2 py-1 rounded text-xs"
+                              >
+                                Pin
+                              </button>
                               <button
                                 onClick={() => handleDeleteFile(item)}
                                 className="bg-red-600 hover:bg-red-700 px-2 py-1 rounded text-xs"
@@ -404,20 +598,44 @@ export default function ModularHeliaClient() {
           {activeTab === 'pins' && (
             <div>
               <div className="bg-gray-700 rounded-lg overflow-hidden">
-                <h3 className="text-purple-400 font-semibold p-4 border-b border-gray-600">
-                  Pinning Services ({config.pinningServices.filter(s => s.enabled).length} enabled)
-                </h3>
+                <div className="flex justify-between items-center p-4 border-b border-gray-600">
+                  <h3 className="text-purple-400 font-semibold">
+                    Pinning Services ({config.pinningServices.filter(s => s.enabled).length} enabled)
+                  </h3>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={handleAuditPins}
+                      className="bg-yellow-600 hover:bg-yellow-700 px-3 py-1 rounded text-xs"
+                    >
+                      Audit Pins
+                    </button>
+                    <button
+                      onClick={handleCheckReplication}
+                      className="bg-purple-600 hover:bg-purple-700 px-3 py-1 rounded text-xs"
+                    >
+                      Check Replication
+                    </button>
+                  </div>
+                </div>
                 <div className="p-4">
                   {config.pinningServices.map((service, i) => (
                     <div key={i} className="bg-gray-600 rounded p-4 mb-4">
                       <div className="flex justify-between items-center mb-2">
                         <h4 className="font-semibold">{service.name}</h4>
                         <div className="flex space-x-2">
+                          {service.region && <span className="bg-gray-500 px-2 py-1 rounded text-xs">{service.region}</span>}
                           {service.verified && <span className="bg-green-600 px-2 py-1 rounded text-xs">✓ Verified</span>}
                           {service.enabled && <span className="bg-blue-600 px-2 py-1 rounded text-xs">Enabled</span>}
                         </div>
                       </div>
                       <div className="text-sm text-gray-300 mb-2">{service.endpoint}</div>
+                      <input
+                        type="text"
+                        defaultValue={service.region ?? ''}
+                        onBlur={(e) => handleServiceRegion(service, e.target.value)}
+                        placeholder="Region (e.g. eu-west)"
+                        className="w-full p-2 mb-2 bg-gray-700 rounded border border-gray-500 text-sm"
+                      />
                       <div className="flex space-x-2">
                         <button
                           onClick={() => handleTestService(service)}
@@ -526,7 +744,62 @@ export default function ModularHeliaClient() {
                       </select>
                     </div>
                   </div>
+
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={!!config.encryptionConfig.streaming}
+                      onChange={(e) => updateConfig({
+                        encryptionConfig: { ...config.encryptionConfig, streaming: e.target.checked }
+                      })}
+                      className="w-4 h-4"
+                      disabled={!config.encryptionConfig.enabled || config.encryptionConfig.algorithm !== 'AES-GCM'}
+                    />
+                    <span>Stream large files in encrypted segments (AES-GCM only)</span>
+                  </label>
+                </div>
+              </div>
+
+              <div className="bg-gray-700 rounded-lg p-6">
+                <h3 className="text-yellow-400 font-semibold text-xl mb-4">Replication Policy</h3>
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Min Services</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={config.replication?.min_nodes ?? ReplicationEngine.DEFAULT_POLICY.minServices}
+                      onChange={(e) => handleReplicationChange({ min_nodes: parseInt(e.target.value) })}
+                      className="w-full p-2 bg-gray-600 rounded border border-gray-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Min Regions</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={config.replication?.min_regions ?? ''}
+                      onChange={(e) => handleReplicationChange({ min_regions: e.target.value ? parseInt(e.target.value) : undefined })}
+                      placeholder="Any"
+                      className="w-full p-2 bg-gray-600 rounded border border-gray-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Preferred Regions</label>
+                    <input
+                      type="text"
+                      defaultValue={config.replication?.preferred_regions?.join(', ') ?? ''}
+                      onBlur={(e) => handleReplicationChange({
+                        preferred_regions: e.target.value.split(',').map(region => region.trim()).filter(Boolean)
+                      })}
+                      placeholder="eu-west, us-east"
+                      className="w-full p-2 bg-gray-600 rounded border border-gray-500"
+                    />
+                  </div>
                 </div>
+                <p className="text-sm text-gray-400 mt-2">Region coverage counts the region set on each pinning service.</p>
               </div>
 
               <div className="bg-gray-700 rounded-lg p-6">
@@ -1,3 +1,4 @@
+// Mirrored in Client/NextJS/src/app/components and Client/Vite/src/components; edit both copies together
 export interface PerformanceMetric {
   name: string;
   value: number;
@@ -172,7 +173,7 @@ export class PerformanceMonitor {
     const timing: OperationTiming = {
       operation,
       startTime: Date.now(),
-      metadata
+      ...(metadata ? { metadata } : {})
     };
     
     this.timings.push(timing);
@@ -182,9 +183,10 @@ export class PerformanceMonitor {
   }
 
   endTiming(operation: string, success: boolean = true): void {
-    const timingIndex = this.timings.findLastIndex(t => 
-      t.operation === operation && !t.endTime
-    );
+    let timingIndex = this.timings.length - 1;
+    while (timingIndex >= 0 && (this.timings[timingIndex].operation !== operation || this.timings[timingIndex].endTime)) {
+      timingIndex--;
+    }
     
     if (timingIndex !== -1) {
       const timing = this.timings[timingIndex];
@@ -252,6 +254,16 @@ export class PerformanceMonitor {
     });
   }
 
+  trackThroughput(operation: string, bytes: number, duration: number): void {
+    this.recordMetric({
+      name: `throughput-${operation}`,
+      value: duration > 0 ? bytes / (duration / 1000) : 0,
+      unit: 'bytes/s',
+      timestamp: Date.now(),
+      category: this.categorizeOperation(operation)
+    });
+  }
+
   trackStorageUsage(files: number, totalSize: number): void {
     this.systemStats.storage.filesStored = files;
     this.systemStats.storage.totalSize = totalSize;
@@ -0,0 +1,148 @@
+// Mirrored in Client/NextJS/src/app/components and Client/Vite/src/components; edit both copies together
+import { CID } from 'multiformats/cid';
+import drain from 'it-drain';
+import type { HeliaInit } from 'helia';
+
+export interface NodeStorageConfig {
+  type: 'memory' | 'indexeddb';
+  name?: string;
+  quotaThreshold?: number;
+  gcOnStart?: boolean;
+  requestPersistence?: boolean;
+}
+
+export interface PersistentStores {
+  blockstore: HeliaInit['blockstore'];
+  datastore: HeliaInit['datastore'];
+  persistent: boolean;
+  close(): Promise<void>;
+}
+
+export interface StorageQuota {
+  usage: number;
+  quota: number;
+  ratio: number;
+  persisted: boolean;
+}
+
+// The parts of a Helia node that garbage collection touches
+export interface CollectableNode {
+  blockstore: { has(cid: CID): Promise<boolean> };
+  pins: { isPinned(cid: CID): Promise<boolean>; add(cid: CID): AsyncIterable<unknown> };
+  gc(options?: { onProgress?(event: { type: string }): void }): Promise<void>;
+}
+
+export interface GarbageCollectionResult {
+  success: boolean;
+  removed: number;
+  retained: number;
+  freedBytes?: number;
+  error?: string;
+}
+
+export class PersistentStorage {
+  static readonly DEFAULT_NAME = 'ipfs-client';
+  static readonly DEFAULT_QUOTA_THRESHOLD = 0.8;
+
+  static isIndexedDBAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  static async createStores(
+    config: NodeStorageConfig,
+    fallback: () => Pick<PersistentStores, 'blockstore' | 'datastore'>
+  ): Promise<PersistentStores> {
+    if (config.type !== 'indexeddb' || !this.isIndexedDBAvailable()) {
+      const { blockstore, datastore } = fallback();
+      return { blockstore, datastore, persistent: false, close: async () => {} };
+    }
+
+    const [{ IDBBlockstore }, { IDBDatastore }] = await Promise.all([
+      import('blockstore-idb'),
+      import('datastore-idb')
+    ]);
+
+    const name = config.name || this.DEFAULT_NAME;
+    const blockstore = new IDBBlockstore(`${name}-blocks`);
+    const datastore = new IDBDatastore(`${name}-data`);
+    await Promise.all([blockstore.open(), datastore.open()]);
+
+    if (config.requestPersistence !== false) {
+      await this.requestPersistence();
+    }
+
+    return {
+      blockstore,
+      datastore,
+      persistent: true,
+      close: async () => {
+        await Promise.all([blockstore.close(), datastore.close()]);
+      }
+    };
+  }
+
+  static async requestPersistence(): Promise<boolean> {
+    try {
+      if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+        return false;
+      }
+      return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+    } catch {
+      return false;
+    }
+  }
+
+  static async getQuota(): Promise<StorageQuota | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return null;
+    }
+
+    const estimate = await navigator.storage.estimate();
+    const usage = estimate.usage ?? 0;
+    const quota = estimate.quota ?? 0;
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+
+    return { usage, quota, ratio: quota > 0 ? usage / quota : 0, persisted };
+  }
+
+  static isOverThreshold(quota: StorageQuota | null, config: NodeStorageConfig): boolean {
+    if (!quota || quota.quota === 0) return false;
+    return quota.ratio >= (config.quotaThreshold ?? this.DEFAULT_QUOTA_THRESHOLD);
+  }
+
+  static async collectGarbage(helia: CollectableNode, retain: string[] = []): Promise<GarbageCollectionResult> {
+    const roots = new Set(retain);
+    let removed = 0;
+
+    try {
+      // Records in the local datastore must outlive GC even if they were never pinned explicitly
+      for (const cid of roots) {
+        const cidObj = CID.parse(cid);
+        if (!(await helia.pins.isPinned(cidObj)) && (await helia.blockstore.has(cidObj))) {
+          await drain(helia.pins.add(cidObj));
+        }
+      }
+
+      const before = await this.getQuota();
+      await helia.gc({
+        onProgress: (event: { type: string }) => {
+          if (event.type === 'helia:gc:deleted') removed++;
+        }
+      });
+      const after = await this.getQuota();
+
+      const result: GarbageCollectionResult = { success: true, removed, retained: roots.size };
+      if (before && after) {
+        result.freedBytes = Math.max(0, before.usage - after.usage);
+      }
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        removed,
+        retained: roots.size,
+        error: error instanceof Error ? error.message : 'Garbage collection failed'
+      };
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,367 @@
+import { CID } from 'multiformats/cid';
+import * as dagPB from '@ipld/dag-pb';
+import { DatastoreItem, PinningService } from './interfaces';
+import { PinResponse, PinState, PinningManager } from './pinning-manager';
+import { ReplicationEngine } from './replication-engine';
+import { HasherRegistry } from './hasher-registry';
+import { ErrorHandler } from './error-handler';
+
+export type PinHealth = 'healthy' | 'pending' | 'dropped' | 'unretrievable' | 'unknown';
+
+export interface PinHealthCheck {
+  cid: string;
+  serviceId: string;
+  timestamp: number;
+  health: PinHealth;
+  status?: PinState;
+  blocksChecked: number;
+  blocksFailed: number;
+  latency?: number;
+  error?: string;
+}
+
+export interface PinAuditConfig {
+  interval: number;
+  sampleBlocks: number;
+  blockTimeout: number;
+  historyLimit: number;
+  gateways: string[];
+  persistHistory: boolean;
+}
+
+export interface PinAuditReport {
+  startedAt: number;
+  finishedAt: number;
+  checks: PinHealthCheck[];
+  unhealthy: PinHealthCheck[];
+}
+
+interface SpotCheckResult {
+  blocksChecked: number;
+  blocksFailed: number;
+  latency: number;
+  error?: string;
+}
+
+export class PinHealthAuditor {
+  private static instance: PinHealthAuditor;
+  private static readonly HISTORY_KEY = 'ipfs-pin-health-v1';
+  private static readonly MAX_DEPTH = 64;
+  private static readonly MAX_LIST_CIDS = 10;
+  private config: PinAuditConfig;
+  private history = new Map<string, PinHealthCheck[]>();
+  private timer?: ReturnType<typeof setInterval>;
+  private running: Promise<PinAuditReport> | null = null;
+
+  private constructor(config: Partial<PinAuditConfig> = {}) {
+    this.config = {
+      interval: 6 * 60 * 60 * 1000,
+      sampleBlocks: 3,
+      blockTimeout: 15000,
+      historyLimit: 50,
+      gateways: ['https://trustless-gateway.link'],
+      persistHistory: true,
+      ...config
+    };
+
+    this.loadHistory();
+  }
+
+  static getInstance(config?: Partial<PinAuditConfig>): PinHealthAuditor {
+    if (!PinHealthAuditor.instance) {
+      PinHealthAuditor.instance = new PinHealthAuditor(config);
+    }
+    return PinHealthAuditor.instance;
+  }
+
+  start(getItems: () => DatastoreItem[], getServices: () => PinningService[]): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.runAudit(getItems(), getServices()).catch(error => {
+        ErrorHandler.getInstance().handleError(error, { source: 'pin-auditor' }, 'network');
+      });
+    }, this.config.interval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isScheduled(): boolean {
+    return this.timer !== undefined;
+  }
+
+  async runAudit(items: DatastoreItem[], services: PinningService[]): Promise<PinAuditReport> {
+    // A slow audit must not overlap with the next scheduled one
+    if (!this.running) {
+      this.running = this.audit(items, services).finally(() => {
+        this.running = null;
+      });
+    }
+    return await this.running;
+  }
+
+  getHistory(cid: string, serviceId?: string): PinHealthCheck[] {
+    if (serviceId) {
+      return [...(this.history.get(this.historyKey(cid, serviceId)) ?? [])];
+    }
+    return Array.from(this.history.values())
+      .flat()
+      .filter(check => check.cid === cid)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  getLatest(cid: string, serviceId: string): PinHealthCheck | undefined {
+    const checks = this.history.get(this.historyKey(cid, serviceId));
+    return checks?.[checks.length - 1];
+  }
+
+  getUptime(cid: string, serviceId: string): number | null {
+    const checks = (this.history.get(this.historyKey(cid, serviceId)) ?? []).filter(check => check.health !== 'unknown');
+    if (checks.length === 0) return null;
+    return checks.filter(check => check.health === 'healthy' || check.health === 'pending').length / checks.length;
+  }
+
+  clearHistory(cid?: string): void {
+    if (cid) {
+      for (const key of Array.from(this.history.keys())) {
+        if (key.startsWith(`${cid}:`)) this.history.delete(key);
+      }
+    } else {
+      this.history.clear();
+    }
+    this.saveHistory();
+  }
+
+  private async audit(items: DatastoreItem[], services: PinningService[]): Promise<PinAuditReport> {
+    const startedAt = Date.now();
+    const checks: PinHealthCheck[] = [];
+
+    const expected = new Map(items.map(item => [item, this.expectedServices(item, services)]));
+
+    for (const service of services.filter(candidate => candidate.enabled)) {
+      const audited = items.filter(item => expected.get(item)!.includes(service.id));
+      if (audited.length === 0) continue;
+
+      const listed = await this.listServicePins(service, audited.map(item => item.cid));
+
+      for (const item of audited) {
+        const check = await this.checkItem(item, service, listed);
+        checks.push(check);
+        await this.record(check, item);
+      }
+    }
+
+    this.saveHistory();
+    return {
+      startedAt,
+      finishedAt: Date.now(),
+      checks,
+      unhealthy: checks.filter(check => check.health === 'dropped' || check.health === 'unretrievable')
+    };
+  }
+
+  // A malformed record is skipped so it cannot abort the audit of every other item
+  private expectedServices(item: DatastoreItem, services: PinningService[]): string[] {
+    try {
+      return ReplicationEngine.getReplicas(item, services)
+        .filter(replica => replica.status !== 'removed' && replica.status !== 'failed')
+        .map(replica => replica.serviceId);
+    } catch (error) {
+      console.warn(`Skipping pin audit for ${item?.cid ?? 'unknown item'}`, error);
+      return [];
+    }
+  }
+
+  private async listServicePins(service: PinningService, cids: string[]): Promise<Map<string, PinResponse> | Error> {
+    const pins = new Map<string, PinResponse>();
+
+    for (let i = 0; i < cids.length; i += PinHealthAuditor.MAX_LIST_CIDS) {
+      const batch = cids.slice(i, i + PinHealthAuditor.MAX_LIST_CIDS);
+      const result = await PinningManager.listPins(service, {
+        cid: batch,
+        status: PinningManager.PIN_STATES,
+        limit: PinningManager.MAX_LIST_LIMIT
+      });
+      if (!result.success) {
+        return new Error(result.error || `Could not list pins on ${service.name}`);
+      }
+
+      // Prefer the most useful request when a CID was pinned more than once
+      for (const pin of result.pins ?? []) {
+        const current = pins.get(pin.pin.cid);
+        if (!current || this.statusRank(pin.status) > this.statusRank(current.status)) {
+          pins.set(pin.pin.cid, pin);
+        }
+      }
+    }
+
+    return pins;
+  }
+
+  private async checkItem(
+    item: DatastoreItem,
+    service: PinningService,
+    listed: Map<string, PinResponse> | Error
+  ): Promise<PinHealthCheck> {
+    const base = { cid: item.cid, serviceId: service.id, timestamp: Date.now(), blocksChecked: 0, blocksFailed: 0 };
+
+    if (listed instanceof Error) {
+      return { ...base, health: 'unknown', error: listed.message };
+    }
+
+    const pin = listed.get(item.cid);
+    if (!pin || pin.status === 'failed') {
+      return {
+        ...base,
+        health: 'dropped',
+        status: pin?.status,
+        error: pin ? pin.info?.status_details ?? 'Pin request failed' : 'CID is no longer listed by the service'
+      };
+    }
+    if (pin.status !== 'pinned') {
+      return { ...base, health: 'pending', status: pin.status };
+    }
+
+    const spot = await this.spotCheck(item.cid, this.gatewaysFor(service));
+    return {
+      ...base,
+      health: spot.blocksFailed > 0 || spot.blocksChecked === 0 ? 'unretrievable' : 'healthy',
+      status: pin.status,
+      blocksChecked: spot.blocksChecked,
+      blocksFailed: spot.blocksFailed,
+      latency: spot.latency,
+      error: spot.error
+    };
+  }
+
+  // Random root-to-leaf walks over raw blocks, each verified against its CID, so a gateway cannot fake retrievability
+  private async spotCheck(root: string, gateways: string[]): Promise<SpotCheckResult> {
+    const fetched = new Map<string, Uint8Array>();
+    const started = Date.now();
+    let blocksFailed = 0;
+    let error: string | undefined;
+
+    for (let attempt = 0; attempt < this.config.sampleBlocks * 2 && fetched.size < this.config.sampleBlocks; attempt++) {
+      let current = CID.parse(root);
+
+      for (let depth = 0; depth < PinHealthAuditor.MAX_DEPTH; depth++) {
+        const key = current.toString();
+        let bytes = fetched.get(key);
+
+        if (!bytes) {
+          try {
+            bytes = await this.fetchBlock(current, gateways);
+            fetched.set(key, bytes);
+          } catch (fetchError) {
+            blocksFailed++;
+            error = fetchError instanceof Error ? fetchError.message : 'Block fetch failed';
+            break;
+          }
+        }
+
+        if (current.code !== dagPB.code) break;
+        const links = dagPB.decode(bytes).Links;
+        if (links.length === 0) break;
+        current = links[Math.floor(Math.random() * links.length)].Hash;
+      }
+
+      if (blocksFailed > 0) break;
+    }
+
+    return { blocksChecked: fetched.size + blocksFailed, blocksFailed, latency: Date.now() - started, error };
+  }
+
+  private async fetchBlock(cid: CID, gateways: string[]): Promise<Uint8Array> {
+    let lastError = 'No gateway configured';
+
+    for (const gateway of gateways) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.config.blockTimeout);
+
+      try {
+        const response = await fetch(`${gateway.replace(/\/$/, '')}/ipfs/${cid.toString()}?format=raw`, {
+          headers: { Accept: 'application/vnd.ipld.raw' },
+          signal: controller.signal
+        });
+        if (!response.ok) {
+          lastError = `${gateway} returned ${response.status} for ${cid.toString()}`;
+          continue;
+        }
+
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (!(await HasherRegistry.verify(cid, bytes))) {
+          lastError = `${gateway} returned bytes that do not hash to ${cid.toString()}`;
+          continue;
+        }
+        return bytes;
+      } catch (error) {
+        lastError = error instanceof Error && error.name === 'AbortError'
+          ? `${gateway} timed out fetching ${cid.toString()}`
+          : error instanceof Error ? error.message : 'Network error';
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+
+    throw new Error(lastError);
+  }
+
+  private gatewaysFor(service: PinningService): string[] {
+    return service.gateway ? [service.gateway, ...this.config.gateways] : this.config.gateways;
+  }
+
+  private async record(check: PinHealthCheck, item: DatastoreItem): Promise<void> {
+    const key = this.historyKey(check.cid, check.serviceId);
+    const checks = this.history.get(key) ?? [];
+    const previous = checks[checks.length - 1];
+
+    checks.push(check);
+    this.history.set(key, checks.slice(-this.config.historyLimit));
+
+    // Alert on transitions only, so a provider that stays down does not flood the listeners
+    if ((check.health === 'dropped' || check.health === 'unretrievable') && previous?.health !== check.health) {
+      const alert = new Error(
+        check.health === 'dropped'
+          ? `${check.serviceId} dropped ${item.name} (${item.cid}): ${check.error}`
+          : `${item.name} (${item.cid}) is pinned on ${check.serviceId} but not retrievable: ${check.error ?? 'no blocks fetched'}`
+      );
+      alert.name = check.health === 'dropped' ? 'PIN_DROPPED' : 'PIN_UNRETRIEVABLE';
+      await ErrorHandler.getInstance().handleError(alert, { ...check, name: item.name }, 'storage');
+    }
+  }
+
+  private statusRank(status: PinState): number {
+    return ['failed', 'queued', 'pinning', 'pinned'].indexOf(status);
+  }
+
+  private historyKey(cid: string, serviceId: string): string {
+    return `${cid}:${serviceId}`;
+  }
+
+  private loadHistory(): void {
+    if (!this.config.persistHistory || typeof localStorage === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(PinHealthAuditor.HISTORY_KEY);
+      if (stored) {
+        this.history = new Map(Object.entries(JSON.parse(stored)));
+      }
+    } catch (error) {
+      console.warn('Failed to load pin health history', error);
+    }
+  }
+
+  private saveHistory(): void {
+    if (!this.config.persistHistory || typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.setItem(PinHealthAuditor.HISTORY_KEY, JSON.stringify(Object.fromEntries(this.history)));
+    } catch (error) {
+      console.warn('Failed to save pin health history', error);
+    }
+  }
+}
\ No newline at end of file
@@ -1,33 +1,79 @@
 import { PinningService, DatastoreItem } from './interfaces';
+import { IPFSManager } from './ipfs-manager';
+
+export type PinState = 'queued' | 'pinning' | 'pinned' | 'failed';
+export type TextMatchingStrategy = 'exact' | 'iexact' | 'partial' | 'ipartial';
 
 export interface PinRequest {
   cid: string;
-  name: string;
-  meta?: Record<string, any>;
+  name?: string;
+  origins?: string[];
+  meta?: Record<string, string>;
 }
 
 export interface PinResponse {
   requestid: string;
-  status: 'queued' | 'pinning' | 'pinned' | 'failed';
+  status: PinState;
   created: string;
-  pin: {
-    cid: string;
-    name: string;
-    meta?: Record<string, any>;
-  };
+  pin: PinRequest;
+  delegates: string[];
+  info?: Record<string, string>;
+}
+
+export interface PinResults {
+  count: number;
+  results: PinResponse[];
+}
+
+export interface PinListQuery {
+  cid?: string[];
+  name?: string;
+  match?: TextMatchingStrategy;
+  status?: PinState[];
+  before?: string;
+  after?: string;
+  limit?: number;
+  meta?: Record<string, string>;
 }
 
 export interface PinStatus {
   success: boolean;
   status?: string;
+  requestId?: string;
+  delegates?: string[];
+  error?: string;
+}
+
+export interface PinWaitOptions {
+  interval?: number;
+  timeout?: number;
+  onStatus?: (pin: PinResponse) => void;
+}
+
+export interface PinFileOptions extends PinWaitOptions {
+  origins?: string[];
+  connectDelegates?: boolean;
+  wait?: boolean;
+}
+
+interface PinningApiResult<T> {
+  success: boolean;
+  data?: T;
+  status?: number;
   error?: string;
 }
 
 export class PinningManager {
+  static readonly PIN_STATES: PinState[] = ['queued', 'pinning', 'pinned', 'failed'];
+  static readonly MAX_LIST_LIMIT = 1000;
+  private static readonly DEFAULT_POLL_INTERVAL = 2000;
+  private static readonly DEFAULT_POLL_TIMEOUT = 5 * 60 * 1000;
+
   static async pinFile(
     item: DatastoreItem,
     service: PinningService,
-    onProgress?: (message: string) => void
+    onProgress?: (message: string) => void,
+    options: PinFileOptions = {}
   ): Promise<PinStatus> {
     try {
       onProgress?.(`Pinning ${item.name} to ${service.name}...`);
@@ -35,25 +81,56 @@ export class PinningManager {
       const pinRequest: PinRequest = {
         cid: item.cid,
         name: item.name,
-        meta: {
+        origins: options.origins ?? this.getLocalOrigins(),
+        meta: this.toPinMeta({
           size: item.size,
           type: item.type,
           contentType: item.contentType,
           encrypted: item.encrypted,
           sharded: item.sharded,
           timestamp: item.timestamp
-        }
+        })
       };
 
-      const response = await this.sendPinRequest(service, pinRequest);
-
-      if (response.success) {
-        onProgress?.(`Successfully pinned to ${service.name}`);
-        return { success: true, status: 'pinned' };
-      } else {
+      const response = await this.addPin(service, pinRequest);
+      if (!response.success || !response.data) {
         onProgress?.(`Failed to pin to ${service.name}: ${response.error}`);
         return { success: false, error: response.error };
       }
+
+      let pin = response.data;
+      onProgress?.(`${service.name} accepted pin request ${pin.requestid} (${pin.status})`);
+
+      // Delegates are the service's own peers; dialing them lets it fetch blocks straight from this node
+      if (options.connectDelegates !== false && pin.delegates.length > 0) {
+        await this.connectToDelegates(pin.delegates, onProgress);
+      }
+
+      if (options.wait !== false) {
+        const result = await this.waitForPin(service, pin.requestid, {
+          ...options,
+          onStatus: (current) => {
+            onProgress?.(`${service.name}: ${item.name} is ${current.status}`);
+            options.onStatus?.(current);
+          }
+        });
+        pin = result.data ?? pin;
+        if (!result.success && pin.status !== 'failed') {
+          onProgress?.(`Failed to confirm pin on ${service.name}: ${result.error}`);
+          return { success: false, status: pin.status, requestId: pin.requestid, delegates: pin.delegates, error: result.error };
+        }
+      }
+
+      if (pin.status === 'failed') {
+        const reason = this.describeFailure(pin);
+        onProgress?.(`Failed to pin to ${service.name}: ${reason}`);
+        return { success: false, status: pin.status, requestId: pin.requestid, delegates: pin.delegates, error: reason };
+      }
+
+      if (pin.status === 'pinned') {
+        onProgress?.(`Successfully pinned to ${service.name}`);
+      }
+      return { success: true, status: pin.status, requestId: pin.requestid, delegates: pin.delegates };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       onProgress?.(`Error pinning to ${service.name}: ${errorMessage}`);
@@ -61,114 +138,123 @@ export class PinningManager {
     }
   }
 
-  private static async sendPinRequest(
+  static async addPin(service: PinningService, pin: PinRequest): Promise<PinningApiResult<PinResponse>> {
+    return await this.request<PinResponse>(service, 'POST', '/pins', { body: pin });
+  }
+
+  static async getPin(service: PinningService, requestId: string): Promise<PinningApiResult<PinResponse>> {
+    return await this.request<PinResponse>(service, 'GET', `/pins/${encodeURIComponent(requestId)}`);
+  }
+
+  static async replacePin(
     service: PinningService,
-    pinRequest: PinRequest
-  ): Promise<{ success: boolean; error?: string; response?: PinResponse }> {
-    try {
-      const url = this.buildPinUrl(service);
-      const headers = this.buildHeaders(service);
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(pinRequest),
-      });
+    requestId: string,
+    pin: PinRequest
+  ): Promise<PinningApiResult<PinResponse>> {
+    return await this.request<PinResponse>(service, 'POST', `/pins/${encodeURIComponent(requestId)}`, { body: pin });
+  }
+
+  static async removePin(service: PinningService, requestId: string): Promise<{ success: boolean; error?: string }> {
+    const result = await this.request<void>(service, 'DELETE', `/pins/${encodeURIComponent(requestId)}`);
+    return result.success ? { success: true } : { success: false, error: result.error };
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        return { success: true, response: data };
-      } else {
-        const errorText = await response.text();
-        return { 
-          success: false, 
-          error: `${response.status} ${response.statusText}: ${errorText}` 
-        };
+  static async waitForPin(
+    service: PinningService,
+    requestId: string,
+    options: PinWaitOptions = {}
+  ): Promise<PinningApiResult<PinResponse>> {
+    const interval = options.interval ?? this.DEFAULT_POLL_INTERVAL;
+    const deadline = Date.now() + (options.timeout ?? this.DEFAULT_POLL_TIMEOUT);
+    let lastStatus: PinState | undefined;
+
+    while (true) {
+      const result = await this.getPin(service, requestId);
+      if (!result.success || !result.data) {
+        return result;
       }
-    } catch (error) {
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Network error' 
-      };
+
+      const pin = result.data;
+      if (pin.status !== lastStatus) {
+        lastStatus = pin.status;
+        options.onStatus?.(pin);
+      }
+      if (pin.status === 'pinned' || pin.status === 'failed') {
+        return { success: pin.status === 'pinned', data: pin, error: pin.status === 'failed' ? this.describeFailure(pin) : undefined };
+      }
+      if (Date.now() + interval > deadline) {
+        return { success: false, data: pin, error: `Timed out waiting for pin ${requestId} (last status: ${pin.status})` };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, interval));
     }
   }
 
   static async testService(service: PinningService): Promise<{ verified: boolean; error?: string }> {
-    try {
-      const url = this.buildTestUrl(service);
-      const headers = this.buildHeaders(service);
+    const result = await this.request<PinResults>(service, 'GET', '/pins', { query: { limit: 1 } });
+    return result.success ? { verified: true } : { verified: false, error: result.error };
+  }
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers,
-      });
+  static async listPins(
+    service: PinningService,
+    query: PinListQuery = {}
+  ): Promise<{ success: boolean; pins?: PinResponse[]; count?: number; error?: string }> {
+    if (query.cid && query.cid.length > 10) {
+      return { success: false, error: 'At most 10 CIDs can be filtered per request' };
+    }
+    if (query.limit !== undefined && (query.limit < 1 || query.limit > this.MAX_LIST_LIMIT)) {
+      return { success: false, error: `Limit must be between 1 and ${this.MAX_LIST_LIMIT}` };
+    }
 
-      if (response.ok) {
-        return { verified: true };
-      } else {
-        return { 
-          verified: false, 
-          error: `${response.status} ${response.statusText}` 
-        };
-      }
-    } catch (error) {
-      return { 
-        verified: false, 
-        error: error instanceof Error ? error.message : 'Network error' 
-      };
+    const result = await this.request<PinResults>(service, 'GET', '/pins', { query: this.toListParams(query) });
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
     }
+    return { success: true, pins: result.data.results || [], count: result.data.count };
   }
 
-  static async listPins(service: PinningService): Promise<{ success: boolean; pins?: any[]; error?: string }> {
-    try {
-      const url = this.buildListUrl(service);
-      const headers = this.buildHeaders(service);
+  // Pages backwards through results with `before`, since the service returns the newest pins first
+  static async *listAllPins(service: PinningService, query: PinListQuery = {}): AsyncGenerator<PinResponse> {
+    let before = query.before;
+    const seen = new Set<string>();
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers,
-      });
+    while (true) {
+      const page = await this.listPins(service, { ...query, before });
+      if (!page.success || !page.pins) {
+        throw new Error(page.error || 'Failed to list pins');
+      }
 
-      if (response.ok) {
-        const data = await response.json();
-        return { success: true, pins: data.results || [] };
-      } else {
-        const errorText = await response.text();
-        return { 
-          success: false, 
-          error: `${response.status} ${response.statusText}: ${errorText}` 
-        };
+      const fresh = page.pins.filter(pin => !seen.has(pin.requestid));
+      for (const pin of fresh) {
+        seen.add(pin.requestid);
+        yield pin;
       }
-    } catch (error) {
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Network error' 
-      };
+
+      if (fresh.length === 0 || page.pins.length >= (page.count ?? 0)) {
+        return;
+      }
+      before = page.pins[page.pins.length - 1].created;
     }
   }
 
   static async unpinFile(
     cid: string,
     service: PinningService
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; removed?: number; error?: string }> {
     try {
-      const url = this.buildUnpinUrl(service, cid);
-      const headers = this.buildHeaders(service);
-
-      const response = await fetch(url, {
-        method: 'DELETE',
-        headers,
-      });
+      const requestIds: string[] = [];
+      for await (const pin of this.listAllPins(service, { cid: [cid], status: this.PIN_STATES })) {
+        requestIds.push(pin.requestid);
+      }
 
-      if (response.ok) {
-        return { success: true };
-      } else {
-        const errorText = await response.text();
-        return { 
-          success: false, 
-          error: `${response.status} ${response.statusText}: ${errorText}` 
-        };
+      for (const requestId of requestIds) {
+        const result = await this.removePin(service, requestId);
+        if (!result.success) {
+          return { success: false, removed: requestIds.indexOf(requestId), error: result.error };
+        }
       }
+
+      return { success: true, removed: requestIds.length };
     } catch (error) {
       return { 
         success: false, 
@@ -181,56 +267,110 @@ export class PinningManager {
     requestId: string,
     service: PinningService
   ): Promise<{ success: boolean; status?: string; error?: string }> {
-    try {
-      const url = this.buildStatusUrl(service, requestId);
-      const headers = this.buildHeaders(service);
+    const result = await this.getPin(service, requestId);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, status: result.data.status };
+  }
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers,
-      });
+  private static async connectToDelegates(delegates: string[], onProgress?: (message: string) => void): Promise<void> {
+    if (!IPFSManager.isNodeCreated()) {
+      return;
+    }
+
+    const { connected, failed } = await IPFSManager.connectToPeers(delegates);
+    if (connected.length > 0) {
+      onProgress?.(`Connected to ${connected.length} pinning service delegate(s)`);
+    }
+    if (failed.length > 0) {
+      onProgress?.(`Could not reach ${failed.length} delegate(s); the service will look up providers instead`);
+    }
+  }
+
+  private static getLocalOrigins(): string[] {
+    return IPFSManager.isNodeCreated() ? IPFSManager.getMultiaddrs() : [];
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        return { success: true, status: data.status };
-      } else {
-        const errorText = await response.text();
-        return { 
-          success: false, 
-          error: `${response.status} ${response.statusText}: ${errorText}` 
-        };
+  private static toPinMeta(meta: Record<string, unknown>): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(meta)) {
+      if (value !== undefined && value !== null) {
+        result[key] = String(value);
       }
-    } catch (error) {
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Network error' 
-      };
     }
+    return result;
   }
 
-  private static buildPinUrl(service: PinningService): string {
-    const baseUrl = service.endpoint.replace(/\/$/, '');
-    return `${baseUrl}/pins`;
+  private static toListParams(query: PinListQuery): Record<string, string | number | undefined> {
+    return {
+      cid: query.cid?.join(','),
+      name: query.name,
+      match: query.match,
+      status: query.status?.join(','),
+      before: query.before,
+      after: query.after,
+      limit: query.limit,
+      meta: query.meta ? JSON.stringify(query.meta) : undefined
+    };
   }
 
-  private static buildTestUrl(service: PinningService): string {
-    const baseUrl = service.endpoint.replace(/\/$/, '');
-    return `${baseUrl}/pins?limit=1`;
+  private static describeFailure(pin: PinResponse): string {
+    const details = pin.info?.status_details;
+    return details ? `Pin failed: ${details}` : 'Pin failed';
   }
 
-  private static buildListUrl(service: PinningService): string {
-    const baseUrl = service.endpoint.replace(/\/$/, '');
-    return `${baseUrl}/pins`;
+  private static async request<T>(
+    service: PinningService,
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    options: { query?: Record<string, string | number | undefined>; body?: unknown } = {}
+  ): Promise<PinningApiResult<T>> {
+    try {
+      const response = await fetch(this.buildUrl(service, path, options.query), {
+        method,
+        headers: this.buildHeaders(service),
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      });
+
+      if (!response.ok) {
+        return { success: false, status: response.status, error: await this.readError(response) };
+      }
+
+      const text = await response.text();
+      return { success: true, status: response.status, data: text ? JSON.parse(text) : undefined };
+    } catch (error) {
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Network error' 
+      };
+    }
   }
 
-  private static buildUnpinUrl(service: PinningService, cid: string): string {
-    const baseUrl = service.endpoint.replace(/\/$/, '');
-    return `${baseUrl}/pins/${cid}`;
+  // Spec-compliant services answer with { error: { reason, details } }
+  private static async readError(response: Response): Promise<string> {
+    const text = await response.text();
+    try {
+      const { error } = JSON.parse(text);
+      if (error?.reason) {
+        return `${response.status} ${error.reason}${error.details ? `: ${error.details}` : ''}`;
+      }
+    } catch {}
+    return `${response.status} ${response.statusText}: ${text}`;
   }
 
-  private static buildStatusUrl(service: PinningService, requestId: string): string {
-    const baseUrl = service.endpoint.replace(/\/$/, '');
-    return `${baseUrl}/pins/${requestId}`;
+  private static buildUrl(
+    service: PinningService,
+    path: string,
+    query: Record<string, string | number | undefined> = {}
+  ): string {
+    const url = new URL(`${service.endpoint.replace(/\/$/, '')}${path}`);
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') {
+        url.searchParams.set(key, String(value));
+      }
+    }
+    return url.toString();
   }
 
   private static buildHeaders(service: PinningService): Record<string, string> {
@@ -250,6 +390,7 @@ export class PinningManager {
         type: 'ipfs-pinning-service',
         verified: false,
         enabled: false,
+        region: 'us',
       },
       {
         id: 'pinata',
@@ -259,6 +400,7 @@ export class PinningManager {
         type: 'custom',
         verified: false,
         enabled: false,
+        region: 'us',
       },
       {
         id: 'nft-storage',
@@ -268,6 +410,7 @@ export class PinningManager {
         type: 'ipfs-pinning-service',
         verified: false,
         enabled: false,
+        region: 'us',
       },
       {
         id: 'lighthouse',
@@ -277,6 +420,7 @@ export class PinningManager {
         type: 'custom',
         verified: false,
         enabled: false,
+        region: 'ap',
       },
     ];
   }
@@ -0,0 +1,58 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatastoreItem, PinningService } from './interfaces';
+import { ReplicationEngine } from './replication-engine';
+
+// FileOperations upload results carry uploadedAt but no pinned list or timestamp
+const upload = {
+  cid: 'bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy',
+  name: 'report.pdf',
+  size: 1024,
+  type: 'application/pdf',
+  uploadedAt: '2026-01-02T03:04:05.000Z',
+  downloadCount: 0
+} as unknown as DatastoreItem;
+
+const service: PinningService = {
+  id: 'eu-pins',
+  name: 'EU Pins',
+  endpoint: 'https://pins.example',
+  accessToken: 'token',
+  type: 'ipfs-pinning-service',
+  verified: true,
+  enabled: true,
+  region: 'eu'
+};
+
+const realFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+describe('ReplicationEngine on upload-shaped records', () => {
+  it('reports no replicas for a record without a pinned list', () => {
+    assert.deepEqual(ReplicationEngine.getReplicas(upload, [service]), []);
+    assert.equal(ReplicationEngine.evaluate(upload, [service], { minServices: 1 }).satisfied, false);
+  });
+
+  it('reconciles a record without a pinned list by pinning it', async () => {
+    const requests: string[] = [];
+    globalThis.fetch = (async (url: string | URL, init?: RequestInit) => {
+      requests.push(`${init?.method ?? 'GET'} ${new URL(String(url)).pathname}`);
+      return new Response(JSON.stringify({
+        requestid: 'req-1',
+        status: 'pinned',
+        created: '2026-01-02T03:04:06.000Z',
+        pin: { cid: upload.cid },
+        delegates: []
+      }), { status: 200 });
+    }) as typeof fetch;
+
+    const result = await ReplicationEngine.reconcile(upload, [service], { minServices: 1, minRegions: 1 });
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.item.replication?.replicas.map(replica => [replica.serviceId, replica.region, replica.status]), [['eu-pins', 'eu', 'pinned']]);
+    assert.ok(requests.includes('POST /pins'));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,291 @@
+import { DatastoreItem, PinningService, VdicReplication } from './interfaces';
+import { PinFileOptions, PinState, PinningManager } from './pinning-manager';
+
+export interface ReplicationPolicy {
+  minServices: number;
+  minRegions?: number;
+  preferredRegions?: string[];
+}
+
+export type ReplicaState = PinState | 'removed';
+
+export interface ReplicaStatus {
+  serviceId: string;
+  region?: string;
+  requestId?: string;
+  status: ReplicaState;
+  updatedAt: string;
+  error?: string;
+}
+
+export interface ItemReplication {
+  policy?: ReplicationPolicy;
+  replicas: ReplicaStatus[];
+  checkedAt?: string;
+}
+
+export interface ReplicationReport {
+  cid: string;
+  name: string;
+  satisfied: boolean;
+  pinned: number;
+  pending: number;
+  regions: string[];
+  missingServices: number;
+  missingRegions: number;
+}
+
+export interface ReplicationResult {
+  success: boolean;
+  item: DatastoreItem;
+  report: ReplicationReport;
+  error?: string;
+}
+
+export class ReplicationEngine {
+  static readonly DEFAULT_POLICY: ReplicationPolicy = { minServices: 1 };
+  private static readonly ACTIVE_STATES: ReplicaState[] = ['queued', 'pinning', 'pinned'];
+
+  static fromVdicReplication(replication: VdicReplication = {}): ReplicationPolicy {
+    return this.validatePolicy({
+      minServices: replication.min_nodes ?? this.DEFAULT_POLICY.minServices,
+      minRegions: replication.min_regions,
+      preferredRegions: replication.preferred_regions?.length ? replication.preferred_regions : undefined
+    });
+  }
+
+  static toVdicReplication(policy: ReplicationPolicy): VdicReplication {
+    return {
+      min_nodes: policy.minServices,
+      min_regions: policy.minRegions,
+      preferred_regions: policy.preferredRegions
+    };
+  }
+
+  static validatePolicy(policy: ReplicationPolicy): ReplicationPolicy {
+    if (!Number.isInteger(policy.minServices) || policy.minServices < 1) {
+      throw new Error('Replication policy minServices must be a positive integer');
+    }
+    if (policy.minRegions !== undefined) {
+      if (!Number.isInteger(policy.minRegions) || policy.minRegions < 1) {
+        throw new Error('Replication policy minRegions must be a positive integer');
+      }
+      if (policy.minRegions > policy.minServices) {
+        throw new Error('Replication policy cannot require more regions than services');
+      }
+    }
+    if (policy.preferredRegions !== undefined && !Array.isArray(policy.preferredRegions)) {
+      throw new Error('Replication policy preferredRegions must be an array');
+    }
+    return policy;
+  }
+
+  static getPolicy(item: DatastoreItem, fallback: ReplicationPolicy = this.DEFAULT_POLICY): ReplicationPolicy {
+    return item.replication?.policy ?? fallback;
+  }
+
+  // Items saved before replication tracking only know which services they were pinned to; fresh uploads know none
+  static getReplicas(item: DatastoreItem, services: PinningService[]): ReplicaStatus[] {
+    if (item.replication) {
+      return item.replication.replicas;
+    }
+    const pinnedAt = Number.isFinite(item.timestamp) ? item.timestamp : Date.now();
+    return (item.pinned ?? []).map(serviceId => ({
+      serviceId,
+      region: services.find(service => service.id === serviceId)?.region,
+      status: 'pinned' as const,
+      updatedAt: new Date(pinnedAt).toISOString()
+    }));
+  }
+
+  static evaluate(item: DatastoreItem, services: PinningService[], policy: ReplicationPolicy = this.getPolicy(item)): ReplicationReport {
+    const replicas = this.getReplicas(item, services);
+    const pinned = replicas.filter(replica => replica.status === 'pinned');
+    const pending = replicas.filter(replica => replica.status === 'queued' || replica.status === 'pinning');
+    const regions = this.regionsOf(pinned);
+    const missingServices = Math.max(0, policy.minServices - pinned.length);
+    const missingRegions = Math.max(0, (policy.minRegions ?? 0) - regions.length);
+
+    return {
+      cid: item.cid,
+      name: item.name,
+      satisfied: missingServices === 0 && missingRegions === 0,
+      pinned: pinned.length,
+      pending: pending.length,
+      regions,
+      missingServices,
+      missingRegions
+    };
+  }
+
+  static findUnderReplicated(
+    items: DatastoreItem[],
+    services: PinningService[],
+    fallback: ReplicationPolicy = this.DEFAULT_POLICY
+  ): ReplicationReport[] {
+    return items
+      .map(item => this.evaluate(item, services, this.getPolicy(item, fallback)))
+      .filter(report => !report.satisfied);
+  }
+
+  // Greedy choice: cover missing regions first, then preferred regions, and avoid services that already dropped the CID
+  static selectServices(
+    services: PinningService[],
+    replicas: ReplicaStatus[],
+    policy: ReplicationPolicy
+  ): PinningService[] {
+    const active = replicas.filter(replica => this.ACTIVE_STATES.includes(replica.status));
+    const holding = new Set(active.map(replica => replica.serviceId));
+    const dropped = new Set(replicas.filter(replica => !this.ACTIVE_STATES.includes(replica.status)).map(replica => replica.serviceId));
+    const regions = new Set(this.regionsOf(active));
+    const preferred = policy.preferredRegions ?? [];
+    const minRegions = policy.minRegions ?? 0;
+
+    const candidates = services.filter(service => service.enabled && service.verified && !holding.has(service.id));
+    const selected: PinningService[] = [];
+
+    const score = (service: PinningService): number =>
+      (service.region && !regions.has(service.region) ? 4 : 0) +
+      (service.region && preferred.includes(service.region) ? 2 : 0) -
+      (dropped.has(service.id) ? 8 : 0);
+
+    while (candidates.length > 0) {
+      const needServices = active.length + selected.length < policy.minServices;
+      const needRegions = regions.size < minRegions;
+      if (!needServices && !needRegions) break;
+
+      candidates.sort((a, b) => score(b) - score(a));
+      const best = candidates[0];
+      const addsRegion = !!best.region && !regions.has(best.region);
+      if (!needServices && !addsRegion) break;
+
+      candidates.shift();
+      selected.push(best);
+      if (best.region) regions.add(best.region);
+    }
+
+    return selected;
+  }
+
+  static async replicate(
+    item: DatastoreItem,
+    services: PinningService[],
+    policy: ReplicationPolicy = this.getPolicy(item),
+    onProgress?: (message: string) => void,
+    pinOptions: PinFileOptions = {}
+  ): Promise<ReplicationResult> {
+    this.validatePolicy(policy);
+    let replicas = [...this.getReplicas(item, services)];
+    const attempted = new Set<string>();
+
+    try {
+      while (true) {
+        const untried = services.filter(service => !attempted.has(service.id));
+        const targets = this.selectServices(untried, replicas, policy);
+        if (targets.length === 0) break;
+
+        onProgress?.(`Replicating ${item.name} to ${targets.map(service => service.name).join(', ')}`);
+
+        const results = await Promise.all(targets.map(async (service) => {
+          attempted.add(service.id);
+          return { service, result: await PinningManager.pinFile(item, service, onProgress, pinOptions) };
+        }));
+
+        for (const { service, result } of results) {
+          replicas = this.upsertReplica(replicas, {
+            serviceId: service.id,
+            region: service.region,
+            requestId: result.requestId,
+            status: (result.status as PinState | undefined) ?? 'failed',
+            updatedAt: new Date().toISOString(),
+            error: result.error
+          });
+        }
+      }
+
+      const updated = this.withReplicas(item, replicas, policy);
+      const report = this.evaluate(updated, services, policy);
+      if (!report.satisfied) {
+        onProgress?.(`${item.name} is under-replicated: ${report.pinned}/${policy.minServices} services, ${report.regions.length}/${policy.minRegions ?? 0} regions`);
+      }
+
+      return { success: report.satisfied, item: updated, report };
+    } catch (error) {
+      const updated = this.withReplicas(item, replicas, policy);
+      return {
+        success: false,
+        item: updated,
+        report: this.evaluate(updated, services, policy),
+        error: error instanceof Error ? error.message : 'Replication failed'
+      };
+    }
+  }
+
+  // Re-reads every tracked pin request so content a service silently dropped shows up as removed or failed
+  static async refresh(item: DatastoreItem, services: PinningService[]): Promise<DatastoreItem> {
+    const replicas = await Promise.all(this.getReplicas(item, services).map(async (replica): Promise<ReplicaStatus> => {
+      const service = services.find(candidate => candidate.id === replica.serviceId);
+      if (!service || replica.status === 'removed') {
+        return replica;
+      }
+
+      if (!replica.requestId) {
+        const listed = await PinningManager.listPins(service, { cid: [item.cid], status: PinningManager.PIN_STATES, limit: 1 });
+        if (!listed.success) return { ...replica, error: listed.error };
+        const pin = listed.pins?.[0];
+        return pin
+          ? { ...replica, requestId: pin.requestid, status: pin.status, updatedAt: new Date().toISOString(), error: undefined }
+          : { ...replica, status: 'removed', updatedAt: new Date().toISOString() };
+      }
+
+      const result = await PinningManager.getPin(service, replica.requestId);
+      if (result.success && result.data) {
+        return { ...replica, status: result.data.status, updatedAt: new Date().toISOString(), error: undefined };
+      }
+      if (result.status === 404) {
+        return { ...replica, status: 'removed', updatedAt: new Date().toISOString(), error: result.error };
+      }
+      return { ...replica, error: result.error };
+    }));
+
+    return this.withReplicas(item, replicas, item.replication?.policy);
+  }
+
+  static async reconcile(
+    item: DatastoreItem,
+    services: PinningService[],
+    policy: ReplicationPolicy = this.getPolicy(item),
+    onProgress?: (message: string) => void
+  ): Promise<ReplicationResult> {
+    const previouslyActive = new Set(
+      this.getReplicas(item, services).filter(replica => this.ACTIVE_STATES.includes(replica.status)).map(replica => replica.serviceId)
+    );
+    const refreshed = await this.refresh(item, services);
+    const dropped = refreshed.replication!.replicas.filter(replica =>
+      previouslyActive.has(replica.serviceId) && !this.ACTIVE_STATES.includes(replica.status)
+    );
+    for (const replica of dropped) {
+      onProgress?.(`${replica.serviceId} no longer holds ${item.name} (${replica.status})`);
+    }
+    return await this.replicate(refreshed, services, policy, onProgress);
+  }
+
+  private static withReplicas(item: DatastoreItem, replicas: ReplicaStatus[], policy?: ReplicationPolicy): DatastoreItem {
+    const replication: ItemReplication = { replicas, checkedAt: new Date().toISOString() };
+    if (policy) replication.policy = policy;
+
+    return {
+      ...item,
+      pinned: replicas.filter(replica => replica.status === 'pinned').map(replica => replica.serviceId),
+      replication
+    };
+  }
+
+  private static upsertReplica(replicas: ReplicaStatus[], replica: ReplicaStatus): ReplicaStatus[] {
+    return [...replicas.filter(existing => existing.serviceId !== replica.serviceId), replica];
+  }
+
+  private static regionsOf(replicas: ReplicaStatus[]): string[] {
+    return Array.from(new Set(replicas.map(replica => replica.region).filter((region): region is string => !!region)));
+  }
+}
\ No newline at end of file
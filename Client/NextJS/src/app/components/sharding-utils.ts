@@ -1,23 +1,78 @@
+import { sha256 } from 'multiformats/hashes/sha2';
 import { ShardingConfig } from './interfaces';
+import { ContentChunker } from './content-chunker';
+import { MerkleProof, MerkleProofs, ProofVerificationResult } from './merkle-proof';
+
+export interface ShardEntry {
+  index: number;
+  size: number;
+  digest?: string;
+  cid?: string;
+}
 
 export interface ShardManifest {
+  version: number;
   name: string;
   size: number;
-  shards: string[];
+  shardSize: number;
+  shards: ShardEntry[];
   encrypted: boolean;
-  encryptionKey?: string;
   contentType: string;
   mimeType: string;
   timestamp: number;
-  checksum: string;
+  digestAlgorithm: 'sha2-256';
+  digest?: string;
+  shardRoot?: string;
+  legacyChecksum?: string;
+}
+
+export interface LegacyShardManifest {
+  name?: string;
+  size?: number;
+  originalSize?: number;
+  shardSize?: number;
+  shards: string[];
+  encrypted?: boolean;
+  encryptionKey?: string;
+  contentType?: string;
+  mimeType?: string;
+  timestamp?: number;
+  checksum?: string;
+}
+
+export interface ShardVerificationResult {
+  valid: boolean;
+  badShards: number[];
+  missingShards: number[];
+  digestMatch: boolean;
+  legacy: boolean;
+  error?: string;
 }
 
 export class ShardingUtils {
+  static readonly MANIFEST_VERSION = 2;
+
+  static async createShards(data: Uint8Array, config: ShardingConfig): Promise<Uint8Array[]> {
+    return this.shardFile(data, config);
+  }
+
   static shardFile(data: Uint8Array, config: ShardingConfig): Uint8Array[] {
     if (!config.enabled || data.length <= config.chunkSize) {
       return [data];
     }
 
+    if (config.chunker === 'fastcdc') {
+      const shards = ContentChunker.split(data, {
+        name: 'fastcdc',
+        minChunkSize: Math.floor(config.chunkSize / 2),
+        avgChunkSize: config.chunkSize,
+        maxChunkSize: Math.min(ContentChunker.MAX_CHUNK_SIZE, config.chunkSize * 2)
+      });
+      if (shards.length <= config.maxShards) {
+        return shards;
+      }
+    }
+
     const shards: Uint8Array[] = [];
     let offset = 0;
     let shardIndex = 0;
@@ -66,47 +121,255 @@ export class ShardingUtils {
     return reconstructed;
   }
 
-  static createManifest(
+  static async reconstructFromShards(
+    shards: Array<Uint8Array | null | undefined>,
+    manifest?: ShardManifest
+  ): Promise<Uint8Array> {
+    if (manifest) {
+      const verification = await this.verifyShards(shards, manifest);
+      if (!verification.valid) {
+        throw new Error(verification.error);
+      }
+    }
+
+    const missing = shards.findIndex(shard => !shard);
+    if (missing !== -1) {
+      throw new Error(`Shard ${missing} is missing`);
+    }
+
+    const data = this.reconstructFile(shards as Uint8Array[]);
+
+    if (manifest) {
+      const verification = await this.verifyReconstructedFile(data, manifest);
+      if (!verification.valid) {
+        throw new Error(verification.error);
+      }
+    }
+
+    return data;
+  }
+
+  static async createManifest(
     filename: string,
     originalData: Uint8Array,
+    shards: Uint8Array[],
     shardCids: string[],
     encrypted: boolean,
-    encryptionKey: string,
     contentType: string,
     mimeType: string
-  ): ShardManifest {
+  ): Promise<ShardManifest> {
+    if (shards.length !== shardCids.length) {
+      throw new Error(`Expected ${shards.length} shard CIDs, got ${shardCids.length}`);
+    }
+
+    const entries = await Promise.all(shards.map(async (shard, index) => ({
+      index,
+      size: shard.length,
+      digest: await this.calculateDigest(shard),
+      cid: shardCids[index]
+    })));
+
     return {
+      version: this.MANIFEST_VERSION,
       name: filename,
       size: originalData.length,
-      shards: shardCids,
+      shardSize: shards[0]?.length ?? 0,
+      shards: entries,
       encrypted,
-      encryptionKey: encrypted ? encryptionKey : undefined,
       contentType,
       mimeType,
       timestamp: Date.now(),
-      checksum: this.calculateChecksum(originalData)
+      digestAlgorithm: 'sha2-256',
+      digest: await this.calculateDigest(originalData),
+      shardRoot: await MerkleProofs.computeShardRoot(shardCids)
     };
   }
 
+  static createManifestBuffer(manifest: ShardManifest): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify(manifest));
+  }
+
+  static parseManifest(input: Uint8Array | string | object): ShardManifest {
+    const raw = input instanceof Uint8Array
+      ? JSON.parse(new TextDecoder().decode(input))
+      : typeof input === 'string' ? JSON.parse(input) : input;
+
+    if (!raw || !Array.isArray(raw.shards)) {
+      throw new Error('Invalid shard manifest: missing shard list');
+    }
+
+    return this.isLegacyManifest(raw) ? this.migrateManifest(raw) : raw as ShardManifest;
+  }
+
+  static isLegacyManifest(manifest: any): manifest is LegacyShardManifest {
+    return !manifest.version || manifest.version < this.MANIFEST_VERSION ||
+      (Array.isArray(manifest.shards) && typeof manifest.shards[0] === 'string');
+  }
+
+  static migrateManifest(legacy: LegacyShardManifest): ShardManifest {
+    return {
+      version: this.MANIFEST_VERSION,
+      name: legacy.name || 'unknown',
+      size: legacy.size ?? legacy.originalSize ?? 0,
+      shardSize: legacy.shardSize ?? 0,
+      shards: legacy.shards.map((cid, index) => ({ index, size: -1, cid })),
+      encrypted: legacy.encrypted ?? false,
+      contentType: legacy.contentType || 'binary',
+      mimeType: legacy.mimeType || 'application/octet-stream',
+      timestamp: legacy.timestamp ?? 0,
+      digestAlgorithm: 'sha2-256',
+      legacyChecksum: legacy.checksum
+    };
+  }
+
+  static async upgradeManifest(manifest: ShardManifest, shards: Uint8Array[]): Promise<ShardManifest> {
+    const data = this.reconstructFile(shards);
+    if (manifest.legacyChecksum && this.calculateLegacyChecksum(data) !== manifest.legacyChecksum) {
+      throw new Error('Cannot upgrade manifest: reconstructed data does not match the legacy checksum');
+    }
+
+    const entries = await Promise.all(shards.map(async (shard, index) => ({
+      index,
+      size: shard.length,
+      digest: await this.calculateDigest(shard),
+      cid: manifest.shards[index]?.cid
+    })));
+
+    const { legacyChecksum, ...rest } = manifest;
+    const shardCids = entries.map(entry => entry.cid);
+    return {
+      ...rest,
+      size: data.length,
+      shardSize: shards[0]?.length ?? 0,
+      shards: entries,
+      digest: await this.calculateDigest(data),
+      shardRoot: shardCids.every(cid => cid) ? await MerkleProofs.computeShardRoot(shardCids as string[]) : undefined
+    };
+  }
+
+  // A shard is proven part of a file by a path proof of the single-block manifest and a proof against the root it records
+  static async verifyShardInclusion(
+    manifestCid: string,
+    manifestProof: MerkleProof,
+    shardProof: MerkleProof
+  ): Promise<ProofVerificationResult> {
+    if (manifestProof.type !== 'unixfs-path' || shardProof.type !== 'shard-root') {
+      return { valid: false, error: 'Expected a manifest path proof and a shard root proof' };
+    }
+    const manifestCheck = await MerkleProofs.verify(manifestProof, manifestCid);
+    if (!manifestCheck.valid) {
+      return manifestCheck;
+    }
+    if (manifestProof.blocks.length > 0) {
+      return { valid: false, error: 'Shard manifest spans more than one block' };
+    }
+
+    const manifest = this.parseManifest(MerkleProofs.leafData(manifestProof));
+    if (!manifest.shardRoot) {
+      return { valid: false, error: 'Shard manifest has no shard root' };
+    }
+    if (shardProof.shardCount !== manifest.shards.length || manifest.shards[shardProof.index]?.cid !== shardProof.shard) {
+      return { valid: false, error: `Shard ${shardProof.index} is not listed in the manifest` };
+    }
+    return await MerkleProofs.verify(shardProof, manifest.shardRoot);
+  }
+
   static validateManifest(manifest: ShardManifest): boolean {
+    // Migrated manifests without a digest are accepted as legacy; verifyReconstructedFile flags them
+    const legacy = !manifest.digest;
     return !!(
-      manifest.name &&
+      manifest.version === this.MANIFEST_VERSION &&
       manifest.size > 0 &&
       manifest.shards &&
       manifest.shards.length > 0 &&
-      manifest.contentType &&
-      manifest.mimeType &&
-      manifest.timestamp &&
-      manifest.checksum
+      manifest.shards.every((shard, index) => shard.index === index && (shard.digest || legacy)) &&
+      (legacy || (manifest.name && manifest.contentType && manifest.mimeType && manifest.timestamp))
     );
   }
 
-  static async verifyReconstructedFile(data: Uint8Array, expectedChecksum: string): Promise<boolean> {
-    const actualChecksum = this.calculateChecksum(data);
-    return actualChecksum === expectedChecksum;
+  static async verifyShards(
+    shards: Array<Uint8Array | null | undefined>,
+    manifest: ShardManifest
+  ): Promise<ShardVerificationResult> {
+    const badShards: number[] = [];
+    const missingShards: number[] = [];
+    const legacy = manifest.shards.some(shard => !shard.digest);
+
+    for (const entry of manifest.shards) {
+      const shard = shards[entry.index];
+      if (!shard) {
+        missingShards.push(entry.index);
+        continue;
+      }
+      if (!entry.digest) continue;
+
+      if (shard.length !== entry.size || (await this.calculateDigest(shard)) !== entry.digest) {
+        badShards.push(entry.index);
+      }
+    }
+
+    const valid = badShards.length === 0 && missingShards.length === 0;
+    return {
+      valid,
+      badShards,
+      missingShards,
+      digestMatch: valid,
+      legacy,
+      error: valid ? undefined : this.describeFailure(badShards, missingShards)
+    };
+  }
+
+  static async verifyReconstructedFile(
+    data: Uint8Array,
+    manifest: ShardManifest,
+    shards?: Array<Uint8Array | null | undefined>
+  ): Promise<ShardVerificationResult> {
+    const shardResult = shards
+      ? await this.verifyShards(shards, manifest)
+      : { valid: true, badShards: [], missingShards: [], digestMatch: true, legacy: false };
+
+    let digestMatch: boolean;
+    let legacy = shardResult.legacy;
+
+    if (manifest.digest) {
+      digestMatch = data.length === manifest.size && (await this.calculateDigest(data)) === manifest.digest;
+    } else if (manifest.legacyChecksum) {
+      legacy = true;
+      digestMatch = this.calculateLegacyChecksum(data) === manifest.legacyChecksum;
+    } else {
+      // Manifests written before checksums were added carry nothing to compare against; they still download, flagged as legacy
+      console.warn(`Shard manifest for ${manifest.name} has no file digest; reconstructed data is unverified`);
+      return { ...shardResult, digestMatch: false, legacy: true };
+    }
+
+    const valid = shardResult.valid && digestMatch;
+    let error: string | undefined;
+    if (!shardResult.valid) {
+      error = shardResult.error;
+    } else if (!digestMatch) {
+      error = 'Reconstructed file does not match the manifest digest';
+    }
+
+    return { ...shardResult, valid, digestMatch, legacy, error };
+  }
+
+  static async calculateDigest(data: Uint8Array): Promise<string> {
+    const { digest } = await sha256.digest(data);
+    return Array.from(digest).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private static describeFailure(badShards: number[], missingShards: number[]): string {
+    const parts: string[] = [];
+    if (badShards.length > 0) {
+      parts.push(`corrupted shard${badShards.length > 1 ? 's' : ''} ${badShards.join(', ')}`);
+    }
+    if (missingShards.length > 0) {
+      parts.push(`missing shard${missingShards.length > 1 ? 's' : ''} ${missingShards.join(', ')}`);
+    }
+    return `Shard verification failed: ${parts.join('; ')}`;
   }
 
-  private static calculateChecksum(data: Uint8Array): string {
+  private static calculateLegacyChecksum(data: Uint8Array): string {
     let hash = 0;
     for (let i = 0; i < data.length; i++) {
       const char = data[i];
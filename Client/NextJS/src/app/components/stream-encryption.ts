@@ -0,0 +1,281 @@
+export interface SegmentedEncryptionHeader {
+  version: number;
+  segmentSize: number;
+  noncePrefix: Uint8Array;
+}
+
+export type CiphertextReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+export class StreamEncryption {
+  static readonly VERSION = 1;
+  static readonly HEADER_SIZE = 16;
+  static readonly TAG_SIZE = 16;
+  static readonly DEFAULT_SEGMENT_SIZE = 64 * 1024;
+  private static readonly MAGIC = [0x56, 0x44, 0x53, 0x45];
+  private static readonly NONCE_PREFIX_SIZE = 7;
+  private static readonly MAX_SEGMENT_SIZE = 16 * 1024 * 1024;
+
+  static createHeader(segmentSize: number = this.DEFAULT_SEGMENT_SIZE): SegmentedEncryptionHeader {
+    this.validateSegmentSize(segmentSize);
+    return {
+      version: this.VERSION,
+      segmentSize,
+      noncePrefix: crypto.getRandomValues(new Uint8Array(this.NONCE_PREFIX_SIZE))
+    };
+  }
+
+  static encodeHeader(header: SegmentedEncryptionHeader): Uint8Array {
+    const bytes = new Uint8Array(this.HEADER_SIZE);
+    bytes.set(this.MAGIC, 0);
+    bytes[4] = header.version;
+    new DataView(bytes.buffer).setUint32(5, header.segmentSize, false);
+    bytes.set(header.noncePrefix, 9);
+    return bytes;
+  }
+
+  static decodeHeader(bytes: Uint8Array): SegmentedEncryptionHeader {
+    if (bytes.length < this.HEADER_SIZE) {
+      throw new Error('Segmented ciphertext is truncated: missing header');
+    }
+    if (!this.MAGIC.every((byte, i) => bytes[i] === byte)) {
+      throw new Error('Not a segmented ciphertext: invalid header magic');
+    }
+    if (bytes[4] !== this.VERSION) {
+      throw new Error(`Unsupported segmented encryption version: ${bytes[4]}`);
+    }
+
+    const segmentSize = new DataView(bytes.buffer, bytes.byteOffset, this.HEADER_SIZE).getUint32(5, false);
+    this.validateSegmentSize(segmentSize);
+
+    return {
+      version: bytes[4],
+      segmentSize,
+      noncePrefix: bytes.slice(9, 9 + this.NONCE_PREFIX_SIZE)
+    };
+  }
+
+  static createEncryptionStream(
+    key: CryptoKey,
+    segmentSize: number = this.DEFAULT_SEGMENT_SIZE
+  ): TransformStream<Uint8Array, Uint8Array> {
+    const header = this.createHeader(segmentSize);
+    const headerBytes = this.encodeHeader(header);
+    const buffer = new SegmentBuffer();
+    let segmentIndex = 0;
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+      start: (controller) => {
+        controller.enqueue(headerBytes);
+      },
+      transform: async (chunk, controller) => {
+        buffer.push(chunk);
+        while (buffer.length > segmentSize) {
+          const plaintext = buffer.take(segmentSize);
+          controller.enqueue(await this.encryptSegment(key, header, headerBytes, segmentIndex++, false, plaintext));
+        }
+      },
+      flush: async (controller) => {
+        const plaintext = buffer.take(buffer.length);
+        controller.enqueue(await this.encryptSegment(key, header, headerBytes, segmentIndex, true, plaintext));
+      }
+    });
+  }
+
+  static createDecryptionStream(key: CryptoKey): TransformStream<Uint8Array, Uint8Array> {
+    const buffer = new SegmentBuffer();
+    let header: SegmentedEncryptionHeader | null = null;
+    let headerBytes: Uint8Array | null = null;
+    let segmentIndex = 0;
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+      transform: async (chunk, controller) => {
+        buffer.push(chunk);
+
+        if (!header && buffer.length >= this.HEADER_SIZE) {
+          headerBytes = buffer.take(this.HEADER_SIZE);
+          header = this.decodeHeader(headerBytes);
+        }
+        if (!header || !headerBytes) return;
+
+        const encryptedSegmentSize = header.segmentSize + this.TAG_SIZE;
+        while (buffer.length > encryptedSegmentSize) {
+          const ciphertext = buffer.take(encryptedSegmentSize);
+          controller.enqueue(await this.decryptSegment(key, header, headerBytes, segmentIndex++, false, ciphertext));
+        }
+      },
+      flush: async (controller) => {
+        if (!header || !headerBytes) {
+          throw new Error('Segmented ciphertext is truncated: missing header');
+        }
+        if (buffer.length < this.TAG_SIZE) {
+          throw new Error('Segmented ciphertext is truncated: missing final segment');
+        }
+
+        const ciphertext = buffer.take(buffer.length);
+        controller.enqueue(await this.decryptSegment(key, header, headerBytes, segmentIndex, true, ciphertext));
+      }
+    });
+  }
+
+  static getCiphertextSize(plaintextSize: number, segmentSize: number = this.DEFAULT_SEGMENT_SIZE): number {
+    const segmentCount = Math.max(1, Math.ceil(plaintextSize / segmentSize));
+    return this.HEADER_SIZE + plaintextSize + segmentCount * this.TAG_SIZE;
+  }
+
+  static getPlaintextSize(ciphertextSize: number, segmentSize: number): number {
+    const body = ciphertextSize - this.HEADER_SIZE;
+    if (body < this.TAG_SIZE) {
+      throw new Error('Segmented ciphertext is truncated');
+    }
+    const segmentCount = Math.ceil(body / (segmentSize + this.TAG_SIZE));
+    return body - segmentCount * this.TAG_SIZE;
+  }
+
+  static async decryptRange(
+    read: CiphertextReader,
+    ciphertextSize: number,
+    key: CryptoKey,
+    start: number,
+    end: number
+  ): Promise<Uint8Array> {
+    const headerBytes = await read(0, this.HEADER_SIZE);
+    const header = this.decodeHeader(headerBytes);
+    const plaintextSize = this.getPlaintextSize(ciphertextSize, header.segmentSize);
+
+    const rangeStart = Math.max(0, start);
+    const rangeEnd = Math.min(end, plaintextSize);
+    if (rangeEnd <= rangeStart) {
+      return new Uint8Array(0);
+    }
+
+    const encryptedSegmentSize = header.segmentSize + this.TAG_SIZE;
+    const segmentCount = Math.max(1, Math.ceil(plaintextSize / header.segmentSize));
+    const firstSegment = Math.floor(rangeStart / header.segmentSize);
+    const lastSegment = Math.floor((rangeEnd - 1) / header.segmentSize);
+
+    const output = new Uint8Array(rangeEnd - rangeStart);
+    let written = 0;
+
+    for (let index = firstSegment; index <= lastSegment; index++) {
+      const offset = this.HEADER_SIZE + index * encryptedSegmentSize;
+      const length = Math.min(encryptedSegmentSize, ciphertextSize - offset);
+      const ciphertext = await read(offset, length);
+      const plaintext = await this.decryptSegment(key, header, headerBytes, index, index === segmentCount - 1, ciphertext);
+
+      const segmentStart = index * header.segmentSize;
+      const sliceStart = Math.max(rangeStart - segmentStart, 0);
+      const sliceEnd = Math.min(rangeEnd - segmentStart, plaintext.length);
+      const slice = plaintext.subarray(sliceStart, sliceEnd);
+
+      output.set(slice, written);
+      written += slice.length;
+    }
+
+    return output;
+  }
+
+  private static async encryptSegment(
+    key: CryptoKey,
+    header: SegmentedEncryptionHeader,
+    headerBytes: Uint8Array,
+    index: number,
+    final: boolean,
+    plaintext: Uint8Array
+  ): Promise<Uint8Array> {
+    const encrypted = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: this.buildNonce(header.noncePrefix, index, final),
+        additionalData: this.copyBytes(headerBytes)
+      },
+      key,
+      this.copyBytes(plaintext)
+    );
+    return new Uint8Array(encrypted);
+  }
+
+  private static async decryptSegment(
+    key: CryptoKey,
+    header: SegmentedEncryptionHeader,
+    headerBytes: Uint8Array,
+    index: number,
+    final: boolean,
+    ciphertext: Uint8Array
+  ): Promise<Uint8Array> {
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: this.buildNonce(header.noncePrefix, index, final),
+          additionalData: this.copyBytes(headerBytes)
+        },
+        key,
+        this.copyBytes(ciphertext)
+      );
+      return new Uint8Array(decrypted);
+    } catch {
+      throw new Error(`Failed to decrypt segment ${index}: ciphertext was modified, reordered or truncated`);
+    }
+  }
+
+  private static buildNonce(noncePrefix: Uint8Array, index: number, final: boolean): Uint8Array<ArrayBuffer> {
+    const nonce = new Uint8Array(12);
+    nonce.set(noncePrefix, 0);
+    new DataView(nonce.buffer).setUint32(this.NONCE_PREFIX_SIZE, index, false);
+    nonce[11] = final ? 1 : 0;
+    return nonce;
+  }
+
+  private static copyBytes(data: Uint8Array): Uint8Array<ArrayBuffer> {
+    const copy = new Uint8Array(data.length);
+    copy.set(data);
+    return copy;
+  }
+
+  private static validateSegmentSize(segmentSize: number): void {
+    if (!Number.isInteger(segmentSize) || segmentSize <= 0) {
+      throw new Error('Segment size must be a positive integer');
+    }
+    if (segmentSize > this.MAX_SEGMENT_SIZE) {
+      throw new Error('Segment size too large (max 16MB)');
+    }
+  }
+}
+
+class SegmentBuffer {
+  private chunks: Uint8Array[] = [];
+  private size = 0;
+
+  get length(): number {
+    return this.size;
+  }
+
+  push(chunk: Uint8Array): void {
+    if (chunk.length === 0) return;
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+  }
+
+  take(count: number): Uint8Array {
+    const result = new Uint8Array(count);
+    let written = 0;
+
+    while (written < count) {
+      const chunk = this.chunks[0];
+      const needed = count - written;
+
+      if (chunk.length <= needed) {
+        result.set(chunk, written);
+        written += chunk.length;
+        this.chunks.shift();
+      } else {
+        result.set(chunk.subarray(0, needed), written);
+        this.chunks[0] = chunk.subarray(needed);
+        written += needed;
+      }
+    }
+
+    this.size -= count;
+    return result;
+  }
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { StreamEncryption } from './stream-encryption';
+
 export class StreamUtils {
   static createReadableStream(data: Uint8Array): ReadableStream<Uint8Array> {
     return new ReadableStream({
@@ -58,6 +60,32 @@ export class StreamUtils {
     return this.createReadableStream(new Uint8Array(buffer));
   }
 
+  static async encryptedStreamFromFile(
+    file: File,
+    key: CryptoKey,
+    segmentSize?: number
+  ): Promise<ReadableStream<Uint8Array>> {
+    const stream = await this.streamFromFile(file);
+    return stream.pipeThrough(StreamEncryption.createEncryptionStream(key, segmentSize));
+  }
+
+  static asyncIterableToStream(iterable: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+    const iterator = iterable[Symbol.asyncIterator]();
+    return new ReadableStream({
+      async pull(controller) {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      async cancel() {
+        await iterator.return?.();
+      }
+    });
+  }
+
   static async *progressTrackingIterable<T>(
     iterable: AsyncIterable<T>,
     onProgress: (processed: number, total?: number) => void,
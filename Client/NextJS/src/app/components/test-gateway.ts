@@ -0,0 +1,181 @@
+import { CID } from 'multiformats/cid';
+import { base58btc } from 'multiformats/bases/base58';
+import { CARHandler } from './car-handler';
+import { StreamUtils } from './stream-utils';
+import { TrustlessRetrieval } from './trustless-retrieval';
+
+export interface TestGatewayConfig {
+  corruptBlocks?: boolean;
+  omitBlocks?: boolean;
+  delay?: number;
+}
+
+export class TestGateway {
+  private static instance: TestGateway;
+  private config: Required<TestGatewayConfig>;
+  private blocks = new Map<string, Uint8Array>();
+
+  constructor(config: TestGatewayConfig = {}) {
+    this.config = {
+      corruptBlocks: config.corruptBlocks ?? false,
+      omitBlocks: config.omitBlocks ?? false,
+      delay: config.delay ?? 0
+    };
+  }
+
+  static getInstance(): TestGateway {
+    if (!TestGateway.instance) {
+      TestGateway.instance = new TestGateway({
+        corruptBlocks: process.env.TEST_GATEWAY_CORRUPT === 'true',
+        omitBlocks: process.env.TEST_GATEWAY_OMIT === 'true',
+        delay: process.env.TEST_GATEWAY_DELAY ? Number(process.env.TEST_GATEWAY_DELAY) : undefined
+      });
+    }
+    return TestGateway.instance;
+  }
+
+  static isEnabled(): boolean {
+    return process.env.NODE_ENV !== 'production' || process.env.TEST_GATEWAY === 'true';
+  }
+
+  configure(config: TestGatewayConfig): void {
+    this.config = { ...this.config, ...Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)) };
+  }
+
+  reset(): void {
+    this.blocks.clear();
+  }
+
+  // Blocks are keyed by multihash so the same bytes are served whatever codec or CID version is requested
+  putBlock(cid: CID, bytes: Uint8Array): void {
+    this.blocks.set(base58btc.encode(cid.multihash.bytes), bytes);
+  }
+
+  async handle(request: Request): Promise<Response> {
+    if (!TestGateway.isEnabled()) {
+      return this.failure(404, 'The test gateway is disabled');
+    }
+
+    const url = new URL(request.url);
+    const match = url.pathname.match(/\/ipfs(?:\/([^/]+))?\/?$/);
+    if (!match) {
+      return this.failure(404, `No route for ${url.pathname}`);
+    }
+
+    try {
+      if (!match[1]) {
+        if (request.method === 'POST') return await this.seed(request);
+        return this.failure(405, `${request.method} is not supported here`);
+      }
+      if (request.method !== 'GET' && request.method !== 'HEAD') {
+        return this.failure(405, `${request.method} is not supported here`);
+      }
+
+      let cid: CID;
+      try {
+        cid = CID.parse(decodeURIComponent(match[1]));
+      } catch {
+        return this.failure(400, `Invalid CID: ${match[1]}`);
+      }
+
+      if (this.config.delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.config.delay));
+      }
+
+      const format = this.negotiate(url.searchParams.get('format'), request.headers.get('accept'));
+      if (!format) {
+        return this.failure(406, 'Trustless gateway only serves application/vnd.ipld.raw and application/vnd.ipld.car');
+      }
+      if (!this.blocks.has(this.key(cid))) {
+        return this.failure(404, `Block ${cid.toString()} not found`);
+      }
+
+      return format === 'raw' ? this.serveRaw(cid, request.method === 'HEAD') : this.serveCar(cid, request.method === 'HEAD');
+    } catch (error) {
+      return this.failure(400, error instanceof Error ? error.message : 'Invalid request');
+    }
+  }
+
+  // Seeding takes a CAR so tests can load content exported from a client node
+  private async seed(request: Request): Promise<Response> {
+    if (!request.body) {
+      return this.failure(400, 'Request body must be a CAR archive');
+    }
+    const header = await CARHandler.readCAR(request.body, block => this.putBlock(block.cid, block.bytes));
+    return Response.json({ roots: header.roots.map(root => root.toString()), blocks: header.blockCount }, { status: 201 });
+  }
+
+  private serveRaw(cid: CID, headOnly: boolean): Response {
+    const bytes = this.corrupt(this.blocks.get(this.key(cid))!);
+    return new Response(headOnly ? null : bytes as BodyInit, {
+      headers: {
+        'Content-Type': TrustlessRetrieval.RAW_ACCEPT,
+        'Content-Length': String(bytes.length),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'public, max-age=29030400, immutable'
+      }
+    });
+  }
+
+  private serveCar(root: CID, headOnly: boolean): Response {
+    const headers = {
+      'Content-Type': TrustlessRetrieval.CAR_ACCEPT,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'public, max-age=29030400, immutable'
+    };
+    if (headOnly) {
+      return new Response(null, { headers });
+    }
+
+    let served = 0;
+    const blocks = CARHandler.writeCAR([root], async cid => {
+      const bytes = this.blocks.get(this.key(cid));
+      if (!bytes) throw new Error(`Block ${cid.toString()} not found`);
+      return bytes;
+    });
+    const omitting = this.config.omitBlocks;
+    const sections: AsyncIterable<Uint8Array> = {
+      async *[Symbol.asyncIterator]() {
+        for await (const chunk of blocks) {
+          // The header is the first chunk; dropping every later leaf still yields a syntactically valid CAR
+          if (omitting && served++ > 1) continue;
+          yield chunk;
+        }
+      }
+    };
+    return new Response(StreamUtils.asyncIterableToStream(this.corruptAll(sections)), { headers });
+  }
+
+  private negotiate(format: string | null, accept: string | null): 'raw' | 'car' | null {
+    if (format === 'raw' || format === 'car') return format;
+    if (format) return null;
+    if (accept?.includes(TrustlessRetrieval.RAW_ACCEPT)) return 'raw';
+    if (accept?.includes('application/vnd.ipld.car')) return 'car';
+    return null;
+  }
+
+  private async *corruptAll(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+    let header = true;
+    for await (const chunk of chunks) {
+      yield header ? chunk : this.corrupt(chunk);
+      header = false;
+    }
+  }
+
+  private corrupt(bytes: Uint8Array): Uint8Array {
+    if (!this.config.corruptBlocks || bytes.length === 0) {
+      return bytes;
+    }
+    const corrupted = bytes.slice();
+    corrupted[corrupted.length - 1] ^= 0xff;
+    return corrupted;
+  }
+
+  private key(cid: CID): string {
+    return base58btc.encode(cid.multihash.bytes);
+  }
+
+  private failure(status: number, message: string): Response {
+    return new Response(message, { status, headers: { 'Content-Type': 'text/plain' } });
+  }
+}
\ No newline at end of file
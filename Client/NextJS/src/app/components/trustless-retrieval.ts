@@ -0,0 +1,320 @@
+import { CID } from 'multiformats/cid';
+import drain from 'it-drain';
+import type { VerifiedFetch } from '@helia/verified-fetch';
+import { CARHandler } from './car-handler';
+import { HasherRegistry } from './hasher-registry';
+import { IPFSManager } from './ipfs-manager';
+
+export type RetrievalFormat = 'car' | 'raw';
+
+export interface RetrievalOptions {
+  gateways?: string[];
+  timeout?: number;
+  formats?: RetrievalFormat[];
+  onProgress?: (message: string) => void;
+}
+
+export interface GatewayAttempt {
+  gateway: string;
+  format: RetrievalFormat;
+  error: string;
+}
+
+export interface RetrievalResult {
+  success: boolean;
+  cid: string;
+  format?: RetrievalFormat;
+  gateway?: string;
+  blocks: number;
+  bytes: number;
+  attempts: GatewayAttempt[];
+  error?: string;
+}
+
+type BlockSink = (cid: CID, bytes: Uint8Array) => Promise<void>;
+
+export class TrustlessRetrieval {
+  static readonly DEFAULT_GATEWAYS = ['https://trustless-gateway.link'];
+  static readonly CAR_ACCEPT = 'application/vnd.ipld.car; version=1; order=dfs; dups=n';
+  static readonly RAW_ACCEPT = 'application/vnd.ipld.raw';
+  private static readonly DEFAULT_TIMEOUT = 30000;
+  private static gateways: string[] = [...TrustlessRetrieval.DEFAULT_GATEWAYS];
+  private static verifiedFetchInstance: Promise<VerifiedFetch> | null = null;
+
+  static setGateways(gateways: string[]): void {
+    this.gateways = gateways.map(gateway => gateway.replace(/\/+$/, '')).filter(Boolean);
+    this.verifiedFetchInstance = null;
+  }
+
+  static getGateways(): string[] {
+    return [...this.gateways];
+  }
+
+  // Downloads read from the local node, so any missing part of the DAG is pulled in from gateways first
+  static async ensureLocal(cid: string, onProgress?: (message: string) => void): Promise<RetrievalResult | null> {
+    if (await this.hasDag(CID.parse(cid))) {
+      return null;
+    }
+
+    onProgress?.(`Retrieving ${cid} from trustless gateways...`);
+    const result = await this.retrieve(cid, { onProgress });
+    if (!result.success) {
+      onProgress?.(`Gateway retrieval failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  static async retrieve(cid: string, options: RetrievalOptions = {}): Promise<RetrievalResult> {
+    return await this.fetchDag(CID.parse(cid), (blockCid, bytes) => IPFSManager.putBlock(blockCid, bytes), options);
+  }
+
+  // Tries a CAR of the whole DAG first and falls back to walking it block by block
+  static async fetchDag(root: CID, sink: BlockSink, options: RetrievalOptions = {}): Promise<RetrievalResult> {
+    const gateways = this.normalize(options.gateways ?? this.gateways);
+    const result: RetrievalResult = { success: false, cid: root.toString(), blocks: 0, bytes: 0, attempts: [] };
+
+    if (gateways.length === 0) {
+      result.error = 'No trustless gateway configured';
+      return result;
+    }
+
+    for (const format of options.formats ?? ['car', 'raw']) {
+      const received = new Map<string, number>();
+      const record: BlockSink = async (cid, bytes) => {
+        await sink(cid, bytes);
+        received.set(cid.toString(), bytes.length);
+      };
+
+      const outcome = format === 'car'
+        ? await this.fetchCar(root, gateways, record, result.attempts, options)
+        : await this.fetchBlocks(root, gateways, record, result.attempts, options);
+
+      if (outcome) {
+        result.success = true;
+        result.format = format;
+        result.gateway = outcome;
+        result.blocks = received.size;
+        result.bytes = Array.from(received.values()).reduce((sum, size) => sum + size, 0);
+        options.onProgress?.(`Retrieved ${result.blocks} verified blocks for ${result.cid} from ${outcome}`);
+        return result;
+      }
+    }
+
+    result.error = result.attempts.at(-1)?.error ?? 'All gateways failed';
+    return result;
+  }
+
+  // Races gateways for one raw block; the first response that hashes to the CID wins and the rest are aborted
+  static async fetchBlock(
+    cid: CID,
+    gateways: string[] = this.gateways,
+    timeout: number = this.DEFAULT_TIMEOUT,
+    attempts: GatewayAttempt[] = []
+  ): Promise<{ bytes: Uint8Array; gateway: string }> {
+    const { gateway, response, controllers } = await this.race(cid, 'raw', this.normalize(gateways), timeout, attempts);
+    try {
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      if (!(await HasherRegistry.verify(cid, bytes))) {
+        throw new Error(`Block ${cid.toString()} does not match its CID`);
+      }
+      return { bytes, gateway };
+    } catch (error) {
+      attempts.push({ gateway, format: 'raw', error: this.describe(error, gateway, cid) });
+      const remaining = this.normalize(gateways).filter(candidate => candidate !== gateway);
+      if (remaining.length === 0) throw new Error(attempts.at(-1)!.error);
+      return await this.fetchBlock(cid, remaining, timeout, attempts);
+    } finally {
+      controllers.forEach(controller => controller.abort());
+    }
+  }
+
+  // URL-level access (paths, ipfs:// and ipns:// links) through @helia/verified-fetch using the same gateways
+  static async verifiedFetch(resource: string, init?: RequestInit): Promise<Response> {
+    if (!this.verifiedFetchInstance) {
+      this.verifiedFetchInstance = import('@helia/verified-fetch')
+        .then(({ createVerifiedFetch }) => createVerifiedFetch({ gateways: this.gateways }));
+    }
+    const fetcher = await this.verifiedFetchInstance;
+    return await fetcher(resource, init);
+  }
+
+  // A rejected CAR can leave the root stored without its children, so every linked block has to be present
+  private static async hasDag(root: CID): Promise<boolean> {
+    const seen = new Set<string>();
+    const stack: CID[] = [root];
+    while (stack.length > 0) {
+      const cid = stack.pop()!;
+      if (seen.has(cid.toString())) continue;
+      seen.add(cid.toString());
+
+      if (!(await IPFSManager.hasBlock(cid))) {
+        return false;
+      }
+      stack.push(...CARHandler.getLinks(cid, await IPFSManager.getBlock(cid)));
+    }
+    return true;
+  }
+
+  private static async fetchCar(
+    root: CID,
+    gateways: string[],
+    sink: BlockSink,
+    attempts: GatewayAttempt[],
+    options: RetrievalOptions
+  ): Promise<string | null> {
+    let remaining = gateways;
+
+    while (remaining.length > 0) {
+      let winner: { gateway: string; response: Response; controllers: AbortController[] };
+      try {
+        winner = await this.race(root, 'car', remaining, options.timeout ?? this.DEFAULT_TIMEOUT, attempts);
+      } catch {
+        return null;
+      }
+
+      const { gateway, response, controllers } = winner;
+      remaining = remaining.filter(candidate => candidate !== gateway);
+
+      try {
+        // Blocks must be exactly the requested DAG: nothing unrequested, nothing missing when the stream ends
+        const received = new Set<string>();
+        const pending = new Set<string>([root.toString()]);
+        const header = await CARHandler.readCAR(response.body!, async block => {
+          const key = block.cid.toString();
+          if (!pending.delete(key)) {
+            throw new Error(`${gateway} sent block ${key} outside the requested DAG`);
+          }
+          await sink(block.cid, block.bytes);
+          received.add(key);
+          for (const link of CARHandler.getLinks(block.cid, block.bytes)) {
+            if (!received.has(link.toString())) pending.add(link.toString());
+          }
+        });
+        if (!header.roots.some(candidate => candidate.equals(root))) {
+          throw new Error(`${gateway} returned a CAR for a different root`);
+        }
+        if (pending.size > 0) {
+          throw new Error(`${gateway} omitted ${pending.size} blocks of ${root.toString()}`);
+        }
+
+        return gateway;
+      } catch (error) {
+        attempts.push({ gateway, format: 'car', error: this.describe(error, gateway, root) });
+        options.onProgress?.(`Discarding CAR from ${gateway}: ${attempts.at(-1)!.error}`);
+      } finally {
+        controllers.forEach(controller => controller.abort());
+      }
+    }
+
+    return null;
+  }
+
+  private static async fetchBlocks(
+    root: CID,
+    gateways: string[],
+    sink: BlockSink,
+    attempts: GatewayAttempt[],
+    options: RetrievalOptions
+  ): Promise<string | null> {
+    const used = new Set<string>();
+    try {
+      await drain(CARHandler.traverse([root], async cid => {
+        const { bytes, gateway } = await this.fetchBlock(cid, gateways, options.timeout ?? this.DEFAULT_TIMEOUT, attempts);
+        used.add(gateway);
+        await sink(cid, bytes);
+        return bytes;
+      }));
+      return Array.from(used).join(', ');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Block retrieval failed';
+      if (attempts.at(-1)?.error !== message) {
+        attempts.push({ gateway: Array.from(used).join(', ') || gateways.join(', '), format: 'raw', error: message });
+      }
+      return null;
+    }
+  }
+
+  private static async race(
+    cid: CID,
+    format: RetrievalFormat,
+    gateways: string[],
+    timeout: number,
+    attempts: GatewayAttempt[]
+  ): Promise<{ gateway: string; response: Response; controllers: AbortController[] }> {
+    const accept = format === 'car' ? this.CAR_ACCEPT : this.RAW_ACCEPT;
+    const controllers = gateways.map(() => new AbortController());
+    const timeoutId = setTimeout(() => controllers.forEach(controller => controller.abort()), timeout);
+    let settled = false;
+
+    try {
+      return await Promise.any(gateways.map(async (gateway, i) => {
+        try {
+          const response = await fetch(`${gateway}/ipfs/${cid.toString()}?format=${format}`, {
+            headers: { Accept: accept },
+            signal: controllers[i].signal
+          });
+          const contentType = response.headers.get('content-type') ?? '';
+          if (!response.ok) {
+            throw new Error(`${gateway} returned ${response.status} for ${cid.toString()}`);
+          }
+          if (!contentType.startsWith(accept.split(';')[0])) {
+            throw new Error(`${gateway} returned ${contentType || 'no content type'} instead of ${accept.split(';')[0]}`);
+          }
+
+          settled = true;
+          controllers.forEach((controller, j) => j !== i && controller.abort());
+          clearTimeout(timeoutId);
+          return { gateway, response: this.withIdleTimeout(response, controllers[i], timeout), controllers: [controllers[i]] };
+        } catch (error) {
+          if (!settled) {
+            attempts.push({ gateway, format, error: this.describe(error, gateway, cid) });
+          }
+          throw error;
+        }
+      }));
+    } catch {
+      clearTimeout(timeoutId);
+      throw new Error(`No gateway served ${cid.toString()} as ${format}`);
+    }
+  }
+
+  // The race timer stops once headers arrive, so every body read gets its own timer that aborts a stalled transfer
+  private static withIdleTimeout(response: Response, controller: AbortController, timeout: number): Response {
+    if (!response.body) {
+      return response;
+    }
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(stream) {
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            stream.close();
+          } else {
+            stream.enqueue(value);
+          }
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      }
+    }, { highWaterMark: 0 });
+
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+
+  private static describe(error: unknown, gateway: string, cid: CID): string {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return `${gateway} timed out fetching ${cid.toString()}`;
+    }
+    return error instanceof Error ? error.message : 'Network error';
+  }
+
+  private static normalize(gateways: string[]): string[] {
+    return Array.from(new Set(gateways.map(gateway => gateway.replace(/\/+$/, '')).filter(Boolean)));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { ShardingUtils } from './sharding-utils';
+
+export type UploadStage = 'preparing' | 'encrypting' | 'uploading' | 'finalizing' | 'complete';
+
+export interface UploadProgress {
+  stage: UploadStage;
+  fileName: string;
+  bytesUploaded: number;
+  totalBytes: number;
+  shardsComplete: number;
+  shardCount: number;
+  sessionId?: string;
+  resumed: boolean;
+}
+
+export interface ShardRecord {
+  index: number;
+  size: number;
+  digest: string;
+  cid?: string;
+}
+
+export interface UploadSession {
+  id: string;
+  fingerprint: string;
+  fileName: string;
+  fileSize: number;
+  totalBytes: number;
+  shards: ShardRecord[];
+  encryption?: { key: string; iv: string };
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class UploadSessions {
+  static readonly MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+  private static readonly STORAGE_KEY = 'ipfs-upload-sessions-v1';
+  private static memory: Record<string, UploadSession> = {};
+
+  // The plaintext digest is part of the fingerprint, so a session is only ever resumed for byte-identical input
+  static async fingerprint(fileName: string, digest: string, settings: object): Promise<string> {
+    return await ShardingUtils.calculateDigest(new TextEncoder().encode(JSON.stringify([fileName, digest, settings])));
+  }
+
+  static find(fingerprint: string): UploadSession | null {
+    return Object.values(this.load()).find(session => session.fingerprint === fingerprint) ?? null;
+  }
+
+  static list(): UploadSession[] {
+    return Object.values(this.load()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  // Completed shards carry over only where the re-created shard has the same size and digest
+  static begin(
+    fingerprint: string,
+    fileName: string,
+    fileSize: number,
+    shards: { size: number; digest: string }[],
+    encryption?: { key: string; iv: string }
+  ): { session: UploadSession; resumed: boolean } {
+    const existing = this.find(fingerprint);
+    const now = new Date().toISOString();
+    const records: ShardRecord[] = shards.map((shard, index) => {
+      const previous = existing?.shards[index];
+      const cid = previous && previous.size === shard.size && previous.digest === shard.digest ? previous.cid : undefined;
+      return { index, size: shard.size, digest: shard.digest, cid };
+    });
+
+    const session: UploadSession = {
+      id: existing?.id ?? crypto.randomUUID(),
+      fingerprint,
+      fileName,
+      fileSize,
+      totalBytes: shards.reduce((sum, shard) => sum + shard.size, 0),
+      shards: records,
+      encryption,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    this.store(session);
+    return { session, resumed: records.some(record => record.cid) };
+  }
+
+  static completeShard(session: UploadSession, index: number, cid: string): void {
+    session.shards[index].cid = cid;
+    delete session.error;
+    session.updatedAt = new Date().toISOString();
+    this.store(session);
+  }
+
+  static resetShard(session: UploadSession, index: number): void {
+    delete session.shards[index].cid;
+    session.updatedAt = new Date().toISOString();
+    this.store(session);
+  }
+
+  static interrupt(session: UploadSession, error: string): void {
+    session.error = error;
+    session.updatedAt = new Date().toISOString();
+    this.store(session);
+  }
+
+  static finish(session: UploadSession): void {
+    this.discard(session.id);
+  }
+
+  static discard(id: string): void {
+    const sessions = this.load();
+    delete sessions[id];
+    this.save(sessions);
+  }
+
+  static bytesComplete(session: UploadSession): number {
+    return session.shards.reduce((sum, shard) => sum + (shard.cid ? shard.size : 0), 0);
+  }
+
+  static prune(maxAge: number = this.MAX_AGE, now: number = Date.now()): number {
+    const sessions = this.load();
+    const stale = Object.keys(sessions).filter(id => now - Date.parse(sessions[id].updatedAt) > maxAge);
+    stale.forEach(id => delete sessions[id]);
+    if (stale.length > 0) this.save(sessions);
+    return stale.length;
+  }
+
+  private static store(session: UploadSession): void {
+    const sessions = this.load();
+    sessions[session.id] = session;
+    this.save(sessions);
+  }
+
+  private static load(): Record<string, UploadSession> {
+    if (typeof localStorage === 'undefined') return { ...this.memory };
+
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load upload sessions', error);
+      return {};
+    }
+  }
+
+  private static save(sessions: Record<string, UploadSession>): void {
+    if (typeof localStorage === 'undefined') {
+      this.memory = { ...sessions };
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(sessions));
+    } catch (error) {
+      console.warn('Failed to save upload sessions', error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,624 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CID } from 'multiformats/cid';
+import { IPFSManager } from './ipfs-manager';
+import { FileOperations, UploadFailure } from './file-operations';
+import { CIDOptions } from './cid-options';
+import { CryptoUtils } from './crypto-utils';
+import { StreamUtils } from './stream-utils';
+import { StreamEncryption } from './stream-encryption';
+import { ContentTypeHandler } from './content-handler';
+import { Logger } from './logger';
+import { AccessPolicyEngine, AssetFixture, FixtureAssetSource } from './access-policy';
+import { MerkleProofs } from './merkle-proof';
+import { HasherRegistry } from './hasher-registry';
+import { ShardingUtils } from './sharding-utils';
+import { ReplicationEngine } from './replication-engine';
+import { KeyDIDResolver, PresentationVerificationOptions, VerifiableCredentials } from './credentials';
+import {
+  VdicAccessControl,
+  VdicActor,
+  VdicAuthResponse,
+  VdicContentMetadata,
+  VdicEncryption,
+  VdicReplication,
+  VdicStorageResponse,
+  VdicVerificationLevel,
+  VdicVerificationResponse
+} from './interfaces';
+
+export interface VdicGatewayConfig {
+  dataDir: string;
+  maxUploadSize: number;
+  sessionTTL: number;
+  allowAnonymous: boolean;
+  trustedIssuers: string[];
+  audience?: string;
+  keySecret?: string;
+  cidOptions: CIDOptions;
+}
+
+export interface VdicGatewayResult<T> {
+  success: boolean;
+  status: number;
+  data?: T;
+  error?: string;
+}
+
+export interface VdicContentRecord {
+  cid: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  uploadedAt: string;
+  owner: string;
+  encryption: VdicEncryption;
+  wrappedKey?: string;
+  encryptionSegmentSize?: number;
+  access_control: VdicAccessControl;
+  replication: VdicReplication;
+  nodes_storing: number;
+}
+
+export interface VdicContentStream {
+  stream: ReadableStream<Uint8Array>;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export type VdicAuthenticator = (credential: string) => Promise<VdicActor | null>;
+
+interface VdicSession {
+  actor: VdicActor;
+  presentation: string;
+  expiresAt: number;
+}
+
+export class VdicGateway {
+  private static instance: VdicGateway;
+  private static readonly SUPPORTED_ENCRYPTION: VdicEncryption[] = ['none', 'aes-256-gcm'];
+  private static readonly SUPPORTED_LEVELS: VdicVerificationLevel[] = ['basic_integrity', 'merkle_proofs'];
+  private static readonly ANONYMOUS_DID = 'did:key:anonymous';
+  private static readonly UPLOAD_FAILURE_STATUS: Record<UploadFailure, number> = { invalid: 400, unauthenticated: 401, forbidden: 403 };
+  private config: VdicGatewayConfig;
+  private logger = Logger.getInstance().createChildLogger('VDIC-GATEWAY');
+  private records = new Map<string, VdicContentRecord>();
+  private keyEncryptionKey: CryptoKey | null = null;
+  private actors: VdicActor[] = [];
+  private sessions = new Map<string, VdicSession>();
+  private authenticator: VdicAuthenticator | null = null;
+  private ready: Promise<void> | null = null;
+
+  private constructor(config: Partial<VdicGatewayConfig> = {}) {
+    this.config = {
+      dataDir: process.env.VDIC_DATA_DIR || path.join(process.cwd(), '.vdic-data'),
+      maxUploadSize: 1024 * 1024 * 1024,
+      sessionTTL: 60 * 60 * 1000,
+      allowAnonymous: process.env.VDIC_ALLOW_ANONYMOUS === 'true',
+      trustedIssuers: (process.env.VDIC_TRUSTED_ISSUERS || '').split(',').map(issuer => issuer.trim()).filter(Boolean),
+      audience: process.env.VDIC_AUDIENCE || undefined,
+      keySecret: process.env.VDIC_KEY_SECRET || undefined,
+      cidOptions: { version: 1, hasher: { name: 'sha2-256' }, rawLeaves: true },
+      ...config
+    };
+
+    // The same presentation check authenticates actors and gates every upload made through FileOperations
+    if (this.config.trustedIssuers.length > 0) {
+      const credentials: PresentationVerificationOptions = {
+        resolver: new KeyDIDResolver(),
+        trustedIssuers: this.config.trustedIssuers,
+        audience: this.config.audience
+      };
+      this.authenticator = VerifiableCredentials.createActorAuthenticator(credentials);
+      FileOperations.requireCredentials(credentials);
+    } else if (!this.config.allowAnonymous) {
+      this.logger.warn('No trusted issuers configured; set VDIC_TRUSTED_ISSUERS to accept credentials');
+    }
+  }
+
+  static getInstance(config?: Partial<VdicGatewayConfig>): VdicGateway {
+    if (!VdicGateway.instance) {
+      VdicGateway.instance = new VdicGateway(config);
+    }
+    return VdicGateway.instance;
+  }
+
+  setAuthenticator(authenticator: VdicAuthenticator): void {
+    this.authenticator = authenticator;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.start().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async start(): Promise<void> {
+    await fs.mkdir(this.config.dataDir, { recursive: true });
+
+    const [{ FsBlockstore }, { FsDatastore }] = await Promise.all([
+      import('blockstore-fs'),
+      import('datastore-fs')
+    ]);
+
+    const blockstore = new FsBlockstore(path.join(this.config.dataDir, 'blocks'));
+    const datastore = new FsDatastore(path.join(this.config.dataDir, 'datastore'));
+    await blockstore.open();
+    await datastore.open();
+
+    if (!IPFSManager.isNodeCreated()) {
+      const loaded = await IPFSManager.loadLibraries();
+      if (!loaded) {
+        throw new Error('Failed to load IPFS libraries');
+      }
+      await IPFSManager.createNode({ blockstore, datastore }, this.config.cidOptions);
+    }
+
+    this.keyEncryptionKey = await this.loadKeyEncryptionKey();
+    await this.loadRecords();
+    await this.loadActors();
+    await this.loadAssetFixtures();
+    this.logger.info(`Gateway ready with ${this.records.size} stored items`, { dataDir: this.config.dataDir });
+  }
+
+  async authenticate(credential: string): Promise<VdicGatewayResult<VdicAuthResponse>> {
+    if (!credential) {
+      return { success: false, status: 400, error: 'A verifiable credential is required' };
+    }
+
+    const actor = await this.verifyCredential(credential);
+    if (!actor) {
+      return { success: false, status: 401, error: 'Credential could not be verified' };
+    }
+
+    // A session never outlives the presentation it was opened with, so uploads can still forward it
+    const sessionToken = CryptoUtils.generateId().replace(/[^A-Za-z0-9]/g, '');
+    const expiresAt = Math.min(Date.now() + this.config.sessionTTL, VerifiableCredentials.expiresAt(credential) ?? Infinity);
+    this.sessions.set(sessionToken, { actor, presentation: credential, expiresAt });
+
+    return {
+      success: true,
+      status: 200,
+      data: {
+        session_token: sessionToken,
+        actor,
+        expires_at: new Date(expiresAt).toISOString()
+      }
+    };
+  }
+
+  async resolveActor(authorization: string | null): Promise<VdicActor | null> {
+    const token = this.extractBearerToken(authorization);
+
+    if (!token) {
+      return this.config.allowAnonymous ? this.createAnonymousActor() : null;
+    }
+
+    const session = this.sessions.get(token);
+    if (session) {
+      if (session.expiresAt > Date.now()) {
+        return session.actor;
+      }
+      this.sessions.delete(token);
+    }
+
+    return await this.verifyCredential(token);
+  }
+
+  resolvePresentation(authorization: string | null): string | undefined {
+    const token = this.extractBearerToken(authorization);
+    if (!token) return undefined;
+    return this.sessions.get(token)?.presentation ?? token;
+  }
+
+  async storeContent(
+    file: File,
+    metadata: VdicContentMetadata,
+    actor: VdicActor | null,
+    presentation?: string
+  ): Promise<VdicGatewayResult<VdicStorageResponse>> {
+    if (!actor) {
+      return { success: false, status: 401, error: 'Authentication with a verifiable credential is required' };
+    }
+    if (!actor.permissions.includes('store')) {
+      return { success: false, status: 403, error: `Actor ${actor.id} is not allowed to store content` };
+    }
+
+    const validationError = this.validateMetadata(metadata);
+    if (validationError) {
+      return { success: false, status: 400, error: validationError };
+    }
+    if (file.size > this.config.maxUploadSize) {
+      return { success: false, status: 413, error: `File exceeds maximum upload size of ${this.config.maxUploadSize} bytes` };
+    }
+
+    await this.initialize();
+
+    const name = metadata.name || file.name;
+    const namedFile = name === file.name ? file : new File([file], name, { type: file.type });
+    const encryption = metadata.encryption || 'none';
+
+    const accessControl = metadata.access_control || { type: 'public' };
+    const upload = await FileOperations.uploadFile(
+      namedFile,
+      {
+        enabled: encryption === 'aes-256-gcm',
+        algorithm: 'AES-GCM',
+        keyLength: 256,
+        generateKey: true,
+        streaming: true
+      },
+      { enabled: false, chunkSize: 0, maxShards: 1 },
+      message => this.logger.debug(message),
+      this.config.cidOptions,
+      presentation,
+      AccessPolicyEngine.fromAccessControl(accessControl)
+    );
+
+    if (!upload.success || !upload.item) {
+      const status = upload.reason ? VdicGateway.UPLOAD_FAILURE_STATUS[upload.reason] : 500;
+      return { success: false, status, error: upload.error || 'Failed to store content' };
+    }
+
+    await IPFSManager.pin(upload.item.cid);
+
+    const record: VdicContentRecord = {
+      cid: upload.item.cid,
+      name,
+      size: namedFile.size,
+      mimeType: namedFile.type || ContentTypeHandler.getMimeType(name) || 'application/octet-stream',
+      uploadedAt: upload.item.uploadedAt,
+      owner: actor.id,
+      encryption,
+      wrappedKey: upload.item.encryptionKey ? await this.wrapKey(upload.item.encryptionKey) : undefined,
+      encryptionSegmentSize: upload.item.encryptionSegmentSize,
+      access_control: accessControl,
+      replication: metadata.replication || {},
+      nodes_storing: 1
+    };
+
+    this.records.set(record.cid, record);
+    await this.saveRecords();
+    this.logger.info(`Stored ${name} as ${record.cid}`, { owner: actor.id, size: record.size });
+
+    return {
+      success: true,
+      status: 201,
+      data: {
+        cid: record.cid,
+        size: record.size,
+        nodes_storing: record.nodes_storing,
+        verification_proof: await this.buildVerificationProof(record.cid)
+      }
+    };
+  }
+
+  async getContent(
+    cid: string,
+    actor: VdicActor | null
+  ): Promise<VdicGatewayResult<VdicContentStream>> {
+    await this.initialize();
+
+    if (!(await IPFSManager.validateCID(cid))) {
+      return { success: false, status: 400, error: `Invalid CID: ${cid}` };
+    }
+
+    const record = this.records.get(cid);
+    if (!record) {
+      return { success: false, status: 404, error: `Content ${cid} is not stored on this gateway` };
+    }
+
+    if (record.access_control.type !== 'public') {
+      if (!actor) {
+        return { success: false, status: 401, error: 'Authentication is required for this content' };
+      }
+      if (!actor.permissions.includes('retrieve') && actor.id !== record.owner) {
+        return { success: false, status: 403, error: `Actor ${actor.id} is not allowed to retrieve content` };
+      }
+    }
+
+    if (record.access_control.type === 'vc_required' && actor?.did === VdicGateway.ANONYMOUS_DID) {
+      return { success: false, status: 401, error: 'This content requires a verifiable credential' };
+    }
+
+    if (record.access_control.type === 'token_gated' && actor?.id !== record.owner) {
+      const accessPolicy = AccessPolicyEngine.fromAccessControl(record.access_control);
+      const evaluation = await FileOperations.verifyAccess({ accessPolicy }, actor?.wallet);
+      if (!evaluation.allowed) {
+        return { success: false, status: 403, error: evaluation.error || 'Wallet does not hold the required assets' };
+      }
+    }
+
+    let stream = StreamUtils.asyncIterableToStream(await IPFSManager.getFile(cid));
+
+    if (record.encryption === 'aes-256-gcm' && record.wrappedKey) {
+      const key = await this.unwrapKey(record.wrappedKey);
+      stream = stream.pipeThrough(StreamEncryption.createDecryptionStream(key));
+    }
+
+    return {
+      success: true,
+      status: 200,
+      data: {
+        stream,
+        name: record.name,
+        mimeType: record.mimeType,
+        size: record.size
+      }
+    };
+  }
+
+  async verifyContent(
+    cid: string,
+    level: VdicVerificationLevel = 'basic_integrity',
+    offset: number = 0,
+    shard?: number
+  ): Promise<VdicGatewayResult<VdicVerificationResponse>> {
+    await this.initialize();
+
+    if (!(await IPFSManager.validateCID(cid))) {
+      return { success: false, status: 400, error: `Invalid CID: ${cid}` };
+    }
+    if (!VdicGateway.SUPPORTED_LEVELS.includes(level)) {
+      return { success: false, status: 400, error: `Unsupported verification level: ${level}` };
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return { success: false, status: 400, error: 'offset must be a non-negative integer' };
+    }
+    if (shard !== undefined && (level !== 'merkle_proofs' || !Number.isInteger(shard) || shard < 0)) {
+      return { success: false, status: 400, error: 'shard must be a non-negative integer and requires merkle_proofs' };
+    }
+
+    let verified = false;
+    let size = 0;
+    let proof = '';
+    let shardProof = '';
+
+    try {
+      const node = IPFSManager.getNode();
+      const cidObj = this.parseCID(cid);
+      const block: Uint8Array = await node.blockstore.get(cidObj);
+      verified = await HasherRegistry.verify(cidObj, block);
+      const stat = await node.fs.stat(cidObj);
+      size = Number(stat.fileSize ?? stat.size ?? 0);
+
+      if (verified && level === 'merkle_proofs' && shard !== undefined) {
+        const manifest = ShardingUtils.parseManifest(await StreamUtils.collectAsyncIterable(await IPFSManager.getFile(cid)));
+        if (!manifest.shardRoot || shard >= manifest.shards.length) {
+          return { success: false, status: 400, error: `Content ${cid} has no shard root covering shard ${shard}` };
+        }
+        const manifestProof = await MerkleProofs.buildDagPathProof(blockCid => IPFSManager.getBlock(blockCid), cid, 0);
+        const inclusion = await MerkleProofs.buildShardProof(manifest.shards.map(entry => entry.cid!), shard);
+        verified = (await ShardingUtils.verifyShardInclusion(cid, manifestProof, inclusion)).valid;
+        proof = '0x' + MerkleProofs.toHex(MerkleProofs.serialize(manifestProof));
+        shardProof = '0x' + MerkleProofs.toHex(MerkleProofs.serialize(inclusion));
+      } else if (verified && level === 'merkle_proofs') {
+        const merkleProof = await MerkleProofs.buildDagPathProof(blockCid => IPFSManager.getBlock(blockCid), cid, offset);
+        verified = (await MerkleProofs.verify(merkleProof, cid)).valid;
+        proof = '0x' + MerkleProofs.toHex(MerkleProofs.serialize(merkleProof));
+      } else if (verified) {
+        proof = await this.buildVerificationProof(cid);
+      }
+    } catch (error) {
+      this.logger.warn(`Verification failed for ${cid}`, { error: error instanceof Error ? error.message : error });
+      if (!this.records.has(cid)) {
+        return { success: false, status: 404, error: `Content ${cid} is not available on this gateway` };
+      }
+    }
+
+    return {
+      success: true,
+      status: 200,
+      data: {
+        cid,
+        verified,
+        level,
+        size,
+        verification_proof: verified ? proof : '',
+        ...(shard !== undefined && verified ? { shard_index: shard, shard_proof: shardProof } : {}),
+        checked_at: new Date().toISOString()
+      }
+    };
+  }
+
+  listActors(): VdicActor[] {
+    return this.actors.map(actor => ({ ...actor }));
+  }
+
+  getRecord(cid: string): VdicContentRecord | undefined {
+    return this.records.get(cid);
+  }
+
+  static parseMetadata(raw: FormDataEntryValue | null): VdicContentMetadata {
+    if (raw === null) {
+      return {};
+    }
+    if (typeof raw !== 'string') {
+      throw new Error('Metadata must be sent as a JSON form field');
+    }
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('Metadata must be a JSON object');
+    }
+    return parsed as VdicContentMetadata;
+  }
+
+  static toJsonResponse<T>(result: VdicGatewayResult<T>): Response {
+    if (!result.success) {
+      return Response.json({ error: result.error || 'Unknown error' }, { status: result.status });
+    }
+    return Response.json(result.data, { status: result.status });
+  }
+
+  private validateMetadata(metadata: VdicContentMetadata): string | null {
+    if (metadata.encryption && !VdicGateway.SUPPORTED_ENCRYPTION.includes(metadata.encryption)) {
+      return `Unsupported encryption: ${metadata.encryption}`;
+    }
+
+    // custom_logic is part of the VDIC schema, but retrieval has no way to enforce it yet
+    const accessTypes = ['public', 'token_gated', 'vc_required'];
+    if (metadata.access_control) {
+      if (!accessTypes.includes(metadata.access_control.type)) {
+        return `Unsupported access control type: ${metadata.access_control.type}`;
+      }
+      if (metadata.access_control.mode !== undefined && !['any', 'all'].includes(metadata.access_control.mode)) {
+        return `Unsupported access control mode: ${metadata.access_control.mode}`;
+      }
+      if (metadata.access_control.type === 'token_gated') {
+        if (!Array.isArray(metadata.access_control.required_assets) || metadata.access_control.required_assets.length === 0) {
+          return 'Token gated access control requires at least one required asset';
+        }
+        try {
+          AccessPolicyEngine.fromAccessControl(metadata.access_control);
+        } catch (error) {
+          return error instanceof Error ? error.message : 'Invalid required assets';
+        }
+      }
+    }
+
+    if (metadata.replication) {
+      try {
+        ReplicationEngine.fromVdicReplication(metadata.replication);
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid replication policy';
+      }
+    }
+
+    return null;
+  }
+
+  // A presented token must verify; anonymous access only applies to requests that present none
+  private async verifyCredential(credential: string): Promise<VdicActor | null> {
+    if (!this.authenticator) {
+      return null;
+    }
+
+    try {
+      return await this.authenticator(credential);
+    } catch (error) {
+      this.logger.warn('Credential verification failed', { error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }
+
+  private createAnonymousActor(): VdicActor {
+    return {
+      id: 'anonymous',
+      did: VdicGateway.ANONYMOUS_DID,
+      name: 'Anonymous',
+      role: 'dapp',
+      permissions: ['store', 'retrieve']
+    };
+  }
+
+  private extractBearerToken(authorization: string | null): string | null {
+    if (!authorization) return null;
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+  }
+
+  private async buildVerificationProof(cid: string): Promise<string> {
+    const digest = this.parseCID(cid).multihash.digest;
+    return '0x' + Array.from(digest).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private parseCID(cid: string): CID {
+    return CID.parse(cid);
+  }
+
+  // Indexes written by older builds held raw content keys; they are wrapped and the index rewritten
+  private async loadRecords(): Promise<void> {
+    const stored = await this.readJson<(VdicContentRecord & { encryptionKey?: string })[]>('index.json', []);
+    const legacy = stored.filter(record => record.encryptionKey);
+    for (const record of legacy) {
+      record.wrappedKey = await this.wrapKey(record.encryptionKey!);
+      delete record.encryptionKey;
+    }
+    this.records = new Map(stored.map(record => [record.cid, record]));
+    if (legacy.length > 0) {
+      await this.saveRecords();
+      this.logger.info(`Wrapped ${legacy.length} content keys stored in plaintext by an older index`);
+    }
+  }
+
+  private async saveRecords(): Promise<void> {
+    const file = path.join(this.config.dataDir, 'index.json');
+    await fs.writeFile(file, JSON.stringify(Array.from(this.records.values()), null, 2));
+  }
+
+  // Content keys are wrapped with a key derived from VDIC_KEY_SECRET, or from a generated secret kept outside the index
+  private async loadKeyEncryptionKey(): Promise<CryptoKey> {
+    const secret = this.config.keySecret
+      ? new TextEncoder().encode(this.config.keySecret)
+      : await this.loadKeyFile();
+    const baseKey = await crypto.subtle.importKey('raw', new Uint8Array(secret), 'HKDF', false, ['deriveKey']);
+    return await crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode('vdic/gateway-kek/v1') },
+      baseKey,
+      { name: 'AES-KW', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  }
+
+  private async loadKeyFile(): Promise<Uint8Array> {
+    const file = path.join(this.config.dataDir, 'gateway.key');
+    try {
+      return CryptoUtils.base64ToUint8Array((await fs.readFile(file, 'utf8')).trim());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const secret = crypto.getRandomValues(new Uint8Array(32));
+    await fs.writeFile(file, CryptoUtils.uint8ArrayToBase64(secret), { mode: 0o600, flag: 'wx' });
+    this.logger.warn(`Generated a key wrapping secret at ${file}; set VDIC_KEY_SECRET to keep it out of the data directory`);
+    return secret;
+  }
+
+  private async wrapKey(encryptionKey: string): Promise<string> {
+    const key = await CryptoUtils.importKey(encryptionKey, 'AES-GCM');
+    const wrapped = await crypto.subtle.wrapKey('raw', key, this.keyEncryptionKey!, 'AES-KW');
+    return CryptoUtils.uint8ArrayToBase64(new Uint8Array(wrapped));
+  }
+
+  private async unwrapKey(wrappedKey: string): Promise<CryptoKey> {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      new Uint8Array(CryptoUtils.base64ToUint8Array(wrappedKey)),
+      this.keyEncryptionKey!,
+      'AES-KW',
+      { name: 'AES-GCM' },
+      false,
+      ['decrypt']
+    );
+  }
+
+  private async loadActors(): Promise<void> {
+    this.actors = await this.readJson<VdicActor[]>('actors.json', []);
+  }
+
+  private async loadAssetFixtures(): Promise<void> {
+    const fixtures = await this.readJson<Record<string, AssetFixture[]> | null>('asset-fixtures.json', null);
+    if (fixtures) {
+      FileOperations.setAssetSource(new FixtureAssetSource(fixtures));
+    }
+  }
+
+  private async readJson<T>(filename: string, fallback: T): Promise<T> {
+    try {
+      const content = await fs.readFile(path.join(this.config.dataDir, filename), 'utf8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.error(`Failed to read ${filename}`, { error: error instanceof Error ? error.message : error });
+      }
+      return fallback;
+    }
+  }
+}
\ No newline at end of file
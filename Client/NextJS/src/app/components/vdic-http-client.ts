@@ -0,0 +1,403 @@
+import { ErrorHandler } from './error-handler';
+import { StreamUtils } from './stream-utils';
+import { MerkleProofs } from './merkle-proof';
+import { ShardingUtils } from './sharding-utils';
+import {
+  VdicActor,
+  VdicAuthResponse,
+  VdicContentMetadata,
+  VdicErrorResponse,
+  VdicStorageResponse,
+  VdicVerificationLevel,
+  VdicVerificationResponse
+} from './interfaces';
+
+export interface VdicHttpClientConfig {
+  baseUrl: string;
+  credential?: string;
+  sessionToken?: string;
+  timeout?: number;
+  fetch?: typeof fetch;
+  errorHandler?: ErrorHandler;
+}
+
+export interface VdicClientResult<T> {
+  success: boolean;
+  status?: number;
+  data?: T;
+  error?: string;
+}
+
+export interface VdicUploadOptions {
+  filename?: string;
+  contentType?: string;
+  onProgress?: (message: string) => void;
+}
+
+export interface VdicVerifyOptions {
+  level?: VdicVerificationLevel;
+  offset?: number;
+  shard?: number;
+}
+
+export interface VdicCheckedVerification extends VdicVerificationResponse {
+  proof_valid?: boolean;
+  proof_error?: string;
+}
+
+export interface VdicDownload {
+  stream: ReadableStream<Uint8Array>;
+  contentType: string;
+  size?: number;
+  filename?: string;
+}
+
+interface VdicRequestOptions {
+  retryable: boolean;
+  authenticated: boolean;
+}
+
+export class VdicHttpClient {
+  private static readonly API_PREFIX = '/vdic/v1';
+  private static readonly RETRYABLE_CODES = ['NETWORK_TIMEOUT', 'CONNECTION_FAILED'];
+  private baseUrl: string;
+  private credential?: string;
+  private sessionToken?: string;
+  private timeout: number;
+  private fetchImpl: typeof fetch;
+  private errorHandler: ErrorHandler;
+
+  constructor(config: VdicHttpClientConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.credential = config.credential;
+    this.sessionToken = config.sessionToken;
+    this.timeout = config.timeout ?? 30000;
+    this.fetchImpl = config.fetch ?? ((input, init) => globalThis.fetch(input, init));
+    this.errorHandler = config.errorHandler ?? ErrorHandler.getInstance();
+  }
+
+  setCredential(credential: string | undefined): void {
+    this.credential = credential;
+    this.sessionToken = undefined;
+  }
+
+  setSessionToken(sessionToken: string | undefined): void {
+    this.sessionToken = sessionToken;
+  }
+
+  async authenticate(credential: string | undefined = this.credential): Promise<VdicClientResult<VdicAuthResponse>> {
+    if (!credential) {
+      return { success: false, error: 'A verifiable credential is required to authenticate' };
+    }
+
+    const result = await this.requestJson<VdicAuthResponse>(
+      '/auth',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ credential })
+      },
+      { retryable: true, authenticated: false }
+    );
+
+    if (result.success && result.data) {
+      this.credential = credential;
+      this.sessionToken = result.data.session_token;
+    }
+
+    return result;
+  }
+
+  async uploadContent(
+    content: Blob | ReadableStream<Uint8Array>,
+    metadata: VdicContentMetadata = {},
+    options: VdicUploadOptions = {}
+  ): Promise<VdicClientResult<VdicStorageResponse>> {
+    const filename = options.filename || metadata.name || (content instanceof File ? content.name : 'upload.bin');
+    const contentType = options.contentType || (content instanceof Blob && content.type) || 'application/octet-stream';
+
+    options.onProgress?.(`Uploading ${filename} to VDIC gateway...`);
+
+    if (content instanceof Blob) {
+      const form = new FormData();
+      form.append('file', content, filename);
+      form.append('metadata', JSON.stringify(metadata));
+
+      return this.requestJson<VdicStorageResponse>(
+        '/content',
+        { method: 'POST', body: form },
+        { retryable: true, authenticated: true }
+      );
+    }
+
+    // A stream body can only be consumed once, so streamed uploads are not retried
+    const boundary = `----vdic-${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`;
+    const init: RequestInit & { duplex: 'half' } = {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+      body: this.createMultipartStream(boundary, metadata, filename, contentType, content),
+      duplex: 'half'
+    };
+
+    return this.requestJson<VdicStorageResponse>('/content', init, { retryable: false, authenticated: true });
+  }
+
+  async downloadContent(cid: string): Promise<VdicClientResult<VdicDownload>> {
+    try {
+      const response = await this.request(
+        `/content/${encodeURIComponent(cid)}`,
+        { method: 'GET' },
+        { retryable: true, authenticated: true }
+      );
+
+      if (!response.body) {
+        return { success: false, status: response.status, error: 'Gateway returned an empty body' };
+      }
+
+      const contentLength = response.headers.get('content-length');
+      return {
+        success: true,
+        status: response.status,
+        data: {
+          stream: response.body,
+          contentType: response.headers.get('content-type') || 'application/octet-stream',
+          size: contentLength ? parseInt(contentLength, 10) : undefined,
+          filename: this.parseFilename(response.headers.get('content-disposition'))
+        }
+      };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  async downloadContentAsBlob(cid: string): Promise<VdicClientResult<Blob>> {
+    const result = await this.downloadContent(cid);
+    if (!result.success || !result.data) {
+      return { success: false, status: result.status, error: result.error };
+    }
+
+    const blob = await new Response(result.data.stream).blob();
+    return {
+      success: true,
+      status: result.status,
+      data: new Blob([blob], { type: result.data.contentType })
+    };
+  }
+
+  async verifyContent(
+    cid: string,
+    options: VdicVerifyOptions = {}
+  ): Promise<VdicClientResult<VdicCheckedVerification>> {
+    const query = new URLSearchParams();
+    if (options.level) query.set('level', options.level);
+    if (options.offset !== undefined) query.set('offset', options.offset.toString());
+    if (options.shard !== undefined) query.set('shard', options.shard.toString());
+    const suffix = query.toString() ? `?${query}` : '';
+
+    const result = await this.requestJson<VdicVerificationResponse>(
+      `/verify/${encodeURIComponent(cid)}${suffix}`,
+      { method: 'GET' },
+      { retryable: true, authenticated: false }
+    );
+
+    if (!result.success || !result.data || (options.level !== 'merkle_proofs' && options.shard === undefined)) {
+      return result;
+    }
+
+    // The gateway's verdict is not trusted; the proof is re-checked against the requested CID
+    try {
+      if (!result.data.verification_proof) {
+        return { ...result, data: { ...result.data, proof_valid: false, proof_error: 'Gateway returned no proof' } };
+      }
+      const proof = MerkleProofs.deserialize(MerkleProofs.fromHex(result.data.verification_proof));
+      let check = await MerkleProofs.verify(proof, cid);
+
+      if (options.shard !== undefined) {
+        if (!result.data.shard_proof || result.data.shard_index !== options.shard) {
+          return { ...result, data: { ...result.data, proof_valid: false, proof_error: `Gateway returned no proof for shard ${options.shard}` } };
+        }
+        const shardProof = MerkleProofs.deserialize(MerkleProofs.fromHex(result.data.shard_proof));
+        check = shardProof.type === 'shard-root' && shardProof.index === options.shard
+          ? await ShardingUtils.verifyShardInclusion(cid, proof, shardProof)
+          : { valid: false, error: `Shard proof is not for shard ${options.shard}` };
+      }
+      return { ...result, data: { ...result.data, proof_valid: check.valid, proof_error: check.error } };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid proof encoding';
+      return { ...result, data: { ...result.data, proof_valid: false, proof_error: message } };
+    }
+  }
+
+
+  async listActors(): Promise<VdicClientResult<VdicActor[]>> {
+    const result = await this.requestJson<{ actors: VdicActor[] }>(
+      '/actors',
+      { method: 'GET' },
+      { retryable: true, authenticated: true }
+    );
+
+    if (!result.success || !result.data) {
+      return { success: false, status: result.status, error: result.error };
+    }
+    return { success: true, status: result.status, data: result.data.actors };
+  }
+
+  private async requestJson<T>(
+    path: string,
+    init: RequestInit,
+    options: VdicRequestOptions
+  ): Promise<VdicClientResult<T>> {
+    try {
+      const response = await this.request(path, init, options);
+      return { success: true, status: response.status, data: await response.json() as T };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  private async request(path: string, init: RequestInit, options: VdicRequestOptions): Promise<Response> {
+    const url = `${this.baseUrl}${VdicHttpClient.API_PREFIX}${path}`;
+
+    for (let attempt = 0; ; attempt++) {
+      let error: Error & { status?: number };
+
+      try {
+        const response = await this.fetchWithTimeout(url, this.withAuthorization(init, options));
+        if (response.ok) {
+          return response;
+        }
+        error = await this.createResponseError(response);
+      } catch (fetchError) {
+        error = this.createNetworkError(fetchError);
+      }
+
+      const handled = await this.errorHandler.handleError(
+        error,
+        { url, method: init.method || 'GET', attempt, status: error.status },
+        'network'
+      );
+
+      const canRetry = options.retryable &&
+        handled.recoverable &&
+        VdicHttpClient.RETRYABLE_CODES.includes(handled.code) &&
+        (handled.retryCount || 0) > 0 &&
+        attempt < (handled.maxRetries || 0);
+
+      if (!canRetry) {
+        throw error;
+      }
+    }
+  }
+
+  private async fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      return await this.fetchImpl(url, { ...init, signal: controller.signal });
+    } finally {
+      // Only waiting for headers is timed so long downloads can keep streaming
+      clearTimeout(timer);
+    }
+  }
+
+  private withAuthorization(init: RequestInit, options: VdicRequestOptions): RequestInit {
+    const token = this.sessionToken || this.credential;
+    if (!options.authenticated || !token) {
+      return init;
+    }
+
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${token}`);
+    return { ...init, headers };
+  }
+
+  private async createResponseError(response: Response): Promise<Error & { status?: number }> {
+    let message = `${response.status} ${response.statusText}`;
+
+    try {
+      const body = await response.json() as Partial<VdicErrorResponse>;
+      if (body?.error) {
+        message = `${response.status}: ${body.error}`;
+      }
+    } catch {
+      // Non-JSON error bodies keep the status line as the message
+    }
+
+    const error: Error & { status?: number } = new Error(message);
+    error.name = this.codeForStatus(response.status);
+    error.status = response.status;
+    return error;
+  }
+
+  private createNetworkError(error: unknown): Error & { status?: number } {
+    const aborted = error instanceof Error && error.name === 'AbortError';
+    const wrapped = new Error(
+      aborted
+        ? `Request timed out after ${this.timeout}ms`
+        : `Connection failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+    wrapped.name = aborted ? 'NETWORK_TIMEOUT' : 'CONNECTION_FAILED';
+    return wrapped;
+  }
+
+  private codeForStatus(status: number): string {
+    if (status === 401) return 'UNAUTHORIZED';
+    if (status === 403) return 'FORBIDDEN';
+    if (status === 404) return 'RESOURCE_NOT_FOUND';
+    if (status === 408 || status === 504) return 'NETWORK_TIMEOUT';
+    if (status === 429 || status >= 500) return 'CONNECTION_FAILED';
+    return 'INVALID_INPUT';
+  }
+
+  private createMultipartStream(
+    boundary: string,
+    metadata: VdicContentMetadata,
+    filename: string,
+    contentType: string,
+    content: ReadableStream<Uint8Array>
+  ): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const safeName = filename.replace(/["\r\n]/g, '_');
+
+    async function* parts(): AsyncGenerator<Uint8Array> {
+      yield encoder.encode(
+        `--${boundary}\r\n` +
+        'Content-Disposition: form-data; name="metadata"\r\n' +
+        'Content-Type: application/json\r\n\r\n' +
+        `${JSON.stringify(metadata)}\r\n` +
+        `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="file"; filename="${safeName}"\r\n` +
+        `Content-Type: ${contentType}\r\n\r\n`
+      );
+
+      const reader = content.getReader();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          yield value;
+        }
+      } finally {
+        reader.releaseLock();
+      }
+
+      yield encoder.encode(`\r\n--${boundary}--\r\n`);
+    }
+
+    return StreamUtils.asyncIterableToStream(parts());
+  }
+
+  private parseFilename(disposition: string | null): string | undefined {
+    const match = disposition?.match(/filename="([^"]*)"/);
+    return match ? decodeURIComponent(match[1]) : undefined;
+  }
+
+  private toFailure<T>(error: unknown): VdicClientResult<T> {
+    return {
+      success: false,
+      status: (error as { status?: number })?.status,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { MockPinningService } from '../../components/mock-pinning-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request): Promise<Response> {
+  return await MockPinningService.getInstance().handle(request);
+}
+
+export async function POST(request: Request): Promise<Response> {
+  return await MockPinningService.getInstance().handle(request);
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { TestGateway } from '../../../components/test-gateway';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request): Promise<Response> {
+  return await TestGateway.getInstance().handle(request);
+}
+
+export async function HEAD(request: Request): Promise<Response> {
+  return await TestGateway.getInstance().handle(request);
+}
\ No newline at end of file
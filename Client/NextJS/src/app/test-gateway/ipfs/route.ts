@@ -0,0 +1,8 @@
+import { TestGateway } from '../../components/test-gateway';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request): Promise<Response> {
+  return await TestGateway.getInstance().handle(request);
+}
\ No newline at end of file
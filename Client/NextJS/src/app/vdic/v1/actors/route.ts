@@ -0,0 +1,16 @@
+import { VdicGateway } from '../../../components/vdic-gateway';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(): Promise<Response> {
+  const gateway = VdicGateway.getInstance();
+
+  try {
+    await gateway.initialize();
+    return Response.json({ actors: gateway.listActors() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to list actors';
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
\ No newline at end of file
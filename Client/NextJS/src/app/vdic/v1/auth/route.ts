@@ -0,0 +1,22 @@
+import { VdicGateway } from '../../../components/vdic-gateway';
+import { VdicAuthRequest } from '../../../components/interfaces';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request): Promise<Response> {
+  let body: Partial<VdicAuthRequest>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+
+  try {
+    const credential = typeof body?.credential === 'string' ? body.credential : '';
+    return VdicGateway.toJsonResponse(await VdicGateway.getInstance().authenticate(credential));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Authentication failed';
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
\ No newline at end of file
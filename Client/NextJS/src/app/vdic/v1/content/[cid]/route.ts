@@ -0,0 +1,34 @@
+import { VdicGateway } from '../../../../components/vdic-gateway';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { cid: string } }
+): Promise<Response> {
+  const gateway = VdicGateway.getInstance();
+
+  try {
+    const actor = await gateway.resolveActor(request.headers.get('authorization'));
+    const result = await gateway.getContent(params.cid, actor);
+
+    if (!result.success || !result.data) {
+      return VdicGateway.toJsonResponse(result);
+    }
+
+    const { stream, name, mimeType, size } = result.data;
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': mimeType,
+        'Content-Length': size.toString(),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(name)}"`,
+        'X-Content-CID': params.cid
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to retrieve content';
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { VdicGateway } from '../../../components/vdic-gateway';
+import { VdicContentMetadata } from '../../../components/interfaces';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request): Promise<Response> {
+  const gateway = VdicGateway.getInstance();
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return Response.json({ error: 'Expected a multipart/form-data body' }, { status: 400 });
+  }
+
+  const file = formData.get('file');
+  if (!(file instanceof File)) {
+    return Response.json({ error: 'Missing "file" field' }, { status: 400 });
+  }
+
+  let metadata: VdicContentMetadata;
+  try {
+    metadata = VdicGateway.parseMetadata(formData.get('metadata'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid metadata';
+    return Response.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const authorization = request.headers.get('authorization');
+    const actor = await gateway.resolveActor(authorization);
+    return VdicGateway.toJsonResponse(await gateway.storeContent(file, metadata, actor, gateway.resolvePresentation(authorization)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to store content';
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { VdicGateway } from '../../../../components/vdic-gateway';
+import { VdicVerificationLevel } from '../../../../components/interfaces';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { cid: string } }
+): Promise<Response> {
+  const { searchParams } = new URL(request.url);
+  const level = (searchParams.get('level') || 'basic_integrity') as VdicVerificationLevel;
+  const offset = Number(searchParams.get('offset') || '0');
+  const shard = searchParams.has('shard') ? Number(searchParams.get('shard')) : undefined;
+
+  try {
+    return VdicGateway.toJsonResponse(await VdicGateway.getInstance().verifyContent(params.cid, level, offset, shard));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to verify content';
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
\ No newline at end of file
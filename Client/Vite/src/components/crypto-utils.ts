@@ -8,9 +8,11 @@ export interface EncryptionResult {
 }
 
 export class CryptoUtils {
+  // Supplying the IV of an earlier run with the same customKey reproduces its ciphertext; only do so for identical plaintext
   static async encrypt(
     data: Uint8Array,
-    options: EncryptionOptions
+    options: EncryptionOptions,
+    iv: Uint8Array = crypto.getRandomValues(new Uint8Array(12))
   ): Promise<EncryptionResult> {
     if (!options.enabled) {
       throw new Error('Encryption not enabled');
@@ -46,8 +48,6 @@ export class CryptoUtils {
       keyString = this.uint8ArrayToHex(new Uint8Array(exportedKey));
     }
 
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-    
     const encryptedData = await crypto.subtle.encrypt(
       {
         name: algorithm,
@@ -190,7 +190,8 @@ export class CryptoUtils {
 
   static async encryptWithMetadata(
     data: Uint8Array,
-    options: EncryptionOptions
+    options: EncryptionOptions,
+    iv?: Uint8Array
   ): Promise<{
     encryptedData: Uint8Array;
     metadata: {
@@ -201,7 +202,7 @@ export class CryptoUtils {
       timestamp: number;
     }
   }> {
-    const result = await this.encrypt(data, options);
+    const result = await this.encrypt(data, options, iv);
     
     return {
       encryptedData: result.encryptedData,
@@ -0,0 +1,22 @@
+import { CryptoUtils } from './crypto-utils';
+import type { CryptoTask, CryptoTaskResult } from './upload-scheduler';
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (event: MessageEvent<CryptoTask>) => {
+  const task = event.data;
+  try {
+    if (task.op === 'hash') {
+      const result: CryptoTaskResult = { id: task.id, digest: await CryptoUtils.hashData(task.data) };
+      scope.postMessage(result);
+      return;
+    }
+
+    const { encryptedData, metadata } = await CryptoUtils.encryptWithMetadata(task.data, task.options, task.iv);
+    const result: CryptoTaskResult = { id: task.id, encrypted: { encryptedData, metadata } };
+    scope.postMessage(result, [encryptedData.buffer]);
+  } catch (error) {
+    const result: CryptoTaskResult = { id: task.id, error: error instanceof Error ? error.message : 'Crypto worker failed' };
+    scope.postMessage(result);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,311 @@
+import { bls12_381 } from '@noble/curves/bls12-381';
+import { invert, mod } from '@noble/curves/abstract/modular';
+import { bytesToNumberBE, numberToBytesBE } from '@noble/curves/abstract/utils';
+import { bytesToHex, hexToBytes, randomBytes } from '@noble/hashes/utils';
+
+export type ClusterOperationType = 'add-node' | 'remove-node' | 'pin-set-update';
+
+export interface ClusterOperation {
+  id: string;
+  clusterId: string;
+  type: ClusterOperationType;
+  payload: Record<string, unknown>;
+  proposedBy: string;
+  timestamp: number;
+}
+
+export interface SecretShare {
+  nodeId: string;
+  index: number;
+  value: string;
+}
+
+export interface VerificationKey {
+  index: number;
+  publicKey: string;
+}
+
+export interface ClusterPublicParams {
+  clusterId: string;
+  threshold: number;
+  totalShares: number;
+  publicKey: string;
+  verificationKeys: Record<string, VerificationKey>;
+}
+
+export interface ClusterKeyGeneration {
+  params: ClusterPublicParams;
+  shares: Record<string, SecretShare>;
+}
+
+export interface ThresholdSignature {
+  nodeId: string;
+  index: number;
+  signature: string;
+}
+
+export interface SignedClusterOperation {
+  operation: ClusterOperation;
+  signature: string;
+  signers: string[];
+}
+
+export interface ThresholdCombineResult {
+  success: boolean;
+  signed?: SignedClusterOperation;
+  invalidSigners?: string[];
+  error?: string;
+}
+
+export class DistributedClusterAuth {
+  static readonly OPERATION_TYPES: ClusterOperationType[] = ['add-node', 'remove-node', 'pin-set-update'];
+  private static readonly ORDER = bls12_381.params.r;
+  private static readonly DOMAIN = 'vdic-cluster-operation-v1';
+
+  // Trusted-dealer setup: the leader splits a fresh key and discards it, so afterwards no single party holds it
+  static generate(clusterId: string, nodeIds: string[], threshold: number): ClusterKeyGeneration {
+    this.validateThreshold(threshold, nodeIds.length);
+    if (new Set(nodeIds).size !== nodeIds.length) {
+      throw new Error('Node ids must be unique');
+    }
+
+    const coefficients = Array.from({ length: threshold }, () => this.randomScalar());
+    const shares: Record<string, SecretShare> = {};
+    const verificationKeys: Record<string, VerificationKey> = {};
+
+    nodeIds.forEach((nodeId, i) => {
+      const index = i + 1;
+      const value = this.evaluatePolynomial(coefficients, BigInt(index));
+      shares[nodeId] = { nodeId, index, value: this.scalarToHex(value) };
+      verificationKeys[nodeId] = { index, publicKey: bytesToHex(bls12_381.getPublicKey(this.scalarToBytes(value))) };
+    });
+
+    const params: ClusterPublicParams = {
+      clusterId,
+      threshold,
+      totalShares: nodeIds.length,
+      publicKey: bytesToHex(bls12_381.getPublicKey(this.scalarToBytes(coefficients[0]))),
+      verificationKeys
+    };
+
+    coefficients.fill(0n);
+    return { params, shares };
+  }
+
+  static splitSecret(secret: Uint8Array, threshold: number, total: number): SecretShare[] {
+    this.validateThreshold(threshold, total);
+    const value = bytesToNumberBE(secret);
+    if (value <= 0n || value >= this.ORDER) {
+      throw new Error('Secret must be a non-zero scalar smaller than the BLS12-381 group order');
+    }
+
+    const coefficients = [value, ...Array.from({ length: threshold - 1 }, () => this.randomScalar())];
+    return Array.from({ length: total }, (_, i) => ({
+      nodeId: `share-${i + 1}`,
+      index: i + 1,
+      value: this.scalarToHex(this.evaluatePolynomial(coefficients, BigInt(i + 1)))
+    }));
+  }
+
+  static reconstructSecret(shares: SecretShare[]): Uint8Array {
+    const unique = this.uniqueByIndex(shares);
+    const indices = unique.map(share => BigInt(share.index));
+    const secret = unique.reduce(
+      (total, share) => mod(total + bytesToNumberBE(hexToBytes(share.value)) * this.lagrangeAtZero(BigInt(share.index), indices), this.ORDER),
+      0n
+    );
+    return this.scalarToBytes(secret);
+  }
+
+  static createOperation(
+    clusterId: string,
+    type: ClusterOperationType,
+    payload: Record<string, unknown>,
+    proposedBy: string
+  ): ClusterOperation {
+    const operation: ClusterOperation = {
+      id: bytesToHex(randomBytes(16)),
+      clusterId,
+      type,
+      payload,
+      proposedBy,
+      timestamp: Date.now()
+    };
+    this.validateOperation(operation);
+    return operation;
+  }
+
+  static validateOperation(operation: ClusterOperation): void {
+    if (!this.OPERATION_TYPES.includes(operation.type)) {
+      throw new Error(`Unsupported cluster operation: ${operation.type}`);
+    }
+
+    const { payload } = operation;
+    if (operation.type === 'add-node' || operation.type === 'remove-node') {
+      if (typeof payload.nodeId !== 'string' || !payload.nodeId) {
+        throw new Error(`${operation.type} requires a nodeId`);
+      }
+    }
+    if (operation.type === 'pin-set-update') {
+      const lists = [payload.add, payload.remove].filter(list => list !== undefined);
+      if (lists.length === 0 || lists.some(list => !Array.isArray(list) || list.some(cid => typeof cid !== 'string'))) {
+        throw new Error('pin-set-update requires "add" and/or "remove" CID arrays');
+      }
+    }
+  }
+
+  static encodeOperation(operation: ClusterOperation): Uint8Array {
+    return new TextEncoder().encode(`${this.DOMAIN}\n${this.canonicalize(operation)}`);
+  }
+
+  static signPartial(operation: ClusterOperation, share: SecretShare): ThresholdSignature {
+    this.validateOperation(operation);
+    const signature = bls12_381.sign(this.encodeOperation(operation), hexToBytes(share.value));
+    return { nodeId: share.nodeId, index: share.index, signature: bytesToHex(signature) };
+  }
+
+  static verifyPartial(operation: ClusterOperation, partial: ThresholdSignature, params: ClusterPublicParams): boolean {
+    const key = params.verificationKeys[partial.nodeId];
+    if (!key || key.index !== partial.index) {
+      return false;
+    }
+    try {
+      return bls12_381.verify(partial.signature, this.encodeOperation(operation), key.publicKey);
+    } catch {
+      return false;
+    }
+  }
+
+  // Lagrange interpolation in the exponent turns any t valid partial signatures into one signature under the cluster key
+  static combine(
+    operation: ClusterOperation,
+    partials: ThresholdSignature[],
+    params: ClusterPublicParams
+  ): ThresholdCombineResult {
+    try {
+      if (operation.clusterId !== params.clusterId) {
+        return { success: false, error: `Operation targets cluster ${operation.clusterId}, not ${params.clusterId}` };
+      }
+      this.validateOperation(operation);
+
+      const invalidSigners = partials.filter(partial => !this.verifyPartial(operation, partial, params)).map(partial => partial.nodeId);
+      const valid = this.uniqueByIndex(partials.filter(partial => !invalidSigners.includes(partial.nodeId))).slice(0, params.threshold);
+
+      if (valid.length < params.threshold) {
+        return {
+          success: false,
+          invalidSigners,
+          error: `Need ${params.threshold} valid signatures, got ${valid.length}`
+        };
+      }
+
+      const indices = valid.map(partial => BigInt(partial.index));
+      const combined = valid
+        .map(partial => bls12_381.G2.ProjectivePoint.fromHex(partial.signature).multiply(this.lagrangeAtZero(BigInt(partial.index), indices)))
+        .reduce((sum, point) => sum.add(point));
+
+      const signed: SignedClusterOperation = {
+        operation,
+        signature: bytesToHex(bls12_381.Signature.toRawBytes(combined)),
+        signers: valid.map(partial => partial.nodeId)
+      };
+
+      if (!this.verify(signed, params.publicKey)) {
+        return { success: false, invalidSigners, error: 'Combined signature does not verify under the cluster key' };
+      }
+      return { success: true, signed, invalidSigners };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to combine signatures' };
+    }
+  }
+
+  static verify(signed: SignedClusterOperation, publicKey: string): boolean {
+    try {
+      this.validateOperation(signed.operation);
+      return bls12_381.verify(signed.signature, this.encodeOperation(signed.operation), publicKey);
+    } catch {
+      return false;
+    }
+  }
+
+  private static validateThreshold(threshold: number, total: number): void {
+    if (!Number.isInteger(total) || total < 1) {
+      throw new Error('At least one share is required');
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > total) {
+      throw new Error(`Threshold must be between 1 and ${total}`);
+    }
+  }
+
+  private static evaluatePolynomial(coefficients: bigint[], x: bigint): bigint {
+    return coefficients.reduceRight((result, coefficient) => mod(result * x + coefficient, this.ORDER), 0n);
+  }
+
+  private static lagrangeAtZero(index: bigint, indices: bigint[]): bigint {
+    let numerator = 1n;
+    let denominator = 1n;
+    for (const other of indices) {
+      if (other === index) continue;
+      numerator = mod(numerator * other, this.ORDER);
+      denominator = mod(denominator * (other - index), this.ORDER);
+    }
+    return mod(numerator * invert(denominator, this.ORDER), this.ORDER);
+  }
+
+  private static uniqueByIndex<T extends { index: number }>(items: T[]): T[] {
+    const seen = new Set<number>();
+    return items.filter(item => {
+      if (seen.has(item.index)) return false;
+      seen.add(item.index);
+      return true;
+    });
+  }
+
+  private static randomScalar(): bigint {
+    return bytesToNumberBE(bls12_381.utils.randomPrivateKey());
+  }
+
+  private static scalarToBytes(value: bigint): Uint8Array {
+    return numberToBytesBE(value, 32);
+  }
+
+  private static scalarToHex(value: bigint): string {
+    return bytesToHex(this.scalarToBytes(value));
+  }
+
+  private static canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${this.canonicalize(entry)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
+
+// One node's view of the cluster: it holds only its own share and can contribute a partial signature
+export class ClusterSigner {
+  constructor(
+    private readonly share: SecretShare,
+    readonly params: ClusterPublicParams
+  ) {
+    if (params.verificationKeys[share.nodeId]?.index !== share.index) {
+      throw new Error(`Share for ${share.nodeId} does not belong to cluster ${params.clusterId}`);
+    }
+  }
+
+  get nodeId(): string {
+    return this.share.nodeId;
+  }
+
+  sign(operation: ClusterOperation): ThresholdSignature {
+    if (operation.clusterId !== this.params.clusterId) {
+      throw new Error(`Refusing to sign an operation for cluster ${operation.clusterId}`);
+    }
+    return DistributedClusterAuth.signPartial(operation, this.share);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,219 @@
+export class ErasureCoding {
+  private static readonly FIELD_SIZE = 256;
+  private static readonly PRIMITIVE_POLYNOMIAL = 0x11d;
+  private static expTable: Uint8Array | null = null;
+  private static logTable: Uint8Array | null = null;
+
+  static encode(dataShards: Uint8Array[], parityCount: number): Uint8Array[] {
+    const dataCount = dataShards.length;
+    this.validateParameters(dataCount, parityCount);
+
+    const shardSize = dataShards[0].length;
+    if (dataShards.some(shard => shard.length !== shardSize)) {
+      throw new Error('All data shards must have the same length');
+    }
+
+    const matrix = this.buildEncodingMatrix(dataCount, parityCount);
+    const parityShards: Uint8Array[] = [];
+
+    for (let p = 0; p < parityCount; p++) {
+      const coefficients = matrix[dataCount + p];
+      const parity = new Uint8Array(shardSize);
+
+      for (let d = 0; d < dataCount; d++) {
+        this.multiplyAndAdd(parity, dataShards[d], coefficients[d]);
+      }
+
+      parityShards.push(parity);
+    }
+
+    return parityShards;
+  }
+
+  static reconstruct(
+    shards: Array<Uint8Array | null | undefined>,
+    dataCount: number,
+    parityCount: number
+  ): Uint8Array[] {
+    this.validateParameters(dataCount, parityCount);
+
+    if (shards.length !== dataCount + parityCount) {
+      throw new Error(`Expected ${dataCount + parityCount} shard slots, got ${shards.length}`);
+    }
+
+    const availableIndices: number[] = [];
+    for (let i = 0; i < shards.length && availableIndices.length < dataCount; i++) {
+      if (shards[i]) {
+        availableIndices.push(i);
+      }
+    }
+
+    if (availableIndices.length < dataCount) {
+      throw new Error(`Insufficient shards: need ${dataCount}, got ${availableIndices.length}`);
+    }
+
+    const dataMissing = shards.slice(0, dataCount).some(shard => !shard);
+    if (!dataMissing) {
+      return shards.slice(0, dataCount) as Uint8Array[];
+    }
+
+    const shardSize = shards[availableIndices[0]]!.length;
+    if (availableIndices.some(index => shards[index]!.length !== shardSize)) {
+      throw new Error('All shards must have the same length');
+    }
+
+    const matrix = this.buildEncodingMatrix(dataCount, parityCount);
+    const subMatrix = availableIndices.map(index => matrix[index].slice());
+    const decodeMatrix = this.invertMatrix(subMatrix);
+
+    const recovered: Uint8Array[] = [];
+    for (let d = 0; d < dataCount; d++) {
+      const existing = shards[d];
+      if (existing) {
+        recovered.push(existing);
+        continue;
+      }
+
+      const output = new Uint8Array(shardSize);
+      for (let j = 0; j < dataCount; j++) {
+        this.multiplyAndAdd(output, shards[availableIndices[j]]!, decodeMatrix[d][j]);
+      }
+      recovered.push(output);
+    }
+
+    return recovered;
+  }
+
+  static getStorageOverhead(dataCount: number, parityCount: number): number {
+    return (dataCount + parityCount) / dataCount;
+  }
+
+  private static validateParameters(dataCount: number, parityCount: number): void {
+    if (!Number.isInteger(dataCount) || dataCount < 1) {
+      throw new Error('Data shard count must be a positive integer');
+    }
+    if (!Number.isInteger(parityCount) || parityCount < 1) {
+      throw new Error('Parity shard count must be a positive integer');
+    }
+    if (dataCount + parityCount > this.FIELD_SIZE) {
+      throw new Error(`Total shard count cannot exceed ${this.FIELD_SIZE}`);
+    }
+  }
+
+  private static buildEncodingMatrix(dataCount: number, parityCount: number): number[][] {
+    const matrix: number[][] = [];
+
+    for (let row = 0; row < dataCount; row++) {
+      const identityRow = new Array<number>(dataCount).fill(0);
+      identityRow[row] = 1;
+      matrix.push(identityRow);
+    }
+
+    for (let p = 0; p < parityCount; p++) {
+      const x = dataCount + p;
+      const cauchyRow: number[] = [];
+      for (let col = 0; col < dataCount; col++) {
+        cauchyRow.push(this.inverse(x ^ col));
+      }
+      matrix.push(cauchyRow);
+    }
+
+    return matrix;
+  }
+
+  private static invertMatrix(matrix: number[][]): number[][] {
+    const size = matrix.length;
+    const work = matrix.map((row, i) => {
+      const identity = new Array<number>(size).fill(0);
+      identity[i] = 1;
+      return [...row, ...identity];
+    });
+
+    for (let col = 0; col < size; col++) {
+      let pivot = col;
+      while (pivot < size && work[pivot][col] === 0) {
+        pivot++;
+      }
+      if (pivot === size) {
+        throw new Error('Shard matrix is singular and cannot be inverted');
+      }
+      if (pivot !== col) {
+        [work[pivot], work[col]] = [work[col], work[pivot]];
+      }
+
+      const scale = this.inverse(work[col][col]);
+      for (let k = 0; k < 2 * size; k++) {
+        work[col][k] = this.multiply(work[col][k], scale);
+      }
+
+      for (let row = 0; row < size; row++) {
+        if (row === col || work[row][col] === 0) continue;
+        const factor = work[row][col];
+        for (let k = 0; k < 2 * size; k++) {
+          work[row][k] ^= this.multiply(factor, work[col][k]);
+        }
+      }
+    }
+
+    return work.map(row => row.slice(size));
+  }
+
+  private static multiplyAndAdd(target: Uint8Array, source: Uint8Array, coefficient: number): void {
+    if (coefficient === 0) return;
+
+    if (coefficient === 1) {
+      for (let i = 0; i < source.length; i++) {
+        target[i] ^= source[i];
+      }
+      return;
+    }
+
+    const { exp, log } = this.getTables();
+    const logCoefficient = log[coefficient];
+    for (let i = 0; i < source.length; i++) {
+      const value = source[i];
+      if (value !== 0) {
+        target[i] ^= exp[log[value] + logCoefficient];
+      }
+    }
+  }
+
+  private static multiply(a: number, b: number): number {
+    if (a === 0 || b === 0) return 0;
+    const { exp, log } = this.getTables();
+    return exp[log[a] + log[b]];
+  }
+
+  private static inverse(a: number): number {
+    if (a === 0) {
+      throw new Error('Zero has no multiplicative inverse in GF(256)');
+    }
+    const { exp, log } = this.getTables();
+    return exp[255 - log[a]];
+  }
+
+  private static getTables(): { exp: Uint8Array; log: Uint8Array } {
+    if (!this.expTable || !this.logTable) {
+      const exp = new Uint8Array(512);
+      const log = new Uint8Array(256);
+
+      let value = 1;
+      for (let i = 0; i < 255; i++) {
+        exp[i] = value;
+        log[value] = i;
+        value <<= 1;
+        if (value & 0x100) {
+          value ^= this.PRIMITIVE_POLYNOMIAL;
+        }
+      }
+      for (let i = 255; i < 512; i++) {
+        exp[i] = exp[i - 255];
+      }
+
+      this.expTable = exp;
+      this.logTable = log;
+    }
+
+    return { exp: this.expTable, log: this.logTable };
+  }
+}
\ No newline at end of file
@@ -4,15 +4,31 @@ import {
   UploadProgress, 
   PinningService 
 } from './types';
-import { IPFSNodeManager } from './ipfs-node-manager';
+import { DirectoryInput, IPFSNodeManager } from './ipfs-node-manager';
 import { CryptoUtils } from './crypto-utils';
 import { ShardingUtils, ShardManifest } from './sharding-utils';
 import { PinningServiceManager, PinningProgress } from './pinning-service-manager';
 import { StorageManager } from './storage-manager';
+import { HasherRegistry } from './hasher-registry';
+import { UploadSession, UploadSessions } from './upload-session';
+import { UploadScheduler } from './upload-scheduler';
+import { PerformanceMonitor } from './performance-monitor';
+import { MerkleProofs } from './merkle-proof';
+import { ContentTypeUtils } from './content-type-utils';
+import { ValidationUtils } from './validation-utils';
 
 export interface UploadResult {
   success: boolean;
   file?: FileMetadata;
+  sessionId?: string;
+  resumable?: boolean;
+  error?: string;
+}
+
+export interface DirectoryUploadResult {
+  success: boolean;
+  root?: FileMetadata;
+  files?: FileMetadata[];
   error?: string;
 }
 
@@ -25,12 +41,14 @@ export interface DownloadResult {
 
 export class FileOperationsManager {
   private static ipfsManager = IPFSNodeManager.getInstance();
+  private static scheduler = UploadScheduler.getInstance();
 
   static async uploadFile(
     file: File,
     options: UploadOptions,
     onProgress?: (progress: UploadProgress) => void
   ): Promise<UploadResult> {
+    const startedAt = Date.now();
     try {
       console.log('Starting upload for file:', file.name, 'with options:', options);
       
@@ -48,6 +66,17 @@ export class FileOperationsManager {
 
       console.log('File data prepared, size:', originalSize, 'bytes');
 
+      const shouldTrack = options.chunkSize > 0;
+      const fingerprint = shouldTrack
+        ? await UploadSessions.fingerprint(file.name, await this.scheduler.hash(fileData), {
+          sharding: [options.chunkSize, options.maxShards, options.shardingAlgorithm, options.redundancy],
+          encryption: options.enabled ? [options.algorithm, options.keySize, options.customKey ? 'custom' : 'generated'] : null,
+          cid: [options.version, options.codec, options.hasher]
+        })
+        : undefined;
+      const previous = fingerprint ? UploadSessions.find(fingerprint) : null;
+      let encryptionIv: string | undefined;
+
       if (options.enabled && options.algorithm) {
         onProgress?.({
           stage: 'encrypting',
@@ -56,9 +85,16 @@ export class FileOperationsManager {
         });
 
         console.log('Encrypting file with algorithm:', options.algorithm);
-        const encryptionResult = await CryptoUtils.encryptWithMetadata(fileData, options);
+        const encryptionResult = previous?.encryption
+          ? await this.scheduler.encrypt(
+            fileData,
+            { ...options, customKey: previous.encryption.key },
+            CryptoUtils.hexToUint8Array(previous.encryption.iv)
+          )
+          : await this.scheduler.encrypt(fileData, options);
         fileData = encryptionResult.encryptedData;
         encryptionKey = encryptionResult.metadata.key;
+        encryptionIv = encryptionResult.metadata.iv;
         console.log('Encryption completed');
       }
 
@@ -72,29 +108,72 @@ export class FileOperationsManager {
           message: 'Creating file shards...'
         });
 
-        const shardingResult = await ShardingUtils.createShards(fileData, options);
+        UploadSessions.prune();
+        const shardingResult = await ShardingUtils.createShards(fileData, options, data => this.scheduler.hash(data));
         const shards = shardingResult.shards;
         shardManifest = shardingResult.manifest;
 
-        onProgress?.({
-          stage: 'uploading',
-          progress: 50,
-          message: `Uploading ${shards.length} shards...`
-        });
+        const { session, resumed } = UploadSessions.begin(
+          fingerprint!,
+          file.name,
+          originalSize,
+          shardManifest.shards.map(shard => ({ size: shard.size, digest: shard.checksum })),
+          encryptionKey && encryptionIv ? { key: encryptionKey, iv: encryptionIv } : undefined
+        );
 
-        const shardUploadPromises = shards.map(async (shard, index) => {
-          const shardName = `${file.name}.shard.${index}`;
-          const result = await this.ipfsManager.addFile(shard, shardName, {
-            version: options.version,
-            codec: options.codec,
-            hasher: options.hasher
-          });
-          
-          shardManifest!.shards[index].cid = result.cid;
-          return result.cid;
-        });
+        onProgress?.(this.byteProgress(
+          resumed ? `Resuming upload of ${shards.length} shards...` : `Uploading ${shards.length} shards...`,
+          session,
+          UploadSessions.bytesComplete(session),
+          resumed
+        ));
+
+        // Shards share the scheduler's upload slots and are recorded as they finish; after a failure no new shard starts
+        const inFlight = new Map<number, number>();
+        const uploadedBytes = () => UploadSessions.bytesComplete(session) + Array.from(inFlight.values()).reduce((sum, bytes) => sum + bytes, 0);
+        let failure: string | undefined;
+
+        await Promise.all(shards.map((shard, index) => this.scheduler.runShard(async () => {
+          const record = session.shards[index];
+          if (failure) return;
+          if (record.cid && await this.ipfsManager.hasBlock(record.cid)) {
+            shardManifest!.shards[index].cid = record.cid;
+            return;
+          }
+          if (record.cid) {
+            UploadSessions.resetShard(session, index);
+          }
+
+          try {
+            inFlight.set(index, 0);
+            const result = await this.ipfsManager.addFile(shard, `${file.name}.shard.${index}`, {
+              version: options.version,
+              codec: options.codec,
+              hasher: options.hasher
+            }, bytes => {
+              inFlight.set(index, bytes);
+              onProgress?.(this.byteProgress(`Uploading shard ${index + 1}/${shards.length}...`, session, uploadedBytes(), resumed));
+            });
+
+            inFlight.delete(index);
+            UploadSessions.completeShard(session, index, result.cid);
+            shardManifest!.shards[index].cid = result.cid;
+          } catch (shardError) {
+            inFlight.delete(index);
+            failure ??= shardError instanceof Error ? shardError.message : 'Unknown upload error';
+          }
+        })));
+
+        if (failure) {
+          UploadSessions.interrupt(session, failure);
+          const saved = session.shards.filter(shard => shard.cid).length;
+          const error = `${failure} (${saved} of ${shards.length} shards saved, upload the same file again to resume)`;
+          onProgress?.({ ...this.byteProgress('Upload interrupted', session, UploadSessions.bytesComplete(session), resumed), stage: 'error', error });
+          return { success: false, error, sessionId: session.id, resumable: true };
+        }
 
-        shardCids = await Promise.all(shardUploadPromises);
+        shardCids = session.shards.map(shard => shard.cid!);
+        shardManifest.shardRoot = await MerkleProofs.computeShardRoot(shardCids);
 
         const manifestBuffer = ShardingUtils.createManifestBuffer(shardManifest);
         const manifestResult = await this.ipfsManager.addFile(
@@ -106,6 +185,7 @@ export class FileOperationsManager {
             hasher: options.hasher
           }
         );
+        UploadSessions.finish(session);
 
         const fileMetadata: FileMetadata = {
           cid: manifestResult.cid,
@@ -140,6 +220,7 @@ export class FileOperationsManager {
           message: 'Upload completed successfully!'
         });
 
+        this.reportThroughput('upload', fileData.length, startedAt);
         return { success: true, file: fileMetadata };
       } else {
         onProgress?.({
@@ -154,7 +235,13 @@ export class FileOperationsManager {
             version: options.version,
             codec: options.codec,
             hasher: options.hasher
-          });
+          }, bytes => onProgress?.({
+            stage: 'uploading',
+            progress: 60 + Math.floor((bytes / fileData.length) * 35),
+            message: 'Uploading file to IPFS...',
+            bytesUploaded: bytes,
+            totalBytes: fileData.length
+          }));
           console.log('IPFS addFile completed:', result);
 
           // Parse the actual CID to get the real version and properties
@@ -212,6 +299,7 @@ export class FileOperationsManager {
               : 'Upload completed successfully!'
           });
 
+          this.reportThroughput('upload', fileData.length, startedAt);
           return { success: true, file: fileMetadata };
         } catch (ipfsError) {
           console.error('IPFS upload error:', ipfsError);
@@ -232,6 +320,174 @@ export class FileOperationsManager {
     }
   }
 
+  // Files wait for room in the scheduler's buffer budget before they are read, so large batches stay within memory
+  static async uploadFiles(
+    files: File[],
+    options: UploadOptions,
+    onProgress?: (file: File, progress: UploadProgress) => void
+  ): Promise<UploadResult[]> {
+    const startedAt = Date.now();
+    const results = await Promise.all(files.map(file => this.scheduler.runFile(
+      () => this.uploadFile(file, options, progress => onProgress?.(file, progress)),
+      file.size
+    )));
+
+    const uploadedBytes = results.reduce((sum, result, i) => sum + (result.success ? files[i].size : 0), 0);
+    this.reportThroughput('upload-batch', uploadedBytes, startedAt);
+    return results;
+  }
+
+  // Children are stored as plain UnixFS files so any gateway can serve /ipfs/<root>/<path>; encryption and sharding stay per-file
+  static async uploadDirectory(
+    files: File[],
+    options: UploadOptions,
+    onProgress?: (progress: UploadProgress) => void,
+    name?: string
+  ): Promise<DirectoryUploadResult> {
+    const startedAt = Date.now();
+    try {
+      if (files.length === 0) {
+        return { success: false, error: 'No files selected' };
+      }
+      const invalid = files.find(file => !ValidationUtils.validateFile(file).valid);
+      if (invalid) {
+        return { success: false, error: `File validation failed: ${invalid.name}` };
+      }
+      if (options.enabled) {
+        return { success: false, error: 'Directory uploads are stored unencrypted; disable encryption or upload files one at a time' };
+      }
+
+      onProgress?.({
+        stage: 'preparing',
+        progress: 0,
+        message: `Preparing ${files.length} files...`
+      });
+
+      const { root: folder, paths } = this.directoryPaths(files);
+      const directoryName = name || folder || 'directory';
+      const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      const largest = Math.max(...files.map(file => file.size));
+
+      // Children stream in one at a time, so the directory holds its largest file against the buffer budget
+      const result = await this.scheduler.runFile(() => this.ipfsManager.addDirectory(this.directoryEntries(files, paths), {
+        version: options.version,
+        codec: options.codec,
+        hasher: options.hasher
+      }, bytes => onProgress?.({
+        stage: 'uploading',
+        progress: 10 + Math.floor((Math.min(bytes, totalBytes) / totalBytes) * 80),
+        message: `Uploading directory of ${files.length} files...`,
+        bytesUploaded: Math.min(bytes, totalBytes),
+        totalBytes
+      })), largest);
+
+      const cidObj = await this.parseCID(result.cid);
+      const uploadedAt = Date.now();
+      const base = {
+        uploadedAt,
+        lastAccessedAt: uploadedAt,
+        downloadCount: 0,
+        encrypted: false,
+        sharded: false,
+        cidVersion: cidObj.version,
+        hasher: this.getHasherName(cidObj.multihashCode),
+        pinned: [],
+        verified: true,
+        tags: options.tags || []
+      };
+
+      const root: FileMetadata = {
+        ...base,
+        cid: result.cid,
+        name: directoryName,
+        size: totalBytes,
+        mimeType: 'inode/directory',
+        contentType: 'directory',
+        description: options.description,
+        directory: true
+      };
+      const children: FileMetadata[] = result.entries.map(entry => ({
+        ...base,
+        cid: entry.cid,
+        name: entry.path.split('/').pop()!,
+        size: entry.size,
+        mimeType: entry.type === 'directory' ? 'inode/directory' : ContentTypeUtils.getMimeType(entry.path),
+        contentType: entry.type === 'directory' ? 'directory' : ContentTypeUtils.getContentType(entry.path),
+        parentCid: result.cid,
+        path: `/${entry.path}`,
+        ...(entry.type === 'directory' ? { directory: true } : {})
+      }));
+
+      StorageManager.addFile(root);
+      children.forEach(child => StorageManager.addFile(child));
+
+      if (options.pin && options.pinToServices) {
+        await this.pinFileToServices(root, options.pinToServices, onProgress);
+      }
+
+      onProgress?.({
+        stage: 'complete',
+        progress: 100,
+        message: `Directory uploaded: ${result.cid}`,
+        bytesUploaded: totalBytes,
+        totalBytes
+      });
+
+      this.reportThroughput('upload', totalBytes, startedAt);
+      return { success: true, root, files: children };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown upload error';
+
+      onProgress?.({
+        stage: 'error',
+        progress: 0,
+        message: 'Directory upload failed',
+        error: errorMessage
+      });
+
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // Folder selections share a top-level name in webkitRelativePath; it becomes the directory name rather than a path segment
+  static directoryPaths(files: File[]): { root?: string; paths: string[] } {
+    const raw = files.map(file => (file.webkitRelativePath || file.name).replace(/\\/g, '/').split('/').filter(Boolean));
+    for (const segments of raw) {
+      if (segments.length === 0 || segments.some(segment => segment === '.' || segment === '..')) {
+        throw new Error(`Invalid path: ${segments.join('/')}`);
+      }
+    }
+
+    const top = raw[0][0];
+    const shared = raw.every(segments => segments.length > 1 && segments[0] === top);
+    const paths = raw.map(segments => (shared ? segments.slice(1) : segments).join('/'));
+    const duplicate = paths.find((path, i) => paths.indexOf(path) !== i);
+    if (duplicate) {
+      throw new Error(`Duplicate path: /${duplicate}`);
+    }
+    return shared ? { root: top, paths } : { paths };
+  }
+
+  // Each file is opened only when the importer reaches it
+  private static *directoryEntries(files: File[], paths: string[]): Generator<DirectoryInput> {
+    for (let i = 0; i < files.length; i++) {
+      yield { path: paths[i], content: this.readChunks(files[i]) };
+    }
+  }
+
+  private static async *readChunks(file: File): AsyncGenerator<Uint8Array> {
+    const reader = file.stream().getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
   static async downloadFile(
     fileMetadata: FileMetadata,
     onProgress?: (progress: UploadProgress) => void
@@ -275,8 +531,14 @@ export class FileOperationsManager {
           return await this.ipfsManager.getFile(shardInfo.cid);
         });
 
-        const shards = await Promise.all(shardPromises);
-        fileData = await ShardingUtils.reconstructFromShards(shards, manifest);
+        if (manifest.algorithm === 'reed-solomon') {
+          const settled = await Promise.allSettled(shardPromises);
+          const shards = settled.map(result => result.status === 'fulfilled' ? result.value : null);
+          fileData = await ShardingUtils.reconstructFromShards(shards, manifest);
+        } else {
+          const shards = await Promise.all(shardPromises);
+          fileData = await ShardingUtils.reconstructFromShards(shards, manifest);
+        }
       } else {
         onProgress?.({
           stage: 'uploading',
@@ -336,17 +598,69 @@ export class FileOperationsManager {
     }
   }
 
+  static async downloadPath(
+    directory: FileMetadata,
+    path: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<DownloadResult> {
+    try {
+      onProgress?.({
+        stage: 'preparing',
+        progress: 0,
+        message: `Resolving ${path} in ${directory.name}...`
+      });
+
+      const cid = await this.ipfsManager.resolvePath(directory.cid, path);
+      const data = await this.ipfsManager.getFile(cid);
+
+      StorageManager.updateFile(directory.cid, {
+        lastAccessedAt: Date.now(),
+        downloadCount: directory.downloadCount + 1
+      });
+
+      onProgress?.({
+        stage: 'complete',
+        progress: 100,
+        message: 'Download completed!'
+      });
+
+      return { success: true, data, mimeType: ContentTypeUtils.getMimeType(path) };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown download error';
+
+      onProgress?.({
+        stage: 'error',
+        progress: 0,
+        message: 'Download failed',
+        error: errorMessage
+      });
+
+      return { success: false, error: errorMessage };
+    }
+  }
+
   static async verifyFile(fileMetadata: FileMetadata): Promise<boolean> {
     try {
       if (fileMetadata.sharded) {
         const manifestData = await this.ipfsManager.getFile(fileMetadata.cid);
         const manifest = ShardingUtils.parseManifestBuffer(manifestData);
+        if (manifest.shardRoot && manifest.shards.every(shard => shard.cid) &&
+          (await MerkleProofs.computeShardRoot(manifest.shards.map(shard => shard.cid!))) !== manifest.shardRoot) {
+          return false;
+        }
         
         const shardPromises = manifest.shards.map(async (shardInfo) => {
           if (!shardInfo.cid) return null;
           return await this.ipfsManager.getFile(shardInfo.cid);
         });
 
+        if (manifest.algorithm === 'reed-solomon') {
+          const settled = await Promise.allSettled(shardPromises);
+          const shards = settled.map(result => result.status === 'fulfilled' ? result.value : null);
+          const verification = await ShardingUtils.verifyShards(shards, manifest);
+          return verification.recoverable;
+        }
+
         const shards = await Promise.all(shardPromises);
         const validShards = shards.filter(s => s !== null) as Uint8Array[];
         
@@ -360,8 +674,34 @@ export class FileOperationsManager {
     }
   }
 
+  // Local pins go with the record so GC can reclaim the blocks; CIDs another record still references stay pinned
   static async deleteFile(cid: string): Promise<void> {
-    StorageManager.removeFile(cid);
+    const files: FileMetadata[] = StorageManager.loadConfig().files;
+    const removed = files.filter(file => file.cid === cid || file.parentCid === cid);
+    const kept = files.filter(file => !removed.includes(file));
+    removed.forEach(file => StorageManager.removeFile(file.cid));
+
+    const referenced = new Set((await Promise.all(kept.map(file => this.pinnedCids(file)))).flat());
+    const released = new Set((await Promise.all(removed.map(file => this.pinnedCids(file)))).flat());
+    for (const pinned of released) {
+      if (referenced.has(pinned)) continue;
+      try {
+        await this.ipfsManager.unpin(pinned);
+      } catch (error) {
+        console.warn(`Failed to unpin ${pinned}:`, error);
+      }
+    }
+  }
+
+  // Shard CIDs are only recorded in the manifest, which is read from the local blockstore
+  private static async pinnedCids(file: FileMetadata): Promise<string[]> {
+    if (!file.sharded) return [file.cid];
+    try {
+      const manifest = ShardingUtils.parseManifestBuffer(await this.ipfsManager.getFile(file.cid, { offline: true }));
+      return [file.cid, ...manifest.shards.flatMap(shard => shard.cid ? [shard.cid] : [])];
+    } catch {
+      return [file.cid];
+    }
   }
 
   static createDownloadUrl(data: Uint8Array, filename: string, mimeType: string): string {
@@ -414,10 +754,33 @@ export class FileOperationsManager {
     await PinningServiceManager.pinToMultipleServices(
       fileMetadata,
       services,
-      pinningProgress
+      pinningProgress,
+      task => this.scheduler.runPin(task)
     );
   }
 
+  private static reportThroughput(operation: 'upload' | 'upload-batch', bytes: number, startedAt: number): void {
+    const monitor = PerformanceMonitor.getInstance();
+    if (operation === 'upload') {
+      monitor.trackNetworkUsage(bytes, 'upload');
+    }
+    monitor.trackThroughput(operation, bytes, Date.now() - startedAt);
+  }
+
+  private static byteProgress(message: string, session: UploadSession, bytesUploaded: number, resumed: boolean): UploadProgress {
+    return {
+      stage: 'uploading',
+      progress: 50 + Math.floor((bytesUploaded / session.totalBytes) * 45),
+      message,
+      bytesUploaded,
+      totalBytes: session.totalBytes,
+      shardsComplete: session.shards.filter(shard => shard.cid).length,
+      shardCount: session.shards.length,
+      sessionId: session.id,
+      resumed
+    };
+  }
+
   private static determineContentType(mimeType: string): FileMetadata['contentType'] {
     if (mimeType.startsWith('text/')) return 'text';
     if (mimeType.startsWith('image/')) return 'image';
@@ -446,13 +809,6 @@ export class FileOperationsManager {
   }
 
   private static getHasherName(multihashCode: number): string {
-    const hasherMap: Record<number, string> = {
-      0x12: 'sha2-256',
-      0x13: 'sha2-512',
-      0xb220: 'blake2b-256',
-      0x1e: 'blake3'
-    };
-    
-    return hasherMap[multihashCode] || 'sha2-256';
+    return HasherRegistry.getName(multihashCode) || 'sha2-256';
   }
 }
\ No newline at end of file
@@ -1,23 +1,59 @@
+import { CID } from 'multiformats/cid';
+import drain from 'it-drain';
 import { CIDOptions, NodeStats, PeerConfig } from './types';
+import { DagPathProof, MerkleProofs } from './merkle-proof';
+import { HasherRegistry } from './hasher-registry';
+import { GarbageCollectionResult, NodeStorageConfig, PersistentStorage, PersistentStores, StorageQuota } from './persistent-storage';
+import { CertificateCheck, CertificateTrust, ClusterCertificateConfig, NodeCertificate, NodeCertificates, RevocationList } from './node-certificates';
 
 interface HeliaNode {
   libp2p: any;
   blockstore: any;
   datastore: any;
+  pins: any;
+  gc(options?: { onProgress?(event: { type: string }): void }): Promise<void>;
   stop(): Promise<void>;
 }
 
 interface UnixFS {
   addFile(content: AsyncIterable<Uint8Array>, options?: any): Promise<any>;
-  cat(cid: string | any): AsyncIterable<Uint8Array>;
-  stat(cid: string | any): Promise<{ size: number }>;
+  addAll(source: Iterable<DirectoryInput> | AsyncIterable<DirectoryInput>, options?: any): AsyncIterable<{ cid: any; path?: string; size: number | bigint; unixfs?: { type: string; fileSize(): bigint } }>;
+  cat(cid: string | any, options?: { offline?: boolean }): AsyncIterable<Uint8Array>;
+  stat(cid: string | any, options?: { path?: string }): Promise<{ cid: any; size: number }>;
+}
+
+interface PeerAuthorization {
+  check: Promise<CertificateCheck>;
+  validUntil?: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+export interface DirectoryInput {
+  path: string;
+  content: Uint8Array | AsyncIterable<Uint8Array>;
+}
+
+export interface DirectoryEntry {
+  path: string;
+  cid: string;
+  size: number;
+  type: 'file' | 'directory';
 }
 
 export class IPFSNodeManager {
   private static instance: IPFSNodeManager;
+  private static readonly CERTIFICATE_PROTOCOL = '/vdic/node-certificate/1.0.0';
+  private static readonly CERTIFICATE_TIMEOUT = 10000;
+  private static readonly MAX_CERTIFICATE_SIZE = 16 * 1024;
+  private static readonly MAX_TIMER_DELAY = 2 ** 31 - 1;
   private node: HeliaNode | null = null;
   private unixfs: UnixFS | null = null;
   private libraries: any = null;
+  private stores: PersistentStores | null = null;
+  private storageConfig: NodeStorageConfig = { type: 'memory' };
+  private certificateTrust: CertificateTrust | null = null;
+  private nodeCertificate: NodeCertificate | null = null;
+  private peerChecks = new Map<string, PeerAuthorization>();
   private eventListeners: Set<(stats: NodeStats) => void> = new Set();
   private stats: NodeStats = {
     peerId: '',
@@ -37,12 +73,19 @@ export class IPFSNodeManager {
     return IPFSNodeManager.instance;
   }
 
-  async initialize(peers: PeerConfig[]): Promise<void> {
+  async initialize(
+    peers: PeerConfig[],
+    storage: NodeStorageConfig = { type: 'memory' },
+    cluster?: ClusterCertificateConfig
+  ): Promise<void> {
     try {
       this.stats.status = 'initializing';
+      this.storageConfig = storage;
       await this.loadLibraries();
       await this.createNode(peers);
+      await this.node!.libp2p.handle(IPFSNodeManager.CERTIFICATE_PROTOCOL, ({ stream }: any) => this.serveCertificate(stream));
       this.setupEventListeners();
+      this.setClusterConfig(cluster);
       this.stats.status = 'ready';
       this.stats.uptime = Date.now();
       this.notifyListeners();
@@ -107,8 +150,11 @@ export class IPFSNodeManager {
     const enabledPeers = peers.filter(p => p.enabled);
     const bootstrapAddresses = enabledPeers.map(p => p.multiaddr);
 
-    const blockstore = new this.libraries.MemoryBlockstore();
-    const datastore = new this.libraries.MemoryDatastore();
+    this.stores = await PersistentStorage.createStores(this.storageConfig, () => ({
+      blockstore: new this.libraries.MemoryBlockstore(),
+      datastore: new this.libraries.MemoryDatastore()
+    }));
+    const { blockstore, datastore } = this.stores;
 
     const libp2pConfig = {
       addresses: {
@@ -128,9 +174,18 @@ export class IPFSNodeManager {
       }
     };
 
+    // Hashers registered after startup are loaded on first use
     this.node = await this.libraries.createHelia({
       blockstore,
       datastore,
+      hashers: HasherRegistry.hashers(),
+      loadHasher: (code: number) => {
+        const entry = HasherRegistry.getByCode(code);
+        if (!entry) {
+          throw new Error(`Unsupported hash function 0x${code.toString(16)}`);
+        }
+        return entry.hasher;
+      },
       libp2p: libp2pConfig
     });
 
@@ -141,11 +196,13 @@ export class IPFSNodeManager {
   private setupEventListeners(): void {
     if (!this.node?.libp2p) return;
 
-    this.node.libp2p.addEventListener('peer:connect', () => {
+    this.node.libp2p.addEventListener('peer:connect', (event: CustomEvent) => {
       this.updatePeerCount();
+      void this.authorizePeer(event.detail);
     });
 
-    this.node.libp2p.addEventListener('peer:disconnect', () => {
+    this.node.libp2p.addEventListener('peer:disconnect', (event: CustomEvent) => {
+      this.forgetPeer(event.detail.toString());
       this.updatePeerCount();
     });
   }
@@ -160,7 +217,8 @@ export class IPFSNodeManager {
   async addFile(
     content: Uint8Array,
     filename: string,
-    cidOptions: CIDOptions
+    cidOptions: CIDOptions,
+    onBytesWritten?: (bytes: number) => void
   ): Promise<{ cid: string; size: number }> {
     if (!this.unixfs) {
       throw new Error('IPFS node not initialized');
@@ -180,7 +238,14 @@ export class IPFSNodeManager {
       // Method 1: Try addBytes with Uint8Array (most direct for raw bytes)
       try {
         console.log('Method 1: Trying addBytes with Uint8Array...');
-        cid = await this.unixfs.addBytes(content, options);
+        cid = await this.unixfs.addBytes(content, {
+          ...options,
+          onProgress: onBytesWritten && ((event: { type: string; detail: any }) => {
+            if (event.type === 'unixfs:importer:progress:file:write') {
+              onBytesWritten(Math.min(Number(event.detail.bytesWritten), content.length));
+            }
+          })
+        });
         method = 'addBytes';
       } catch (bytesError) {
         console.warn('addBytes failed:', bytesError?.message || bytesError);
@@ -221,6 +286,8 @@ export class IPFSNodeManager {
         }
       }
       
+      await this.pin(cid.toString());
+
       console.log(`File added successfully using ${method}, CID:`, cid.toString());
       console.log('Generated CID version:', cid.version);
       console.log('Generated CID codec:', cid.code);
@@ -244,7 +311,77 @@ export class IPFSNodeManager {
     }
   }
 
-  async getFile(cid: string): Promise<Uint8Array> {
+  // Entries are wrapped in one UnixFS directory; pinning the root covers every child
+  async addDirectory(
+    entries: Iterable<DirectoryInput> | AsyncIterable<DirectoryInput>,
+    cidOptions: CIDOptions,
+    onBytesWritten?: (bytes: number) => void
+  ): Promise<{ cid: string; size: number; entries: DirectoryEntry[] }> {
+    if (!this.unixfs) {
+      throw new Error('IPFS node not initialized');
+    }
+
+    try {
+      const written = new Map<string, number>();
+      const results: DirectoryEntry[] = [];
+
+      for await (const entry of this.unixfs.addAll(entries, {
+        ...this.buildAddOptions(cidOptions),
+        wrapWithDirectory: true,
+        // Files are read as the importer reaches them, so only one is in memory at a time
+        fileImportConcurrency: 1,
+        onProgress: onBytesWritten && ((event: { type: string; detail: any }) => {
+          if (event.type === 'unixfs:importer:progress:file:write') {
+            written.set(event.detail.path, Number(event.detail.bytesWritten));
+            onBytesWritten(Array.from(written.values()).reduce((sum, bytes) => sum + bytes, 0));
+          }
+        })
+      })) {
+        const type = entry.unixfs?.type;
+        results.push({
+          path: entry.path ?? '',
+          cid: entry.cid.toString(),
+          // entry.size counts DAG bytes; the UnixFS file size is the content length
+          size: Number(entry.unixfs ? entry.unixfs.fileSize() : entry.size),
+          type: !type || type === 'file' || type === 'raw' ? 'file' : 'directory'
+        });
+      }
+
+      const root = results.find(entry => entry.path === '');
+      if (!root) {
+        throw new Error('Importer did not produce a directory root');
+      }
+      await this.pin(root.cid);
+
+      return {
+        cid: root.cid,
+        size: results.reduce((sum, entry) => sum + (entry.type === 'file' ? entry.size : 0), 0),
+        entries: results.filter(entry => entry.path !== '')
+      };
+    } catch (error) {
+      console.error('Error adding directory to IPFS:', error);
+      throw error;
+    }
+  }
+
+  async resolvePath(root: string, path: string): Promise<string> {
+    if (!this.unixfs || !this.libraries) {
+      throw new Error('IPFS node not initialized');
+    }
+
+    const relative = path.split('/').filter(Boolean).join('/');
+    if (!relative) {
+      return root;
+    }
+    try {
+      const stat = await this.unixfs.stat(this.libraries.CID.parse(root), { path: relative });
+      return stat.cid.toString();
+    } catch (error) {
+      throw new Error(`Failed to resolve /${relative} in ${root}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getFile(cid: string, options: { offline?: boolean } = {}): Promise<Uint8Array> {
     if (!this.unixfs || !this.libraries) {
       throw new Error('IPFS node not initialized');
     }
@@ -253,7 +390,7 @@ export class IPFSNodeManager {
       console.log('Retrieving file from IPFS:', cid);
       
       const chunks: Uint8Array[] = [];
-      for await (const chunk of this.unixfs.cat(cid)) {
+      for await (const chunk of this.unixfs.cat(cid, options)) {
         chunks.push(chunk);
       }
 
@@ -281,24 +418,231 @@ export class IPFSNodeManager {
     }
   }
 
+  async getBlock(cid: string | CID): Promise<Uint8Array> {
+    if (!this.node || !this.libraries) {
+      throw new Error('IPFS node not initialized');
+    }
+
+    const cidObj = typeof cid === 'string' ? this.libraries.CID.parse(cid) : cid;
+    return await this.node.blockstore.get(cidObj);
+  }
+
+  async hasBlock(cid: string | CID): Promise<boolean> {
+    if (!this.node || !this.libraries) {
+      throw new Error('IPFS node not initialized');
+    }
+
+    const cidObj = typeof cid === 'string' ? this.libraries.CID.parse(cid) : cid;
+    return await this.node.blockstore.has(cidObj);
+  }
+
+  async createProof(cid: string, offset: number = 0): Promise<DagPathProof> {
+    return await MerkleProofs.buildDagPathProof(blockCid => this.getBlock(blockCid), cid, offset);
+  }
+
   async verifyFile(cid: string): Promise<boolean> {
     try {
-      await this.getFileInfo(cid);
+      for (const offset of [0, Number.MAX_SAFE_INTEGER]) {
+        const proof = await MerkleProofs.buildDagPathProof(blockCid => this.getBlock(blockCid), cid, offset);
+        if (!(await MerkleProofs.verify(proof, cid)).valid) {
+          return false;
+        }
+      }
       return true;
     } catch {
       return false;
     }
   }
 
+  async pin(cid: string): Promise<void> {
+    if (!this.node || !this.libraries) {
+      throw new Error('IPFS node not initialized');
+    }
+
+    const cidObj = this.libraries.CID.parse(cid);
+    if (!(await this.node.pins.isPinned(cidObj))) {
+      await drain(this.node.pins.add(cidObj));
+    }
+  }
+
+  async unpin(cid: string): Promise<void> {
+    if (!this.node || !this.libraries) {
+      throw new Error('IPFS node not initialized');
+    }
+
+    const cidObj = this.libraries.CID.parse(cid);
+    if (await this.node.pins.isPinned(cidObj)) {
+      await drain(this.node.pins.rm(cidObj));
+    }
+  }
+
+  isPersistent(): boolean {
+    return !!this.stores?.persistent;
+  }
+
+  async getStorageQuota(): Promise<StorageQuota | null> {
+    return await PersistentStorage.getQuota();
+  }
+
+  async collectGarbage(retain: string[] = []): Promise<GarbageCollectionResult> {
+    if (!this.node) {
+      throw new Error('IPFS node not initialized');
+    }
+    return await PersistentStorage.collectGarbage(this.node, retain);
+  }
+
+  async maintainStorage(retain: string[] = []): Promise<GarbageCollectionResult | null> {
+    if (!this.node || !this.isPersistent()) {
+      return null;
+    }
+
+    const quota = await PersistentStorage.getQuota();
+    if (!this.storageConfig.gcOnStart && !PersistentStorage.isOverThreshold(quota, this.storageConfig)) {
+      return null;
+    }
+    return await this.collectGarbage(retain);
+  }
+
+  // The cluster section of the config supplies the trust anchor and the certificate this node presents to peers
+  setClusterConfig(cluster?: ClusterCertificateConfig | null): void {
+    this.nodeCertificate = cluster?.certificate ?? null;
+    this.setCertificateTrust(cluster?.issuer ? cluster : null);
+  }
+
+  // Once a cluster trust anchor is set, peers stay connected only after presenting a valid certificate for their own peer ID
+  setCertificateTrust(trust: CertificateTrust | null): void {
+    if (trust?.revocationList && !NodeCertificates.verifyRevocationList(trust.revocationList, trust.issuer)) {
+      throw new Error('Revocation list is not signed by the cluster leader');
+    }
+    this.certificateTrust = trust;
+    this.reverifyPeers();
+  }
+
+  updateRevocationList(list: RevocationList): boolean {
+    const trust = this.certificateTrust;
+    if (!trust || !NodeCertificates.verifyRevocationList(list, trust.issuer)) {
+      return false;
+    }
+    if (trust.revocationList && list.version <= trust.revocationList.version) {
+      return false;
+    }
+    this.certificateTrust = { ...trust, revocationList: list };
+    this.reverifyPeers();
+    return true;
+  }
+
   async connectToPeer(multiaddr: string): Promise<void> {
     if (!this.node?.libp2p) {
       throw new Error('IPFS node not initialized');
     }
 
-    await this.node.libp2p.dial(multiaddr);
+    const connection = await this.node.libp2p.dial(multiaddr);
+    const check = await this.authorizePeer(connection.remotePeer);
+    if (!check.valid) {
+      throw new Error(`Disconnected from ${connection.remotePeer.toString()}: ${check.error}`);
+    }
     this.updatePeerCount();
   }
 
+  // Fetches the peer's certificate over the certificate protocol and hangs up when it does not verify
+  private authorizePeer(peer: any): Promise<CertificateCheck> {
+    const trust = this.certificateTrust;
+    if (!trust) {
+      return Promise.resolve({ valid: true });
+    }
+
+    const peerId = peer.toString();
+    const cached = this.peerChecks.get(peerId);
+    if (cached && !(cached.validUntil !== undefined && cached.validUntil <= Date.now())) {
+      return cached.check;
+    }
+    this.forgetPeer(peerId);
+
+    const authorization: PeerAuthorization = {
+      check: this.fetchPeerCertificate(peer)
+        .then(certificate => NodeCertificates.verify(certificate, trust, peerId))
+        .catch((error): CertificateCheck => ({
+          valid: false,
+          reason: 'missing',
+          error: `Could not fetch node certificate: ${error instanceof Error ? error.message : error}`
+        }))
+        .then(async result => {
+          if (!result.valid) {
+            console.warn(`Hanging up on ${peerId}: ${result.error}`);
+            if (this.peerChecks.get(peerId) === authorization) this.peerChecks.delete(peerId);
+            await this.node?.libp2p.hangUp(peer).catch(() => {});
+            this.updatePeerCount();
+          } else if (result.validUntil !== undefined && this.peerChecks.get(peerId) === authorization) {
+            this.scheduleReverify(peer, authorization, result.validUntil);
+          }
+          return result;
+        })
+    };
+    this.peerChecks.set(peerId, authorization);
+    return authorization.check;
+  }
+
+  // A pass only holds until the certificate or revocation list lapses; the peer then has to present a current certificate
+  private scheduleReverify(peer: any, authorization: PeerAuthorization, validUntil: number): void {
+    const delay = Math.min(Math.max(validUntil - Date.now(), 0), IPFSNodeManager.MAX_TIMER_DELAY);
+    authorization.validUntil = validUntil;
+    authorization.timer = setTimeout(() => {
+      if (this.peerChecks.get(peer.toString()) !== authorization) return;
+      this.forgetPeer(peer.toString());
+      void this.authorizePeer(peer);
+    }, delay);
+  }
+
+  private forgetPeer(peerId: string): void {
+    clearTimeout(this.peerChecks.get(peerId)?.timer);
+    this.peerChecks.delete(peerId);
+  }
+
+  private reverifyPeers(): void {
+    for (const peerId of Array.from(this.peerChecks.keys())) {
+      this.forgetPeer(peerId);
+    }
+    for (const peer of this.node?.libp2p?.getPeers() ?? []) {
+      void this.authorizePeer(peer);
+    }
+  }
+
+  private async fetchPeerCertificate(peer: any): Promise<NodeCertificate | null> {
+    const stream = await this.node!.libp2p.dialProtocol(peer, IPFSNodeManager.CERTIFICATE_PROTOCOL, {
+      signal: AbortSignal.timeout(IPFSNodeManager.CERTIFICATE_TIMEOUT)
+    });
+    const timer = setTimeout(() => stream.abort(new Error('Timed out reading node certificate')), IPFSNodeManager.CERTIFICATE_TIMEOUT);
+
+    try {
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      for await (const chunk of stream.source) {
+        size += chunk.byteLength;
+        if (size > IPFSNodeManager.MAX_CERTIFICATE_SIZE) {
+          throw new Error('Node certificate is too large');
+        }
+        chunks.push(chunk.subarray());
+      }
+      await stream.close();
+      return size === 0 ? null : JSON.parse(new TextDecoder().decode(this.libraries.concat(chunks, size)));
+    } catch (error) {
+      stream.abort(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async serveCertificate(stream: any): Promise<void> {
+    const payload = this.nodeCertificate ? [new TextEncoder().encode(JSON.stringify(this.nodeCertificate))] : [];
+    try {
+      await stream.sink(payload);
+      await stream.close();
+    } catch (error) {
+      stream.abort(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
   async disconnectFromPeer(peerId: string): Promise<void> {
     if (!this.node?.libp2p) {
       throw new Error('IPFS node not initialized');
@@ -330,8 +674,13 @@ export class IPFSNodeManager {
 
   async stop(): Promise<void> {
     if (this.node) {
+      for (const peerId of Array.from(this.peerChecks.keys())) {
+        this.forgetPeer(peerId);
+      }
       await this.node.stop();
+      await this.stores?.close();
       this.node = null;
+      this.stores = null;
       this.unixfs = null;
       this.stats.status = 'stopped';
       this.notifyListeners();
@@ -364,6 +713,9 @@ export class IPFSNodeManager {
       // CID v1 can use rawLeaves and custom hashers
       options.rawLeaves = true;
       console.log('Using CID v1 with rawLeaves enabled');
+      if (cidOptions.hasher) {
+        options.hasher = HasherRegistry.get(cidOptions.hasher).hasher;
+      }
     }
 
     console.log('Built options:', options);
@@ -0,0 +1,272 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { NodeCapability, NodeCertificates } from './node-certificates';
+
+export interface NodeAttestation {
+  witnessNodeId: string;
+  attestedNodeId: string;
+  attestedNodeDID: string;
+  verificationMethod: string;
+  timestamp: string;
+  expiresAt: string;
+  signature: string;
+}
+
+export interface Witness {
+  nodeId: string;
+  privateKey: Uint8Array;
+}
+
+export type WitnessRegistry = Record<string, string>;
+
+export type AccessLevel = 'none' | 'read-only' | 'limited-pinning' | 'full';
+
+export interface AttestationPolicy {
+  requiredWitnesses: number;
+  attestationPeriod: number;
+  reattestationInterval: number;
+}
+
+export interface ConditionalAccess {
+  nodeId: string;
+  did: string;
+  level: AccessLevel;
+  capabilities: NodeCapability[];
+  witnesses: string[];
+  admittedAt?: string;
+  fullAccessAt?: string;
+  reattestBy?: string;
+}
+
+export interface AttestationVerification {
+  success: boolean;
+  witnesses: string[];
+  invalid: { witnessNodeId: string; error: string }[];
+  error?: string;
+}
+
+export class NodeAttestations {
+  static readonly DEFAULT_POLICY: AttestationPolicy = {
+    requiredWitnesses: 3,
+    attestationPeriod: 7 * 24 * 60 * 60 * 1000,
+    reattestationInterval: 30 * 24 * 60 * 60 * 1000
+  };
+  static readonly ACCESS_CAPABILITIES: Record<AccessLevel, NodeCapability[]> = {
+    none: [],
+    'read-only': ['serve'],
+    'limited-pinning': ['serve', 'pin'],
+    full: ['serve', 'store', 'pin', 'replicate']
+  };
+
+  static validatePolicy(policy: AttestationPolicy): AttestationPolicy {
+    if (!Number.isInteger(policy.requiredWitnesses) || policy.requiredWitnesses < 2) {
+      throw new Error('At least two witnesses are required so no single operator can admit a node');
+    }
+    if (!(policy.attestationPeriod >= 0)) {
+      throw new Error('Attestation period must be zero or more milliseconds');
+    }
+    if (!(policy.reattestationInterval > policy.attestationPeriod)) {
+      throw new Error('Re-attestation interval must be longer than the attestation period');
+    }
+    return policy;
+  }
+
+  static create(
+    witness: Witness,
+    subject: { nodeId: string; did: string },
+    verificationMethod: string,
+    policy: AttestationPolicy = this.DEFAULT_POLICY,
+    now: number = Date.now()
+  ): NodeAttestation {
+    if (witness.nodeId === subject.nodeId) {
+      throw new Error('A node cannot attest to itself');
+    }
+    NodeCertificates.publicKeyFromDid(subject.did);
+
+    const unsigned: Omit<NodeAttestation, 'signature'> = {
+      witnessNodeId: witness.nodeId,
+      attestedNodeId: subject.nodeId,
+      attestedNodeDID: subject.did,
+      verificationMethod,
+      timestamp: new Date(now).toISOString(),
+      expiresAt: new Date(now + policy.reattestationInterval).toISOString()
+    };
+    return { ...unsigned, signature: bytesToHex(ed25519.sign(this.encode(unsigned), witness.privateKey)) };
+  }
+
+  static verify(
+    attestation: NodeAttestation,
+    witnesses: WitnessRegistry,
+    policy: AttestationPolicy = this.DEFAULT_POLICY,
+    now: number = Date.now()
+  ): { valid: boolean; error?: string } {
+    const witnessDid = witnesses[attestation.witnessNodeId];
+    if (!witnessDid) {
+      return { valid: false, error: `${attestation.witnessNodeId} is not a recognised witness` };
+    }
+    if (attestation.witnessNodeId === attestation.attestedNodeId) {
+      return { valid: false, error: 'Self-attestation is not accepted' };
+    }
+
+    try {
+      if (!ed25519.verify(hexToBytes(attestation.signature), this.encode(attestation), NodeCertificates.publicKeyFromDid(witnessDid))) {
+        return { valid: false, error: 'Attestation signature does not verify' };
+      }
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : 'Malformed attestation' };
+    }
+
+    if (Date.parse(attestation.timestamp) > now) {
+      return { valid: false, error: 'Attestation is dated in the future' };
+    }
+    if (!(Date.parse(attestation.expiresAt) > now)) {
+      return { valid: false, error: `Attestation expired at ${attestation.expiresAt}` };
+    }
+    // A witness cannot extend its vouching past the policy's re-attestation interval
+    if (Date.parse(attestation.expiresAt) - Date.parse(attestation.timestamp) > policy.reattestationInterval) {
+      return { valid: false, error: 'Attestation lifetime exceeds the re-attestation interval' };
+    }
+    return { valid: true };
+  }
+
+  // Only distinct witness keys with currently valid attestations count, and the node and DID they back most is the one verified
+  static verifyAttestations(
+    attestations: NodeAttestation[],
+    witnesses: WitnessRegistry,
+    policy: AttestationPolicy = this.DEFAULT_POLICY,
+    now: number = Date.now()
+  ): AttestationVerification {
+    const { requiredWitnesses } = policy;
+    const invalid: AttestationVerification['invalid'] = [];
+    if (attestations.length === 0) {
+      return { success: false, witnesses: [], invalid, error: 'No attestations provided' };
+    }
+
+    const bySubject = new Map<string, NodeAttestation[]>();
+    for (const attestation of attestations) {
+      const check = this.verify(attestation, witnesses, policy, now);
+      if (!check.valid) {
+        invalid.push({ witnessNodeId: attestation.witnessNodeId, error: check.error! });
+        continue;
+      }
+      const subject = JSON.stringify([attestation.attestedNodeId, attestation.attestedNodeDID]);
+      bySubject.set(subject, [...(bySubject.get(subject) ?? []), attestation]);
+    }
+
+    let counted: NodeAttestation[] = [];
+    for (const candidateAttestations of bySubject.values()) {
+      const latest = this.latestByWitness(candidateAttestations, witnesses);
+      if (latest.length > counted.length) {
+        counted = latest;
+      }
+    }
+    const subject = counted[0];
+    for (const attestation of Array.from(bySubject.values()).flat()) {
+      if (attestation.attestedNodeId !== subject.attestedNodeId || attestation.attestedNodeDID !== subject.attestedNodeDID) {
+        invalid.push({ witnessNodeId: attestation.witnessNodeId, error: 'Attestation is for a different node' });
+      }
+    }
+
+    const result: AttestationVerification = {
+      success: counted.length >= requiredWitnesses,
+      witnesses: counted.map(attestation => attestation.witnessNodeId),
+      invalid
+    };
+    if (!result.success) {
+      result.error = `${counted.length} of ${requiredWitnesses} required witnesses have attested`;
+    }
+    return result;
+  }
+
+  // Access escalates read-only -> limited pinning at quorum -> full once the attestation period has passed without losing quorum
+  static grantConditionalAccess(
+    nodeId: string,
+    attestations: NodeAttestation[],
+    witnesses: WitnessRegistry,
+    policy: AttestationPolicy = this.DEFAULT_POLICY,
+    previous?: ConditionalAccess,
+    now: number = Date.now()
+  ): ConditionalAccess {
+    this.validatePolicy(policy);
+    const relevant = attestations.filter(attestation =>
+      attestation.attestedNodeId === nodeId && this.verify(attestation, witnesses, policy, now).valid
+    );
+
+    // The DID backed by the most witnesses wins, so one stray attestation for another key cannot displace it
+    const byDid = new Map<string, NodeAttestation[]>();
+    for (const attestation of relevant) {
+      byDid.set(attestation.attestedNodeDID, [...(byDid.get(attestation.attestedNodeDID) ?? []), attestation]);
+    }
+    let did = previous?.did ?? attestations.find(attestation => attestation.attestedNodeId === nodeId)?.attestedNodeDID ?? '';
+    let valid: NodeAttestation[] = [];
+    for (const [candidate, candidateAttestations] of byDid) {
+      const latest = this.latestByWitness(candidateAttestations, witnesses);
+      if (latest.length > valid.length || (latest.length === valid.length && candidate === previous?.did)) {
+        did = candidate;
+        valid = latest;
+      }
+    }
+
+    if (valid.length === 0) {
+      return this.access(nodeId, did, 'none', []);
+    }
+    if (valid.length < policy.requiredWitnesses) {
+      return this.access(nodeId, did, 'read-only', valid);
+    }
+
+    // Quorum holds until the attestations backing it start expiring
+    const byExpiry = valid.map(attestation => Date.parse(attestation.expiresAt)).sort((a, b) => b - a);
+    const reattestBy = byExpiry[policy.requiredWitnesses - 1];
+
+    const quorumAt = valid.map(attestation => Date.parse(attestation.timestamp)).sort((a, b) => a - b)[policy.requiredWitnesses - 1];
+    const continuous = previous?.admittedAt && previous.reattestBy && previous.did === did &&
+      (previous.level === 'limited-pinning' || previous.level === 'full') && Date.parse(previous.reattestBy) >= quorumAt;
+    const admittedAt = continuous ? Math.min(Date.parse(previous.admittedAt!), quorumAt) : quorumAt;
+    const fullAccessAt = admittedAt + policy.attestationPeriod;
+
+    const access = this.access(nodeId, did, now >= fullAccessAt ? 'full' : 'limited-pinning', valid);
+    access.admittedAt = new Date(admittedAt).toISOString();
+    access.fullAccessAt = new Date(fullAccessAt).toISOString();
+    access.reattestBy = new Date(reattestBy).toISOString();
+    return access;
+  }
+
+  static needsReattestation(access: ConditionalAccess, leadTime: number = 0, now: number = Date.now()): boolean {
+    return !access.reattestBy || now + leadTime >= Date.parse(access.reattestBy);
+  }
+
+  static encode(attestation: Omit<NodeAttestation, 'signature'>): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify([
+      'vdic-node-attestation-v1',
+      attestation.witnessNodeId,
+      attestation.attestedNodeId,
+      attestation.attestedNodeDID,
+      attestation.verificationMethod,
+      attestation.timestamp,
+      attestation.expiresAt
+    ]));
+  }
+
+  // Keyed by witness DID, so one operator registered under several node IDs still counts once
+  private static latestByWitness(attestations: NodeAttestation[], witnesses: WitnessRegistry): NodeAttestation[] {
+    const latest = new Map<string, NodeAttestation>();
+    for (const attestation of attestations) {
+      const witnessDid = witnesses[attestation.witnessNodeId];
+      const existing = latest.get(witnessDid);
+      if (!existing || attestation.timestamp > existing.timestamp) {
+        latest.set(witnessDid, attestation);
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  private static access(nodeId: string, did: string, level: AccessLevel, attestations: NodeAttestation[]): ConditionalAccess {
+    return {
+      nodeId,
+      did,
+      level,
+      capabilities: [...this.ACCESS_CAPABILITIES[level]],
+      witnesses: attestations.map(attestation => attestation.witnessNodeId)
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,377 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { bytesToHex, hexToBytes, randomBytes } from '@noble/hashes/utils';
+import { base58btc } from 'multiformats/bases/base58';
+
+export type NodeCapability = 'store' | 'serve' | 'pin' | 'replicate' | 'sign-operations';
+
+export interface NodeCertificate {
+  serial: string;
+  nodeId: string;
+  did: string;
+  publicKey: string;
+  issuedBy: string;
+  validFrom: string;
+  validUntil: string;
+  capabilities: NodeCapability[];
+  signature: string;
+}
+
+export interface CertificateRequest {
+  nodeId: string;
+  publicKey: string;
+  capabilities: NodeCapability[];
+  lifetime?: number;
+}
+
+export type RevocationReason = 'key-compromise' | 'removed-from-cluster' | 'superseded' | 'unspecified';
+
+export interface RevocationEntry {
+  serial: string;
+  nodeId: string;
+  revokedAt: string;
+  reason: RevocationReason;
+}
+
+export interface RevocationList {
+  issuer: string;
+  version: number;
+  issuedAt: string;
+  nextUpdate: string;
+  entries: RevocationEntry[];
+  signature: string;
+}
+
+export interface CertificateTrust {
+  issuer: string;
+  revocationList?: RevocationList;
+  requiredCapabilities?: NodeCapability[];
+}
+
+export interface ClusterCertificateConfig extends CertificateTrust {
+  certificate?: NodeCertificate;
+}
+
+export type CertificateFailure =
+  | 'missing'
+  | 'malformed'
+  | 'untrusted-issuer'
+  | 'bad-signature'
+  | 'not-yet-valid'
+  | 'expired'
+  | 'revoked'
+  | 'node-mismatch'
+  | 'missing-capability'
+  | 'stale-revocation-list';
+
+export interface CertificateCheck {
+  valid: boolean;
+  reason?: CertificateFailure;
+  error?: string;
+  validUntil?: number;
+}
+
+export interface CertificateAuthorityOptions {
+  defaultLifetime?: number;
+  maxLifetime?: number;
+  revocationListLifetime?: number;
+}
+
+export interface RotationOptions {
+  interval?: number;
+  certificates: () => NodeCertificate[];
+  onRotate: (certificate: NodeCertificate, previous: NodeCertificate) => void;
+  onRevocationList?: (list: RevocationList) => void;
+  onError?: (error: Error) => void;
+}
+
+export class NodeCertificates {
+  static readonly CAPABILITIES: NodeCapability[] = ['store', 'serve', 'pin', 'replicate', 'sign-operations'];
+  private static readonly ED25519_MULTICODEC = [0xed, 0x01];
+  private static readonly CLOCK_TOLERANCE = 60 * 1000;
+
+  static didFromPublicKey(publicKey: Uint8Array): string {
+    const bytes = new Uint8Array(this.ED25519_MULTICODEC.length + publicKey.length);
+    bytes.set(this.ED25519_MULTICODEC, 0);
+    bytes.set(publicKey, this.ED25519_MULTICODEC.length);
+    return `did:key:${base58btc.encode(bytes)}`;
+  }
+
+  static publicKeyFromDid(did: string): Uint8Array {
+    if (!did.startsWith('did:key:z')) {
+      throw new Error(`Unsupported issuer DID: ${did}`);
+    }
+    const bytes = base58btc.decode(did.slice('did:key:'.length));
+    if (bytes[0] !== this.ED25519_MULTICODEC[0] || bytes[1] !== this.ED25519_MULTICODEC[1] || bytes.length !== 34) {
+      throw new Error('Only Ed25519 did:key identifiers are supported');
+    }
+    return bytes.slice(this.ED25519_MULTICODEC.length);
+  }
+
+  // Checks signature, validity window, revocation and, when the dialed peer is known, that the certificate was issued to it
+  static verify(
+    certificate: NodeCertificate | null | undefined,
+    trust: CertificateTrust,
+    peerId?: string,
+    now: number = Date.now()
+  ): CertificateCheck {
+    if (!certificate) {
+      return this.fail('missing', 'Peer did not present a node certificate');
+    }
+
+    try {
+      if (!this.isWellFormed(certificate)) {
+        return this.fail('malformed', 'Node certificate is malformed');
+      }
+      if (certificate.issuedBy !== trust.issuer) {
+        return this.fail('untrusted-issuer', `Certificate was issued by ${certificate.issuedBy}, not the cluster leader`);
+      }
+      const issuerKey = this.publicKeyFromDid(trust.issuer);
+      if (!ed25519.verify(hexToBytes(certificate.signature), this.encodeCertificate(certificate), issuerKey)) {
+        return this.fail('bad-signature', 'Certificate signature does not verify');
+      }
+      if (certificate.did !== this.didFromPublicKey(hexToBytes(certificate.publicKey))) {
+        return this.fail('malformed', 'Certificate DID does not match its public key');
+      }
+      if (Date.parse(certificate.validFrom) - this.CLOCK_TOLERANCE > now) {
+        return this.fail('not-yet-valid', `Certificate is not valid before ${certificate.validFrom}`);
+      }
+      if (Date.parse(certificate.validUntil) + this.CLOCK_TOLERANCE <= now) {
+        return this.fail('expired', `Certificate expired at ${certificate.validUntil}`);
+      }
+      if (peerId && certificate.nodeId !== peerId) {
+        return this.fail('node-mismatch', `Certificate belongs to ${certificate.nodeId}, not ${peerId}`);
+      }
+
+      const missing = (trust.requiredCapabilities ?? []).filter(capability => !certificate.capabilities.includes(capability));
+      if (missing.length > 0) {
+        return this.fail('missing-capability', `Certificate lacks capabilities: ${missing.join(', ')}`);
+      }
+
+      let validUntil = Date.parse(certificate.validUntil);
+      if (trust.revocationList) {
+        if (!this.verifyRevocationList(trust.revocationList, trust.issuer)) {
+          return this.fail('bad-signature', 'Revocation list signature does not verify');
+        }
+        if (Date.parse(trust.revocationList.nextUpdate) + this.CLOCK_TOLERANCE <= now) {
+          return this.fail('stale-revocation-list', `Revocation list expired at ${trust.revocationList.nextUpdate}`);
+        }
+        const entry = trust.revocationList.entries.find(revoked => revoked.serial === certificate.serial);
+        if (entry) {
+          return this.fail('revoked', `Certificate was revoked at ${entry.revokedAt} (${entry.reason})`);
+        }
+        validUntil = Math.min(validUntil, Date.parse(trust.revocationList.nextUpdate));
+      }
+
+      // A pass lasts until the certificate expires or the revocation list goes stale, whichever is first
+      return { valid: true, validUntil: validUntil + this.CLOCK_TOLERANCE };
+    } catch (error) {
+      return this.fail('malformed', error instanceof Error ? error.message : 'Invalid node certificate');
+    }
+  }
+
+  static verifyRevocationList(list: RevocationList, issuer: string): boolean {
+    try {
+      return list.issuer === issuer &&
+        ed25519.verify(hexToBytes(list.signature), this.encodeRevocationList(list), this.publicKeyFromDid(issuer));
+    } catch {
+      return false;
+    }
+  }
+
+  static hasCapability(certificate: NodeCertificate, capability: NodeCapability): boolean {
+    return certificate.capabilities.includes(capability);
+  }
+
+  static encodeCertificate(certificate: Omit<NodeCertificate, 'signature'>): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify([
+      'vdic-node-certificate-v1',
+      certificate.serial,
+      certificate.nodeId,
+      certificate.did,
+      certificate.publicKey,
+      certificate.issuedBy,
+      certificate.validFrom,
+      certificate.validUntil,
+      [...certificate.capabilities].sort()
+    ]));
+  }
+
+  static encodeRevocationList(list: Omit<RevocationList, 'signature'>): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify([
+      'vdic-revocation-list-v1',
+      list.issuer,
+      list.version,
+      list.issuedAt,
+      list.nextUpdate,
+      list.entries.map(entry => [entry.serial, entry.nodeId, entry.revokedAt, entry.reason])
+    ]));
+  }
+
+  private static isWellFormed(certificate: NodeCertificate): boolean {
+    return [certificate.serial, certificate.nodeId, certificate.did, certificate.publicKey, certificate.issuedBy, certificate.signature]
+      .every(value => typeof value === 'string' && value.length > 0) &&
+      !isNaN(Date.parse(certificate.validFrom)) &&
+      !isNaN(Date.parse(certificate.validUntil)) &&
+      Array.isArray(certificate.capabilities) &&
+      certificate.capabilities.every(capability => this.CAPABILITIES.includes(capability));
+  }
+
+  private static fail(reason: CertificateFailure, error: string): CertificateCheck {
+    return { valid: false, reason, error };
+  }
+}
+
+export class CertificateAuthority {
+  static readonly DEFAULT_LIFETIME = 24 * 60 * 60 * 1000;
+  static readonly MAX_LIFETIME = 7 * 24 * 60 * 60 * 1000;
+  private static readonly DEFAULT_ROTATION_INTERVAL = 15 * 60 * 1000;
+
+  readonly did: string;
+  private readonly options: Required<CertificateAuthorityOptions>;
+  private revocations: RevocationEntry[] = [];
+  private revocationList: RevocationList;
+  private rotationTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly privateKey: Uint8Array, options: CertificateAuthorityOptions = {}) {
+    this.did = NodeCertificates.didFromPublicKey(ed25519.getPublicKey(privateKey));
+    this.options = {
+      defaultLifetime: options.defaultLifetime ?? CertificateAuthority.DEFAULT_LIFETIME,
+      maxLifetime: options.maxLifetime ?? CertificateAuthority.MAX_LIFETIME,
+      revocationListLifetime: options.revocationListLifetime ?? CertificateAuthority.DEFAULT_LIFETIME
+    };
+    if (this.options.defaultLifetime > this.options.maxLifetime) {
+      throw new Error('Default certificate lifetime cannot exceed the maximum lifetime');
+    }
+    this.revocationList = this.signRevocationList(0);
+  }
+
+  static generate(options: CertificateAuthorityOptions = {}): CertificateAuthority {
+    return new CertificateAuthority(ed25519.utils.randomPrivateKey(), options);
+  }
+
+  issue(request: CertificateRequest, now: number = Date.now()): NodeCertificate {
+    const lifetime = request.lifetime ?? this.options.defaultLifetime;
+    if (!Number.isFinite(lifetime) || lifetime <= 0 || lifetime > this.options.maxLifetime) {
+      throw new Error(`Certificate lifetime must be between 1ms and ${this.options.maxLifetime}ms`);
+    }
+    if (!request.nodeId) {
+      throw new Error('Certificate request requires a nodeId');
+    }
+    const invalid = request.capabilities.find(capability => !NodeCertificates.CAPABILITIES.includes(capability));
+    if (invalid) {
+      throw new Error(`Unknown capability: ${invalid}`);
+    }
+
+    const publicKey = hexToBytes(request.publicKey);
+    if (publicKey.length !== 32) {
+      throw new Error('Node public key must be a 32-byte Ed25519 key');
+    }
+
+    const unsigned: Omit<NodeCertificate, 'signature'> = {
+      serial: bytesToHex(randomBytes(16)),
+      nodeId: request.nodeId,
+      did: NodeCertificates.didFromPublicKey(publicKey),
+      publicKey: request.publicKey,
+      issuedBy: this.did,
+      validFrom: new Date(now).toISOString(),
+      validUntil: new Date(now + lifetime).toISOString(),
+      capabilities: Array.from(new Set(request.capabilities))
+    };
+    return { ...unsigned, signature: bytesToHex(ed25519.sign(NodeCertificates.encodeCertificate(unsigned), this.privateKey)) };
+  }
+
+  // Renewal keeps the subject and capabilities; the old certificate stays valid until it expires so peers can switch over
+  renew(certificate: NodeCertificate, now: number = Date.now()): NodeCertificate {
+    const check = NodeCertificates.verify(certificate, { issuer: this.did, revocationList: this.revocationList }, undefined, now);
+    if (!check.valid && check.reason !== 'expired') {
+      throw new Error(`Cannot renew certificate ${certificate.serial}: ${check.error}`);
+    }
+    return this.issue({
+      nodeId: certificate.nodeId,
+      publicKey: certificate.publicKey,
+      capabilities: certificate.capabilities,
+      lifetime: Date.parse(certificate.validUntil) - Date.parse(certificate.validFrom)
+    }, now);
+  }
+
+  needsRotation(certificate: NodeCertificate, now: number = Date.now()): boolean {
+    const validFrom = Date.parse(certificate.validFrom);
+    const validUntil = Date.parse(certificate.validUntil);
+    return now >= validUntil - (validUntil - validFrom) / 3;
+  }
+
+  revoke(certificate: Pick<NodeCertificate, 'serial' | 'nodeId'>, reason: RevocationReason = 'unspecified', now: number = Date.now()): RevocationList {
+    if (!this.revocations.some(entry => entry.serial === certificate.serial)) {
+      this.revocations.push({
+        serial: certificate.serial,
+        nodeId: certificate.nodeId,
+        revokedAt: new Date(now).toISOString(),
+        reason
+      });
+    }
+    return this.publishRevocationList(now);
+  }
+
+  isRevoked(serial: string): boolean {
+    return this.revocations.some(entry => entry.serial === serial);
+  }
+
+  getRevocationList(): RevocationList {
+    return this.revocationList;
+  }
+
+  publishRevocationList(now: number = Date.now()): RevocationList {
+    this.revocationList = this.signRevocationList(this.revocationList.version + 1, now);
+    return this.revocationList;
+  }
+
+  startRotation(options: RotationOptions): void {
+    this.stopRotation();
+    const tick = () => {
+      try {
+        this.rotate(options);
+      } catch (error) {
+        options.onError?.(error instanceof Error ? error : new Error('Certificate rotation failed'));
+      }
+    };
+    tick();
+    this.rotationTimer = setInterval(tick, options.interval ?? CertificateAuthority.DEFAULT_ROTATION_INTERVAL);
+  }
+
+  stopRotation(): void {
+    if (this.rotationTimer) {
+      clearInterval(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+  }
+
+  isRotating(): boolean {
+    return this.rotationTimer !== null;
+  }
+
+  private rotate(options: RotationOptions, now: number = Date.now()): void {
+    for (const certificate of options.certificates()) {
+      if (certificate.issuedBy !== this.did || this.isRevoked(certificate.serial) || !this.needsRotation(certificate, now)) {
+        continue;
+      }
+      options.onRotate(this.renew(certificate, now), certificate);
+    }
+
+    const nextUpdate = Date.parse(this.revocationList.nextUpdate);
+    const issuedAt = Date.parse(this.revocationList.issuedAt);
+    if (now >= nextUpdate - (nextUpdate - issuedAt) / 3) {
+      options.onRevocationList?.(this.publishRevocationList(now));
+    }
+  }
+
+  private signRevocationList(version: number, now: number = Date.now()): RevocationList {
+    const unsigned: Omit<RevocationList, 'signature'> = {
+      issuer: this.did,
+      version,
+      issuedAt: new Date(now).toISOString(),
+      nextUpdate: new Date(now + this.options.revocationListLifetime).toISOString(),
+      entries: [...this.revocations]
+    };
+    return { ...unsigned, signature: bytesToHex(ed25519.sign(NodeCertificates.encodeRevocationList(unsigned), this.privateKey)) };
+  }
+}
\ No newline at end of file
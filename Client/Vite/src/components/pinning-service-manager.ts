@@ -149,13 +149,14 @@ export class PinningServiceManager {
   static async pinToMultipleServices(
     file: FileMetadata,
     services: PinningService[],
-    onProgress?: (progress: PinningProgress) => void
+    onProgress?: (progress: PinningProgress) => void,
+    schedule: <T>(task: () => Promise<T>) => Promise<T> = task => task()
   ): Promise<Record<string, PinStatus>> {
     const enabledServices = services.filter(s => s.enabled && s.verified);
     const results: Record<string, PinStatus> = {};
 
     const pinPromises = enabledServices.map(async (service) => {
-      const result = await this.pinFile(file, service, onProgress);
+      const result = await schedule(() => this.pinFile(file, service, onProgress));
       results[service.id] = result;
       return result;
     });
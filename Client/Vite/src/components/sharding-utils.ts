@@ -1,5 +1,13 @@
 import { ShardingOptions } from './types';
 import { CryptoUtils } from './crypto-utils';
+import { ErasureCoding } from './erasure-coding';
+
+export type ShardingAlgorithm = 'simple-chunking' | 'reed-solomon';
+
+export interface ErasureCodingOptions {
+  shardingAlgorithm?: ShardingAlgorithm;
+  parityShards?: number;
+}
 
 export interface ShardInfo {
   index: number;
@@ -15,8 +23,10 @@ export interface ShardManifest {
   shardSize: number;
   shardCount: number;
   redundancy: number;
-  algorithm: string;
+  algorithm: ShardingAlgorithm;
+  parityShards?: number;
   shards: ShardInfo[];
+  shardRoot?: string;
   createdAt: number;
 }
 
@@ -25,7 +35,8 @@ export class ShardingUtils {
 
   static async createShards(
     data: Uint8Array,
-    options: ShardingOptions
+    options: ShardingOptions & ErasureCodingOptions,
+    hash: (data: Uint8Array) => Promise<string> = data => CryptoUtils.hashData(data)
   ): Promise<{
     shards: Uint8Array[];
     manifest: ShardManifest;
@@ -35,32 +46,37 @@ export class ShardingUtils {
     }
 
     const shardCount = Math.ceil(data.length / options.chunkSize);
-    
-    if (shardCount > options.maxShards) {
-      throw new Error(`File would create ${shardCount} shards, maximum is ${options.maxShards}`);
+    // Parity shards are stored and pinned like data shards, so they count toward the limit
+    const parityCount = options.shardingAlgorithm === 'reed-solomon'
+      ? options.parityShards ?? Math.max(1, Math.ceil(shardCount / 2))
+      : 0;
+
+    if (shardCount + parityCount > options.maxShards) {
+      throw new Error(`File would create ${shardCount + parityCount} shards (${parityCount} parity), maximum is ${options.maxShards}`);
     }
 
     const shards: Uint8Array[] = [];
-    const shardInfos: ShardInfo[] = [];
-    const originalChecksum = await CryptoUtils.hashData(data);
+    const originalChecksum = await hash(data);
+
+    if (options.shardingAlgorithm === 'reed-solomon') {
+      return await this.createErasureCodedShards(data, shardCount, parityCount, originalChecksum, options, hash);
+    }
 
     for (let i = 0; i < shardCount; i++) {
       const start = i * options.chunkSize;
       const end = Math.min(start + options.chunkSize, data.length);
-      const shard = data.slice(start, end);
-      
-      const checksum = await CryptoUtils.hashData(shard);
-      
-      shards.push(shard);
-      shardInfos.push({
-        index: i,
-        size: shard.length,
-        checksum: checksum
-      });
+      shards.push(data.slice(start, end));
     }
 
+    const checksums = await Promise.all(shards.map(shard => hash(shard)));
+    const shardInfos: ShardInfo[] = shards.map((shard, i) => ({
+      index: i,
+      size: shard.length,
+      checksum: checksums[i]
+    }));
+
     if (options.redundancy > 1) {
-      const redundantShards = await this.createRedundantShards(shards, options.redundancy);
+      const redundantShards = this.createRedundantShards(shards, checksums, options.redundancy);
       shards.push(...redundantShards.shards);
       shardInfos.push(...redundantShards.shardInfos);
     }
@@ -80,10 +96,58 @@ export class ShardingUtils {
     return { shards, manifest };
   }
 
+  private static async createErasureCodedShards(
+    data: Uint8Array,
+    dataCount: number,
+    parityCount: number,
+    originalChecksum: string,
+    options: ShardingOptions & ErasureCodingOptions,
+    hash: (data: Uint8Array) => Promise<string>
+  ): Promise<{
+    shards: Uint8Array[];
+    manifest: ShardManifest;
+  }> {
+    const dataShards: Uint8Array[] = [];
+
+    for (let i = 0; i < dataCount; i++) {
+      const shard = new Uint8Array(options.chunkSize);
+      shard.set(data.subarray(i * options.chunkSize, (i + 1) * options.chunkSize));
+      dataShards.push(shard);
+    }
+
+    const parityShards = ErasureCoding.encode(dataShards, parityCount);
+    const shards = [...dataShards, ...parityShards];
+    const checksums = await Promise.all(shards.map(shard => hash(shard)));
+    const shardInfos: ShardInfo[] = shards.map((shard, i) => ({
+      index: i,
+      size: shard.length,
+      checksum: checksums[i]
+    }));
+
+    const manifest: ShardManifest = {
+      version: this.MANIFEST_VERSION,
+      originalSize: data.length,
+      originalChecksum: originalChecksum,
+      shardSize: options.chunkSize,
+      shardCount: dataCount,
+      redundancy: ErasureCoding.getStorageOverhead(dataCount, parityCount),
+      algorithm: 'reed-solomon',
+      parityShards: parityCount,
+      shards: shardInfos,
+      createdAt: Date.now()
+    };
+
+    return { shards, manifest };
+  }
+
   static async reconstructFromShards(
-    shards: Uint8Array[],
+    shards: Array<Uint8Array | null | undefined>,
     manifest: ShardManifest
   ): Promise<Uint8Array> {
+    if (manifest.algorithm === 'reed-solomon') {
+      return await this.reconstructFromErasureCodedShards(shards, manifest);
+    }
+
     if (shards.length < manifest.shardCount) {
       throw new Error(`Insufficient shards: need ${manifest.shardCount}, got ${shards.length}`);
     }
@@ -132,18 +196,52 @@ export class ShardingUtils {
     return reconstructed;
   }
 
+  private static async reconstructFromErasureCodedShards(
+    shards: Array<Uint8Array | null | undefined>,
+    manifest: ShardManifest
+  ): Promise<Uint8Array> {
+    const parityCount = manifest.parityShards ?? 0;
+    const totalShards = manifest.shardCount + parityCount;
+    const validShards: Array<Uint8Array | null> = [];
+
+    for (let i = 0; i < totalShards; i++) {
+      const shard = shards[i];
+      if (!shard) {
+        validShards.push(null);
+        continue;
+      }
+
+      const checksum = await CryptoUtils.hashData(shard);
+      validShards.push(checksum === manifest.shards[i].checksum ? shard : null);
+    }
+
+    const dataShards = ErasureCoding.reconstruct(validShards, manifest.shardCount, parityCount);
+    const reconstructed = this.concatenateShards(dataShards).slice(0, manifest.originalSize);
+
+    const reconstructedChecksum = await CryptoUtils.hashData(reconstructed);
+    if (reconstructedChecksum !== manifest.originalChecksum) {
+      throw new Error('Reconstructed file checksum mismatch');
+    }
+
+    return reconstructed;
+  }
+
   static async verifyShards(
-    shards: Uint8Array[],
+    shards: Array<Uint8Array | null | undefined>,
     manifest: ShardManifest
   ): Promise<{
     valid: boolean;
+    recoverable: boolean;
     corruptedShards: number[];
     missingShards: number[];
   }> {
     const corruptedShards: number[] = [];
     const missingShards: number[] = [];
+    const totalShards = manifest.algorithm === 'reed-solomon'
+      ? manifest.shardCount + (manifest.parityShards ?? 0)
+      : manifest.shardCount;
 
-    for (let i = 0; i < manifest.shardCount; i++) {
+    for (let i = 0; i < totalShards; i++) {
       const shard = shards[i];
       const expectedInfo = manifest.shards[i];
 
@@ -158,8 +256,11 @@ export class ShardingUtils {
       }
     }
 
+    const healthyShards = totalShards - corruptedShards.length - missingShards.length;
+
     return {
       valid: corruptedShards.length === 0 && missingShards.length === 0,
+      recoverable: healthyShards >= manifest.shardCount,
       corruptedShards,
       missingShards
     };
@@ -192,26 +293,27 @@ export class ShardingUtils {
     return JSON.parse(manifestJson);
   }
 
-  private static async createRedundantShards(
+  // Redundant copies are the same bytes, so they reuse the checksums already computed
+  private static createRedundantShards(
     originalShards: Uint8Array[],
+    checksums: string[],
     redundancy: number
-  ): Promise<{
+  ): {
     shards: Uint8Array[];
     shardInfos: ShardInfo[];
-  }> {
+  } {
     const redundantShards: Uint8Array[] = [];
     const shardInfos: ShardInfo[] = [];
 
     for (let r = 1; r < redundancy; r++) {
       for (let i = 0; i < originalShards.length; i++) {
         const shard = originalShards[i];
-        const checksum = await CryptoUtils.hashData(shard);
         
         redundantShards.push(shard);
         shardInfos.push({
           index: originalShards.length * r + i,
           size: shard.length,
-          checksum: checksum
+          checksum: checksums[i]
         });
       }
     }
@@ -220,7 +322,7 @@ export class ShardingUtils {
   }
 
   private static async findValidRedundantShard(
-    allShards: Uint8Array[],
+    allShards: Array<Uint8Array | null | undefined>,
     shardIndex: number,
     expectedInfo: ShardInfo,
     manifest: ShardManifest
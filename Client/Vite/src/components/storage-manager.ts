@@ -1,4 +1,5 @@
 import { DatastoreConfig, FileMetadata, PeerConfig, PinningService } from './types';
+import { ClusterCertificateConfig } from './node-certificates';
 
 export class StorageManager {
   private static readonly CONFIG_KEY = 'ipfs-client-config';
@@ -63,6 +64,12 @@ export class StorageManager {
         codec: 'dag-pb',
         hasher: 'sha2-256'
       },
+      storage: {
+        type: 'indexeddb',
+        name: 'ipfs-client',
+        quotaThreshold: 0.8,
+        gcOnStart: false
+      },
       version: this.VERSION,
       lastUpdated: Date.now()
     };
@@ -198,6 +205,12 @@ export class StorageManager {
     this.saveConfig(config);
   }
 
+  static updateCluster(cluster: ClusterCertificateConfig | undefined): void {
+    const config = this.loadConfig();
+    config.cluster = cluster;
+    this.saveConfig(config);
+  }
+
   static clearAll(): void {
     localStorage.removeItem(this.CONFIG_KEY);
   }
@@ -233,6 +246,8 @@ export class StorageManager {
       encryptionDefaults: config.encryptionDefaults || defaultConfig.encryptionDefaults,
       shardingDefaults: config.shardingDefaults || defaultConfig.shardingDefaults,
       cidDefaults: config.cidDefaults || defaultConfig.cidDefaults,
+      storage: config.storage || defaultConfig.storage,
+      cluster: config.cluster,
       version: this.VERSION,
       lastUpdated: Date.now()
     };
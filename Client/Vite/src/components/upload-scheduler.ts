@@ -0,0 +1,259 @@
+import { CryptoUtils } from './crypto-utils';
+
+export interface UploadSchedulerConfig {
+  fileConcurrency: number;
+  shardConcurrency: number;
+  pinConcurrency: number;
+  maxBufferedBytes: number;
+  workers: number;
+}
+
+export interface QueueStats {
+  active: number;
+  waiting: number;
+  bufferedBytes: number;
+}
+
+export type EncryptedPayload = Awaited<ReturnType<typeof CryptoUtils.encryptWithMetadata>>;
+export type EncryptOptions = Parameters<typeof CryptoUtils.encryptWithMetadata>[1];
+
+export type CryptoTask =
+  | { id: number; op: 'hash'; data: Uint8Array }
+  | { id: number; op: 'encrypt'; data: Uint8Array; options: EncryptOptions; iv?: Uint8Array };
+
+export type CryptoTaskResult =
+  | { id: number; digest: string }
+  | { id: number; encrypted: EncryptedPayload }
+  | { id: number; error: string };
+
+// FIFO queue limited by task count and by the bytes its running tasks hold; a single oversized task may still run alone
+export class TaskQueue {
+  private active = 0;
+  private bufferedBytes = 0;
+  private waiting: { weight: number; start: () => void }[] = [];
+
+  constructor(private concurrency: number, private capacity: number = Infinity) {}
+
+  async run<T>(task: () => Promise<T>, weight: number = 0): Promise<T> {
+    await this.acquire(weight);
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.bufferedBytes -= weight;
+      this.pump();
+    }
+  }
+
+  setLimits(concurrency: number, capacity: number = this.capacity): void {
+    this.concurrency = concurrency;
+    this.capacity = capacity;
+    this.pump();
+  }
+
+  getStats(): QueueStats {
+    return { active: this.active, waiting: this.waiting.length, bufferedBytes: this.bufferedBytes };
+  }
+
+  private acquire(weight: number): Promise<void> {
+    return new Promise(resolve => {
+      this.waiting.push({ weight, start: resolve });
+      this.pump();
+    });
+  }
+
+  private pump(): void {
+    while (this.waiting.length > 0 && this.canStart(this.waiting[0].weight)) {
+      const next = this.waiting.shift()!;
+      this.active++;
+      this.bufferedBytes += next.weight;
+      next.start();
+    }
+  }
+
+  private canStart(weight: number): boolean {
+    return this.active < this.concurrency && (this.active === 0 || this.bufferedBytes + weight <= this.capacity);
+  }
+}
+
+// Hashing and encryption run in module workers; environments without Worker fall back to the main thread
+class CryptoWorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private backlog: { task: CryptoTask; resolve: (result: CryptoTaskResult) => void; reject: (error: Error) => void }[] = [];
+  private running = new Map<Worker, { resolve: (result: CryptoTaskResult) => void; reject: (error: Error) => void }>();
+  private nextId = 0;
+
+  constructor(size: number) {
+    if (typeof Worker === 'undefined') return;
+
+    for (let i = 0; i < size; i++) {
+      try {
+        const worker = new Worker(new URL('./crypto-worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<CryptoTaskResult>) => this.settle(worker, event.data);
+        worker.onerror = event => this.fail(worker, new Error(event.message || 'Crypto worker crashed'));
+        this.workers.push(worker);
+        this.idle.push(worker);
+      } catch (error) {
+        console.warn('Crypto workers unavailable, hashing on the main thread', error);
+        break;
+      }
+    }
+  }
+
+  async hash(data: Uint8Array): Promise<string> {
+    if (this.workers.length === 0) {
+      return await CryptoUtils.hashData(data);
+    }
+    // A view is cloned with its whole backing buffer, so the task gets its own copy and transfers it instead
+    const result = await this.submit({ id: this.nextId++, op: 'hash', data: data.slice() });
+    return (result as { digest: string }).digest;
+  }
+
+  async encrypt(data: Uint8Array, options: EncryptOptions, iv?: Uint8Array): Promise<EncryptedPayload> {
+    if (this.workers.length === 0) {
+      return await CryptoUtils.encryptWithMetadata(data, options, iv);
+    }
+    const task: CryptoTask = iv ? { id: this.nextId++, op: 'encrypt', data, options, iv } : { id: this.nextId++, op: 'encrypt', data, options };
+    const result = await this.submit(task);
+    return (result as { encrypted: EncryptedPayload }).encrypted;
+  }
+
+  terminate(): void {
+    this.workers.forEach(worker => worker.terminate());
+    this.running.forEach(job => job.reject(new Error('Crypto worker pool terminated')));
+    this.backlog.forEach(job => job.reject(new Error('Crypto worker pool terminated')));
+    this.workers = [];
+    this.idle = [];
+    this.backlog = [];
+    this.running.clear();
+  }
+
+  private submit(task: CryptoTask): Promise<CryptoTaskResult> {
+    return new Promise((resolve, reject) => {
+      this.backlog.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.backlog.length > 0) {
+      const worker = this.idle.pop()!;
+      const { task, resolve, reject } = this.backlog.shift()!;
+      this.running.set(worker, { resolve, reject });
+      worker.postMessage(task, task.op === 'hash' ? [task.data.buffer as ArrayBuffer] : []);
+    }
+  }
+
+  private settle(worker: Worker, result: CryptoTaskResult): void {
+    const job = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+    if ('error' in result) {
+      job?.reject(new Error(result.error));
+    } else {
+      job?.resolve(result);
+    }
+    this.dispatch();
+  }
+
+  private fail(worker: Worker, error: Error): void {
+    this.running.get(worker)?.reject(error);
+    this.running.delete(worker);
+    worker.terminate();
+    this.workers = this.workers.filter(candidate => candidate !== worker);
+    this.idle = this.idle.filter(candidate => candidate !== worker);
+
+    // With every worker gone the queued tasks are finished inline
+    if (this.workers.length === 0) {
+      const backlog = this.backlog;
+      this.backlog = [];
+      backlog.forEach(({ task, resolve, reject }) => {
+        const inline: Promise<CryptoTaskResult> = task.op === 'hash'
+          ? CryptoUtils.hashData(task.data).then(digest => ({ id: task.id, digest }))
+          : CryptoUtils.encryptWithMetadata(task.data, task.options, task.iv).then(encrypted => ({ id: task.id, encrypted }));
+        inline.then(resolve, reject);
+      });
+    }
+    this.dispatch();
+  }
+}
+
+export class UploadScheduler {
+  private static instance: UploadScheduler;
+  private config: UploadSchedulerConfig;
+  private files: TaskQueue;
+  private shards: TaskQueue;
+  private pins: TaskQueue;
+  private pool: CryptoWorkerPool | null = null;
+
+  private constructor(config: Partial<UploadSchedulerConfig> = {}) {
+    const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2;
+    this.config = {
+      fileConcurrency: 2,
+      shardConcurrency: 4,
+      pinConcurrency: 2,
+      maxBufferedBytes: 256 * 1024 * 1024,
+      workers: Math.max(1, Math.min(4, cores - 1)),
+      ...config
+    };
+    this.files = new TaskQueue(this.config.fileConcurrency, this.config.maxBufferedBytes);
+    this.shards = new TaskQueue(this.config.shardConcurrency);
+    this.pins = new TaskQueue(this.config.pinConcurrency);
+  }
+
+  static getInstance(): UploadScheduler {
+    if (!UploadScheduler.instance) {
+      UploadScheduler.instance = new UploadScheduler();
+    }
+    return UploadScheduler.instance;
+  }
+
+  configure(config: Partial<UploadSchedulerConfig>): void {
+    const workersChanged = config.workers !== undefined && config.workers !== this.config.workers;
+    this.config = { ...this.config, ...config };
+    this.files.setLimits(this.config.fileConcurrency, this.config.maxBufferedBytes);
+    this.shards.setLimits(this.config.shardConcurrency);
+    this.pins.setLimits(this.config.pinConcurrency);
+    if (workersChanged && this.pool) {
+      this.pool.terminate();
+      this.pool = null;
+    }
+  }
+
+  getConfig(): UploadSchedulerConfig {
+    return { ...this.config };
+  }
+
+  getStats(): { files: QueueStats; shards: QueueStats; pins: QueueStats } {
+    return { files: this.files.getStats(), shards: this.shards.getStats(), pins: this.pins.getStats() };
+  }
+
+  // A file holds its size against the buffer budget from the moment it is read until its upload settles
+  async runFile<T>(task: () => Promise<T>, bytes: number): Promise<T> {
+    return await this.files.run(task, bytes);
+  }
+
+  async runShard<T>(task: () => Promise<T>): Promise<T> {
+    return await this.shards.run(task);
+  }
+
+  async runPin<T>(task: () => Promise<T>): Promise<T> {
+    return await this.pins.run(task);
+  }
+
+  async hash(data: Uint8Array): Promise<string> {
+    return await this.workerPool().hash(data);
+  }
+
+  async encrypt(data: Uint8Array, options: EncryptOptions, iv?: Uint8Array): Promise<EncryptedPayload> {
+    return await this.workerPool().encrypt(data, options, iv);
+  }
+
+  private workerPool(): CryptoWorkerPool {
+    if (!this.pool) {
+      this.pool = new CryptoWorkerPool(this.config.workers);
+    }
+    return this.pool;
+  }
+}
\ No newline at end of file
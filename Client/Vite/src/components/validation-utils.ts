@@ -1,4 +1,5 @@
 import { FileMetadata, PeerConfig, PinningService, CIDOptions } from './types';
+import { HasherRegistry } from './hasher-registry';
 
 export interface ValidationError {
   field: string;
@@ -198,7 +199,7 @@ export class ValidationUtils {
       });
     }
 
-    const validHashers = ['sha2-256', 'sha2-512', 'blake2b-256', 'blake3'];
+    const validHashers = HasherRegistry.list().filter(name => name !== 'identity');
     if (options.hasher && !validHashers.includes(options.hasher)) {
       errors.push({
         field: 'hasher',
@@ -12,6 +12,7 @@ import { StorageManager } from './components/storage-manager';
 import { IPFSNodeManager } from './components/ipfs-node-manager';
 import { FileOperationsManager } from './components/file-operations-manager';
 import { PinningServiceManager } from './components/pinning-service-manager';
+import { ClusterCertificateConfig, NodeCertificate, NodeCertificates } from './components/node-certificates';
 
 type TabType = 'files' | 'upload' | 'peers' | 'pinning' | 'settings';
 
@@ -26,7 +27,7 @@ export default function IPFSBrowserClient() {
     uptime: 0,
     status: 'initializing'
   });
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [uploadOptions, setUploadOptions] = useState<UploadOptions>({
     version: 1,
@@ -48,13 +49,19 @@ export default function IPFSBrowserClient() {
   const [showServiceModal, setShowServiceModal] = useState(false);
   const [newPeer, setNewPeer] = useState<Partial<PeerConfig>>({});
   const [newService, setNewService] = useState<Partial<PinningService>>({});
+  const [clusterForm, setClusterForm] = useState({ issuer: '', certificate: '' });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   const ipfsManager = IPFSNodeManager.getInstance();
 
   useEffect(() => {
     const loadedConfig = StorageManager.loadConfig();
     setConfig(loadedConfig);
+    setClusterForm({
+      issuer: loadedConfig.cluster?.issuer ?? '',
+      certificate: loadedConfig.cluster?.certificate ? JSON.stringify(loadedConfig.cluster.certificate, null, 2) : ''
+    });
     
     initializeIPFS(loadedConfig);
   }, []);
@@ -71,7 +78,8 @@ export default function IPFSBrowserClient() {
 
   const initializeIPFS = async (config: DatastoreConfig) => {
     try {
-      await ipfsManager.initialize(config.peers);
+      await ipfsManager.initialize(config.peers, config.storage, config.cluster);
+      await ipfsManager.maintainStorage(config.files.map((file: FileMetadata) => file.cid));
       ipfsManager.updateFileStats(config.files.length, 
         config.files.reduce((sum, f) => sum + f.size, 0)
       );
@@ -81,14 +89,46 @@ export default function IPFSBrowserClient() {
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      setSelectedFiles(files);
       setShowUploadModal(true);
     }
   };
 
+  const resetSelection = () => {
+    setSelectedFiles([]);
+    setUploadProgress(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (folderInputRef.current) {
+      folderInputRef.current.value = '';
+    }
+  };
+
+  // Several files, or anything picked through the folder input, are uploaded together under one directory CID
+  const handleDirectoryUpload = async () => {
+    setUploadProgress({ stage: 'preparing', progress: 0, message: 'Preparing...' });
+
+    const result = await FileOperationsManager.uploadDirectory(
+      selectedFiles,
+      uploadOptions,
+      setUploadProgress
+    );
+
+    if (result.success && result.root) {
+      setConfig(StorageManager.loadConfig());
+      setShowUploadModal(false);
+      resetSelection();
+      alert(`Directory "${result.root.name}" uploaded with ${selectedFiles.length} files!\n\nCID: ${result.root.cid}`);
+    } else {
+      console.error('Directory upload failed:', result.error);
+    }
+  };
+
   const handleUpload = async () => {
+    const selectedFile = selectedFiles[0];
     if (!selectedFile) return;
 
     if (nodeStats.status !== 'ready') {
@@ -97,16 +137,21 @@ export default function IPFSBrowserClient() {
     }
 
     try {
+      if (selectedFiles.length > 1 || selectedFile.webkitRelativePath) {
+        await handleDirectoryUpload();
+        return;
+      }
+
       console.log('Starting upload process for:', selectedFile.name);
       console.log('Upload options:', uploadOptions);
       console.log('Node status:', nodeStats.status);
       
       setUploadProgress({ stage: 'preparing', progress: 0, message: 'Preparing...' });
       
-      const result = await FileOperationsManager.uploadFile(
-        selectedFile,
+      const [result] = await FileOperationsManager.uploadFiles(
+        [selectedFile],
         uploadOptions,
-        setUploadProgress
+        (_file, progress) => setUploadProgress(progress)
       );
 
       console.log('Upload result:', result);
@@ -115,12 +160,7 @@ export default function IPFSBrowserClient() {
         const updatedConfig = StorageManager.loadConfig();
         setConfig(updatedConfig);
         setShowUploadModal(false);
-        setSelectedFile(null);
-        setUploadProgress(null);
-        
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
+        resetSelection();
         
         // Show success message with CID info
         const requestedVersion = uploadOptions.version;
@@ -154,6 +194,20 @@ export default function IPFSBrowserClient() {
 
   const handleDownload = async (file: FileMetadata) => {
     try {
+      if (file.directory && !file.parentCid) {
+        const path = prompt(`Path inside "${file.name}" to download (e.g. /metadata/1.json):`);
+        if (!path) return;
+
+        const result = await FileOperationsManager.downloadPath(file, path);
+        if (result.success && result.data) {
+          FileOperationsManager.downloadBlob(result.data, path.split('/').filter(Boolean).pop() || file.name, result.mimeType || 'application/octet-stream');
+          setConfig(StorageManager.loadConfig());
+        } else {
+          alert(`Download failed: ${result.error}`);
+        }
+        return;
+      }
+
       const result = await FileOperationsManager.downloadFile(file);
       
       if (result.success && result.data) {
@@ -192,6 +246,51 @@ export default function IPFSBrowserClient() {
     }
   };
 
+  const handleConnectPeer = async (peer: PeerConfig) => {
+    try {
+      await ipfsManager.connectToPeer(peer.multiaddr);
+      alert(`Connected to ${peer.name}`);
+    } catch (error) {
+      alert(`Connection to ${peer.name} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // The leader DID becomes the trust anchor; peers must then present a certificate issued by it
+  const handleSaveCluster = () => {
+    const issuer = clusterForm.issuer.trim();
+    let certificate: NodeCertificate | undefined;
+    try {
+      certificate = clusterForm.certificate.trim() ? JSON.parse(clusterForm.certificate) : undefined;
+    } catch {
+      alert('Node certificate is not valid JSON');
+      return;
+    }
+
+    const cluster: ClusterCertificateConfig | undefined = issuer ? { issuer } : undefined;
+    // A revocation list signed by the same leader still applies
+    if (cluster && config.cluster?.issuer === issuer) {
+      if (config.cluster.revocationList) cluster.revocationList = config.cluster.revocationList;
+      if (config.cluster.requiredCapabilities) cluster.requiredCapabilities = config.cluster.requiredCapabilities;
+    }
+
+    if (cluster && certificate) {
+      cluster.certificate = certificate;
+      const check = NodeCertificates.verify(certificate, cluster, nodeStats.peerId || undefined);
+      if (!check.valid) {
+        alert(`Node certificate rejected: ${check.error}`);
+        return;
+      }
+    }
+
+    try {
+      ipfsManager.setClusterConfig(cluster);
+      StorageManager.updateCluster(cluster);
+      setConfig(StorageManager.loadConfig());
+    } catch (error) {
+      alert(`Cluster settings not saved: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
   const handleTestService = async (service: PinningService) => {
     const result = await PinningServiceManager.testService(service);
     
@@ -358,7 +457,7 @@ export default function IPFSBrowserClient() {
                     <div key={file.cid} className="bg-gray-700 rounded-lg p-4">
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
-                          <h3 className="font-semibold text-lg mb-2">{file.name}</h3>
+                          <h3 className="font-semibold text-lg mb-2">{file.path ?? file.name}</h3>
                           <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-gray-300">
                             <div>Size: {formatBytes(file.size)}</div>
                             <div>Type: {file.contentType}</div>
@@ -459,14 +558,31 @@ export default function IPFSBrowserClient() {
                     <input
                       ref={fileInputRef}
                       type="file"
+                      multiple
                       onChange={handleFileSelect}
                       className="w-full p-3 bg-gray-600 border border-gray-500 rounded text-gray-100 file-input"
                     />
-                    {selectedFile && (
+                    <input
+                      ref={folderInputRef}
+                      type="file"
+                      multiple
+                      onChange={handleFileSelect}
+                      className="w-full mt-3 p-3 bg-gray-600 border border-gray-500 rounded text-gray-100 file-input"
+                      {...{ webkitdirectory: '' }}
+                    />
+                    {selectedFiles.length === 1 && !selectedFiles[0].webkitRelativePath && (
+                      <div className="mt-4 p-3 bg-gray-600 rounded">
+                        <div className="font-medium">{selectedFiles[0].name}</div>
+                        <div className="text-sm text-gray-300">
+                          {formatBytes(selectedFiles[0].size)} • {selectedFiles[0].type}
+                        </div>
+                      </div>
+                    )}
+                    {(selectedFiles.length > 1 || !!selectedFiles[0]?.webkitRelativePath) && (
                       <div className="mt-4 p-3 bg-gray-600 rounded">
-                        <div className="font-medium">{selectedFile.name}</div>
+                        <div className="font-medium">{selectedFiles.length} files as one directory</div>
                         <div className="text-sm text-gray-300">
-                          {formatBytes(selectedFile.size)} • {selectedFile.type}
+                          {formatBytes(selectedFiles.reduce((sum, file) => sum + file.size, 0))} • encryption and sharding are skipped
                         </div>
                       </div>
                     )}
@@ -595,7 +711,7 @@ export default function IPFSBrowserClient() {
                     </div>
                   </div>
 
-                  {selectedFile && (
+                  {selectedFiles.length > 0 && (
                     <button
                       onClick={handleUpload}
                       disabled={!!uploadProgress || nodeStats.status !== 'ready'}
@@ -605,6 +721,8 @@ export default function IPFSBrowserClient() {
                         ? `${uploadProgress.stage} (${uploadProgress.progress}%)` 
                         : nodeStats.status !== 'ready'
                         ? `IPFS Node ${nodeStats.status}...`
+                        : selectedFiles.length > 1 || selectedFiles[0].webkitRelativePath
+                        ? 'Upload Directory'
                         : 'Upload File'
                       }
                     </button>
@@ -657,6 +775,12 @@ export default function IPFSBrowserClient() {
                         </div>
                       </div>
                       <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleConnectPeer(peer)}
+                          className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-sm"
+                        >
+                          Connect
+                        </button>
                         <button
                           onClick={() => {
                             StorageManager.updatePeer(peer.id, { enabled: !peer.enabled });
@@ -757,6 +881,40 @@ export default function IPFSBrowserClient() {
                   </div>
                 </div>
 
+                <div className="bg-gray-700 rounded-lg p-4">
+                  <h3 className="text-lg font-semibold mb-4">Cluster Trust</h3>
+                  <div className="space-y-3 text-sm">
+                    <div>
+                      <label className="block text-gray-400 mb-1">Cluster leader DID</label>
+                      <input
+                        type="text"
+                        value={clusterForm.issuer}
+                        onChange={(e) => setClusterForm({ ...clusterForm, issuer: e.target.value })}
+                        placeholder="did:key:z6Mk..."
+                        className="w-full px-3 py-2 bg-gray-600 rounded font-mono"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-gray-400 mb-1">This node's certificate (JSON)</label>
+                      <textarea
+                        value={clusterForm.certificate}
+                        onChange={(e) => setClusterForm({ ...clusterForm, certificate: e.target.value })}
+                        rows={4}
+                        className="w-full px-3 py-2 bg-gray-600 rounded font-mono text-xs"
+                      />
+                    </div>
+                    <div className="text-gray-400">
+                      With a leader DID set, every peer is asked for its certificate over {'/vdic/node-certificate/1.0.0'} and disconnected unless it verifies.
+                    </div>
+                    <button
+                      onClick={handleSaveCluster}
+                      className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded font-medium"
+                    >
+                      Save Cluster Trust
+                    </button>
+                  </div>
+                </div>
+
                 <div className="bg-gray-700 rounded-lg p-4">
                   <h3 className="text-lg font-semibold mb-4">File Storage Details</h3>
                   <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
@@ -842,7 +1000,7 @@ export default function IPFSBrowserClient() {
                     
                     <button
                       onClick={() => {
-                        const cidList = config.files.map(f => f.cid).join('\n');
+                        const cidList = config.files.map((file: FileMetadata) => file.cid).join('\n');
                         navigator.clipboard.writeText(cidList).then(() => {
                           alert(`Copied ${config.files.length} CIDs to clipboard!`);
                         }).catch(() => {